@@ -1,23 +1,38 @@
 import { RouterProvider } from "react-router-dom";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClient } from "@tanstack/react-query";
+import { PersistQueryClientProvider } from "@tanstack/react-query-persist-client";
 import { Toaster } from "sonner";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { ThemeProvider } from "@/components/ThemeProvider";
 import { router } from "@/router";
+import { QUERY_CACHE_MAX_AGE, queryPersister } from "@/lib/queryPersister";
+import { startOfflineQueue } from "@/lib/offlineQueue";
 
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       staleTime: 1000 * 60 * 5, // 5 minutes
       retry: 1,
+      // Firestore answers from its local cache while offline, so queries still run
+      networkMode: "offlineFirst",
     },
   },
 });
 
+startOfflineQueue(queryClient);
+
 function App() {
   return (
     <ThemeProvider defaultTheme="system" storageKey="goals-todo-theme">
-      <QueryClientProvider client={queryClient}>
+      <PersistQueryClientProvider
+        client={queryClient}
+        persistOptions={{
+          persister: queryPersister,
+          maxAge: QUERY_CACHE_MAX_AGE,
+          // Queued mutations cannot be replayed after a reload, so only queries are kept
+          dehydrateOptions: { shouldDehydrateMutation: () => false },
+        }}
+      >
         <AuthProvider>
           <RouterProvider router={router} />
           <Toaster
@@ -31,7 +46,7 @@ function App() {
             }}
           />
         </AuthProvider>
-      </QueryClientProvider>
+      </PersistQueryClientProvider>
     </ThemeProvider>
   );
 }
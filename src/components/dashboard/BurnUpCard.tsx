@@ -0,0 +1,199 @@
+import { useMemo, useState } from "react";
+import {
+    LineChart,
+    Line,
+    XAxis,
+    YAxis,
+    ResponsiveContainer,
+    Tooltip,
+    Legend,
+} from "recharts";
+import { format, parseISO } from "date-fns";
+import { LineChart as LineChartIcon } from "lucide-react";
+import { useProgressSnapshots } from "@/hooks/useGoals";
+import {
+    Card,
+    CardContent,
+    CardHeader,
+    CardTitle,
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+    Skeleton,
+} from "@/components/ui";
+import {
+    buildBurnUpSeries,
+    buildComparisonSeries,
+    getHistoryDateKeys,
+} from "@/lib/progressHistory";
+import type { Goal } from "@/types";
+
+const RANGE_OPTIONS = [
+    { days: 7, label: "Last 7 days" },
+    { days: 30, label: "Last 30 days" },
+    { days: 90, label: "Last 90 days" },
+];
+
+const COMPARE_VIEW = "compare";
+const ALL_GOALS_VIEW = "all";
+
+const COMPARISON_COLORS = ["#8b5cf6", "#06b6d4", "#ec4899", "#22c55e", "#f59e0b", "#ef4444"];
+
+const TOOLTIP_STYLE = {
+    contentStyle: {
+        backgroundColor: "var(--color-card)",
+        border: "1px solid var(--color-border)",
+        borderRadius: "8px",
+        color: "var(--color-card-foreground)",
+    },
+    itemStyle: { color: "var(--color-card-foreground)" },
+};
+
+type BurnUpCardProps = {
+    goals: Goal[];
+};
+
+// Burn-up of scope vs completed todos from the goals' daily progress snapshots, for all
+// goals combined or a single goal, plus a mode comparing goal percentages side by side
+export function BurnUpCard({ goals }: BurnUpCardProps) {
+    const [rangeDays, setRangeDays] = useState(30);
+    const [view, setView] = useState(ALL_GOALS_VIEW);
+
+    const dateKeys = useMemo(() => getHistoryDateKeys(rangeDays, new Date()), [rangeDays]);
+    const goalIds = useMemo(() => goals.map((goal) => goal.id), [goals]);
+    const { data: snapshots, isLoading } = useProgressSnapshots(goalIds, dateKeys[0]);
+
+    // Comparison is limited to as many goals as there are distinct line colors
+    const comparedGoals = useMemo(() => goals.slice(0, COMPARISON_COLORS.length), [goals]);
+    const selectedGoalIds = useMemo(
+        () =>
+            view === ALL_GOALS_VIEW || view === COMPARE_VIEW
+                ? goalIds
+                : goalIds.filter((goalId) => goalId === view),
+        [goalIds, view]
+    );
+
+    const chartData = useMemo(() => {
+        if (!snapshots) return [];
+        const series =
+            view === COMPARE_VIEW
+                ? buildComparisonSeries(
+                    snapshots,
+                    comparedGoals.map((goal) => goal.id),
+                    dateKeys
+                )
+                : buildBurnUpSeries(snapshots, selectedGoalIds, dateKeys);
+        return series.map((point) => ({ ...point, label: format(parseISO(point.date), "MMM d") }));
+    }, [snapshots, view, comparedGoals, selectedGoalIds, dateKeys]);
+
+    const hasHistory = !!snapshots && snapshots.length > 0;
+
+    return (
+        <Card className="lg:col-span-2 xl:col-span-3">
+            <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-3">
+                <CardTitle>Progress History</CardTitle>
+                <div className="flex flex-wrap items-center gap-2">
+                    <Select value={view} onValueChange={setView}>
+                        <SelectTrigger className="h-8 w-48 text-xs">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ALL_GOALS_VIEW}>All goals (burn-up)</SelectItem>
+                            <SelectItem value={COMPARE_VIEW}>Compare goals (%)</SelectItem>
+                            {goals.map((goal) => (
+                                <SelectItem key={goal.id} value={goal.id}>
+                                    {goal.title}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Select
+                        value={String(rangeDays)}
+                        onValueChange={(value) => setRangeDays(Number(value))}
+                    >
+                        <SelectTrigger className="h-8 w-36 text-xs">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {RANGE_OPTIONS.map((option) => (
+                                <SelectItem key={option.days} value={String(option.days)}>
+                                    {option.label}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            </CardHeader>
+            <CardContent>
+                {isLoading ? (
+                    <Skeleton className="h-64" />
+                ) : hasHistory ? (
+                    <div className="h-64">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={chartData}>
+                                <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
+                                {view === COMPARE_VIEW ? (
+                                    <YAxis domain={[0, 100]} width={36} tick={{ fontSize: 12 }} />
+                                ) : (
+                                    <YAxis allowDecimals={false} width={36} tick={{ fontSize: 12 }} />
+                                )}
+                                <Tooltip
+                                    {...TOOLTIP_STYLE}
+                                    formatter={(value, name) =>
+                                        view === COMPARE_VIEW ? [`${value}%`, name] : [value, name]
+                                    }
+                                />
+                                <Legend />
+                                {view === COMPARE_VIEW ? (
+                                    comparedGoals.map((goal, index) => (
+                                        <Line
+                                            key={goal.id}
+                                            type="monotone"
+                                            dataKey={goal.id}
+                                            name={goal.title}
+                                            stroke={COMPARISON_COLORS[index]}
+                                            strokeWidth={2}
+                                            dot={false}
+                                            connectNulls
+                                        />
+                                    ))
+                                ) : (
+                                    [
+                                        <Line
+                                            key="total"
+                                            type="stepAfter"
+                                            dataKey="total"
+                                            name="Scope"
+                                            stroke="#94a3b8"
+                                            strokeDasharray="4 4"
+                                            strokeWidth={2}
+                                            dot={false}
+                                        />,
+                                        <Line
+                                            key="done"
+                                            type="stepAfter"
+                                            dataKey="done"
+                                            name="Completed"
+                                            stroke="#22c55e"
+                                            strokeWidth={2}
+                                            dot={false}
+                                        />,
+                                    ]
+                                )}
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </div>
+                ) : (
+                    <div className="h-64 flex items-center justify-center text-muted-foreground">
+                        <div className="text-center">
+                            <LineChartIcon className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                            <p>Progress history builds up as you work on your goals' todos.</p>
+                        </div>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
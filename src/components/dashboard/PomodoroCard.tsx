@@ -0,0 +1,65 @@
+import { Bar, BarChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { format, parseISO } from "date-fns";
+import { Link } from "react-router-dom";
+import { Hourglass } from "lucide-react";
+import { Button, Card, CardContent, CardHeader, CardTitle, Skeleton } from "@/components/ui";
+import { usePomodoroCounts } from "@/hooks/usePomodoro";
+
+const RANGE_DAYS = 7;
+
+const TOOLTIP_STYLE = {
+    contentStyle: {
+        backgroundColor: "var(--color-card)",
+        border: "1px solid var(--color-border)",
+        borderRadius: "8px",
+        color: "var(--color-card-foreground)",
+    },
+    itemStyle: { color: "var(--color-card-foreground)" },
+};
+
+// Finished focus mode work intervals per day over the last week
+export function PomodoroCard() {
+    const { data: counts, isLoading } = usePomodoroCounts(RANGE_DAYS);
+    const chartData = counts.map((day) => ({ ...day, label: format(parseISO(day.date), "EEE") }));
+    const today = counts[counts.length - 1]?.count ?? 0;
+    const total = counts.reduce((sum, day) => sum + day.count, 0);
+
+    return (
+        <Card className="lg:col-span-2 xl:col-span-3">
+            <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-3">
+                <div>
+                    <CardTitle>Pomodoros</CardTitle>
+                    <p className="text-sm text-muted-foreground mt-1">
+                        {today} today · {total} in the last {RANGE_DAYS} days
+                    </p>
+                </div>
+                <Button variant="outline" size="sm" asChild>
+                    <Link to="/focus">
+                        <Hourglass className="w-4 h-4" />
+                        Focus mode
+                    </Link>
+                </Button>
+            </CardHeader>
+            <CardContent>
+                {isLoading ? (
+                    <Skeleton className="h-48" />
+                ) : (
+                    <div className="h-48">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={chartData}>
+                                <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                                <YAxis allowDecimals={false} width={36} tick={{ fontSize: 12 }} />
+                                <Tooltip
+                                    {...TOOLTIP_STYLE}
+                                    cursor={{ fill: "var(--color-muted)" }}
+                                    formatter={(value) => [value, "Pomodoros"]}
+                                />
+                                <Bar dataKey="count" fill="#8b5cf6" radius={[6, 6, 0, 0]} />
+                            </BarChart>
+                        </ResponsiveContainer>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import {
+    Button,
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    Label,
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui";
+import { useDeleteGoal } from "@/hooks/useGoals";
+import { cn } from "@/lib/utils";
+import type { Goal, GoalTodoAction } from "@/types";
+
+const TODO_ACTIONS: { value: GoalTodoAction["type"]; label: string; description: string }[] = [
+    {
+        value: "unlink",
+        label: "Keep todos",
+        description: "The todos stay in your list without a goal.",
+    },
+    {
+        value: "move",
+        label: "Move todos",
+        description: "Link the todos to another goal instead.",
+    },
+    {
+        value: "delete",
+        label: "Delete todos",
+        description: "Remove the todos together with the goal.",
+    },
+];
+
+export function DeleteGoalDialog({
+    goal,
+    goals,
+    linkedTodoCount,
+    open,
+    onOpenChange,
+}: {
+    goal: Goal;
+    goals: Goal[];
+    linkedTodoCount: number;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}) {
+    const deleteGoal = useDeleteGoal();
+    const [actionType, setActionType] = useState<GoalTodoAction["type"]>("unlink");
+    const [targetGoalId, setTargetGoalId] = useState("");
+
+    const targetGoals = goals.filter((item) => item.id !== goal.id);
+    const isMoveIncomplete = actionType === "move" && !targetGoalId;
+
+    const handleDelete = () => {
+        if (isMoveIncomplete) return;
+        const todoAction: GoalTodoAction =
+            actionType === "move" ? { type: "move", targetGoalId } : { type: actionType };
+        deleteGoal.mutate({ goalId: goal.id, todoAction });
+        onOpenChange(false);
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Trash2 className="w-5 h-5 text-destructive" />
+                        Delete "{goal.title}"?
+                    </DialogTitle>
+                    <DialogDescription>
+                        {linkedTodoCount > 0
+                            ? `This goal has ${linkedTodoCount} linked todo${linkedTodoCount === 1 ? "" : "s"}. Choose what happens to them.`
+                            : "You can undo this for a few seconds after deleting."}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {linkedTodoCount > 0 && (
+                    <div className="space-y-3">
+                        <div className="grid gap-2">
+                            {TODO_ACTIONS.filter(
+                                (action) => action.value !== "move" || targetGoals.length > 0
+                            ).map((action) => (
+                                <button
+                                    key={action.value}
+                                    type="button"
+                                    onClick={() => setActionType(action.value)}
+                                    className={cn(
+                                        "rounded-lg border p-3 text-left transition-colors",
+                                        actionType === action.value
+                                            ? "border-primary bg-primary/5"
+                                            : "border-border hover:bg-muted"
+                                    )}
+                                >
+                                    <p className="text-sm font-medium text-foreground">{action.label}</p>
+                                    <p className="text-xs text-muted-foreground">{action.description}</p>
+                                </button>
+                            ))}
+                        </div>
+
+                        {actionType === "move" && (
+                            <div className="space-y-2">
+                                <Label>Move todos to</Label>
+                                <Select value={targetGoalId} onValueChange={setTargetGoalId}>
+                                    <SelectTrigger>
+                                        <SelectValue placeholder="Select a goal" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {targetGoals.map((target) => (
+                                            <SelectItem key={target.id} value={target.id}>
+                                                {target.title}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+                        Cancel
+                    </Button>
+                    <Button
+                        type="button"
+                        variant="destructive"
+                        onClick={handleDelete}
+                        disabled={isMoveIncomplete}
+                    >
+                        Delete goal
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
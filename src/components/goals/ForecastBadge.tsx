@@ -0,0 +1,24 @@
+import { cn } from "@/lib/utils";
+import type { ForecastStatus } from "@/lib/goalForecast";
+
+const FORECAST_STYLES: Record<ForecastStatus, { label: string; className: string }> = {
+    on_track: { label: "On track", className: "bg-success/10 text-success" },
+    at_risk: { label: "At risk", className: "bg-amber-500/10 text-amber-600 dark:text-amber-400" },
+    behind: { label: "Behind", className: "bg-destructive/10 text-destructive" },
+};
+
+export function ForecastBadge({
+    status,
+    className,
+}: {
+    status: ForecastStatus | null;
+    className?: string;
+}) {
+    if (!status) return null;
+    const style = FORECAST_STYLES[status];
+    return (
+        <span className={cn("px-2 py-1 text-xs rounded-full", style.className, className)}>
+            {style.label}
+        </span>
+    );
+}
@@ -0,0 +1,340 @@
+import { useMemo, useState } from "react";
+import { Settings2 } from "lucide-react";
+import {
+    Button,
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    Input,
+    Label,
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui";
+import { useGoals, useUpdateGoal } from "@/hooks/useGoals";
+import { useActivities } from "@/hooks/useDailyTracker";
+import { useGoalTodos } from "@/hooks/useTodos";
+import { getDescendantIds } from "@/lib/goalTree";
+import { getSelectableActivities } from "@/lib/activities";
+import { TARGET_PERIOD_LABELS, formatTargetMinutes } from "@/lib/activityTargets";
+import { cn } from "@/lib/utils";
+import { MilestoneEditor } from "./MilestoneEditor";
+import type { Goal, GoalProgressMode, GoalRollupMode, GoalUpdates } from "@/types";
+
+const NO_PARENT = "none";
+
+const PROGRESS_MODES: { value: GoalProgressMode; label: string; description: string }[] = [
+    {
+        value: "todos",
+        label: "Computed from todos",
+        description: "Weighted by each linked todo's effort points and checklist progress.",
+    },
+    {
+        value: "manual",
+        label: "Manual slider",
+        description: "Set the percentage yourself from the goal card.",
+    },
+    {
+        value: "time",
+        label: "Tracked time vs target",
+        description: "Minutes logged on an activity in the Daily Tracker against a target.",
+    },
+    {
+        value: "activityTarget",
+        label: "Activity time target",
+        description:
+            "How far an activity is toward its daily, weekly or monthly time target, resetting each period.",
+    },
+];
+
+const ROLLUP_MODES: { value: GoalRollupMode; label: string; description: string }[] = [
+    {
+        value: "todos",
+        label: "All todos directly",
+        description: "Every todo of this goal and its sub-goals counts by its effort points.",
+    },
+    {
+        value: "weighted",
+        label: "Weighted sub-goal average",
+        description: "Averages the sub-goals' percentages using each sub-goal's weight.",
+    },
+];
+
+export function GoalSettingsDialog({
+    goal,
+    currentPercent,
+    open,
+    onOpenChange,
+}: {
+    goal: Goal;
+    currentPercent: number;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}) {
+    const { data: activities } = useActivities();
+    const { data: goalTodos } = useGoalTodos(goal.id);
+    const { data: goals } = useGoals();
+    const updateGoal = useUpdateGoal();
+
+    const [title, setTitle] = useState(goal.title);
+    const [progressMode, setProgressMode] = useState<GoalProgressMode>(
+        goal.progressMode ?? "todos"
+    );
+    const [trackedActivityId, setTrackedActivityId] = useState(goal.trackedActivityId ?? "");
+    const [targetHours, setTargetHours] = useState(
+        goal.targetMinutes ? String(goal.targetMinutes / 60) : ""
+    );
+    const [targetDate, setTargetDate] = useState(goal.targetDate ?? "");
+    const [milestones, setMilestones] = useState(goal.milestones ?? []);
+    const [parentGoalId, setParentGoalId] = useState(goal.parentGoalId ?? NO_PARENT);
+    const [rollupMode, setRollupMode] = useState<GoalRollupMode>(goal.rollupMode ?? "todos");
+    const [rollupWeight, setRollupWeight] = useState(String(goal.rollupWeight ?? 1));
+
+    // A goal cannot move under itself or one of its own sub-goals
+    const parentOptions = useMemo(() => {
+        if (!goals) return [];
+        const excludedIds = new Set([goal.id, ...getDescendantIds(goals, goal.id)]);
+        return goals.filter((item) => !excludedIds.has(item.id));
+    }, [goals, goal.id]);
+    const hasSubGoals = !!goals?.some((item) => item.parentGoalId === goal.id);
+
+    const targetMinutes = Math.round(Number(targetHours) * 60);
+    const isTimeModeIncomplete =
+        (progressMode === "time" &&
+            (!trackedActivityId || !Number.isFinite(targetMinutes) || targetMinutes <= 0)) ||
+        (progressMode === "activityTarget" && !trackedActivityId);
+    const tracksActivity = progressMode === "time" || progressMode === "activityTarget";
+
+    // Only activities with a target can drive a goal in "activityTarget" mode
+    const trackableActivities = getSelectableActivities(activities ?? [], trackedActivityId).filter(
+        (activity) => progressMode !== "activityTarget" || activity.target || activity.id === trackedActivityId
+    );
+
+    const parsedRollupWeight = Number(rollupWeight);
+    const isRollupWeightInvalid =
+        parentGoalId !== NO_PARENT && (!Number.isFinite(parsedRollupWeight) || parsedRollupWeight <= 0);
+
+    const handleSave = () => {
+        if (!title.trim() || isTimeModeIncomplete || isRollupWeightInvalid) return;
+
+        const updates: GoalUpdates = {
+            title: title.trim(),
+            progressMode,
+            trackedActivityId: tracksActivity ? trackedActivityId : undefined,
+            targetMinutes: progressMode === "time" ? targetMinutes : undefined,
+            targetDate: targetDate || undefined,
+            milestones: milestones
+                .filter((milestone) => milestone.title.trim())
+                .map((milestone) => ({ ...milestone, title: milestone.title.trim() })),
+            parentGoalId: parentGoalId === NO_PARENT ? undefined : parentGoalId,
+            rollupMode: hasSubGoals && progressMode === "todos" ? rollupMode : goal.rollupMode,
+            rollupWeight:
+                parentGoalId === NO_PARENT || parsedRollupWeight === 1 ? undefined : parsedRollupWeight,
+        };
+
+        // Start the slider where the goal currently is instead of jumping to a stale value
+        if (progressMode === "manual" && goal.progressMode !== "manual") {
+            updates.currentPercent = currentPercent;
+        }
+
+        updateGoal.mutate({ goalId: goal.id, updates });
+        onOpenChange(false);
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Settings2 className="w-5 h-5 text-primary" />
+                        Goal settings
+                    </DialogTitle>
+                    <DialogDescription>Choose how this goal's progress is measured</DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="goal-title">Title</Label>
+                        <Input
+                            id="goal-title"
+                            value={title}
+                            onChange={(event) => setTitle(event.target.value)}
+                            maxLength={100}
+                        />
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label>Progress mode</Label>
+                        <Select
+                            value={progressMode}
+                            onValueChange={(value) => setProgressMode(value as GoalProgressMode)}
+                        >
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {PROGRESS_MODES.map((mode) => (
+                                    <SelectItem key={mode.value} value={mode.value}>
+                                        {mode.label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                            {PROGRESS_MODES.find((mode) => mode.value === progressMode)?.description}
+                        </p>
+                    </div>
+
+                    <div className="grid gap-4 sm:grid-cols-[1fr_140px]">
+                        <div className="space-y-2">
+                            <Label>Parent goal</Label>
+                            <Select value={parentGoalId} onValueChange={setParentGoalId}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={NO_PARENT}>None (top-level goal)</SelectItem>
+                                    {parentOptions.map((option) => (
+                                        <SelectItem key={option.id} value={option.id}>
+                                            {option.title}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        {parentGoalId !== NO_PARENT && (
+                            <div className="space-y-2">
+                                <Label htmlFor="goal-rollup-weight">Weight in parent</Label>
+                                <Input
+                                    id="goal-rollup-weight"
+                                    type="number"
+                                    min={0.5}
+                                    step={0.5}
+                                    value={rollupWeight}
+                                    onChange={(event) => setRollupWeight(event.target.value)}
+                                />
+                            </div>
+                        )}
+                    </div>
+
+                    {hasSubGoals && progressMode === "todos" && (
+                        <div className="space-y-2">
+                            <Label>Sub-goal rollup</Label>
+                            <Select
+                                value={rollupMode}
+                                onValueChange={(value) => setRollupMode(value as GoalRollupMode)}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {ROLLUP_MODES.map((mode) => (
+                                        <SelectItem key={mode.value} value={mode.value}>
+                                            {mode.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <p className="text-xs text-muted-foreground">
+                                {ROLLUP_MODES.find((mode) => mode.value === rollupMode)?.description}
+                            </p>
+                        </div>
+                    )}
+
+                    <div className="space-y-2">
+                        <Label htmlFor="goal-target-date">Target date</Label>
+                        <Input
+                            id="goal-target-date"
+                            type="date"
+                            value={targetDate}
+                            onChange={(event) => setTargetDate(event.target.value)}
+                            className="w-48"
+                        />
+                        <p className="text-xs text-muted-foreground">
+                            Used to forecast whether the goal is on track.
+                        </p>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label>Milestones</Label>
+                        <MilestoneEditor
+                            milestones={milestones}
+                            goalTodos={goalTodos ?? []}
+                            onChange={setMilestones}
+                        />
+                    </div>
+
+                    {tracksActivity && (
+                        <div
+                            className={cn(
+                                "grid gap-4",
+                                progressMode === "time" && "sm:grid-cols-[1fr_140px]"
+                            )}
+                        >
+                            <div className="space-y-2">
+                                <Label>Activity</Label>
+                                <Select value={trackedActivityId} onValueChange={setTrackedActivityId}>
+                                    <SelectTrigger>
+                                        <SelectValue placeholder="Select an activity" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {trackableActivities.map((activity) => (
+                                            <SelectItem key={activity.id} value={activity.id}>
+                                                {activity.name}
+                                                {progressMode === "activityTarget" &&
+                                                    activity.target &&
+                                                    ` · ${formatTargetMinutes(activity.target.minutes)} ${TARGET_PERIOD_LABELS[activity.target.period]}`}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                {progressMode === "activityTarget" && (
+                                    <p className="text-xs text-muted-foreground">
+                                        Set time targets under Daily Tracker → Manage activities.
+                                    </p>
+                                )}
+                            </div>
+                            {progressMode === "time" && (
+                                <div className="space-y-2">
+                                    <Label htmlFor="goal-target-hours">Target (hours)</Label>
+                                    <Input
+                                        id="goal-target-hours"
+                                        type="number"
+                                        min={0.5}
+                                        step={0.5}
+                                        value={targetHours}
+                                        onChange={(event) => setTargetHours(event.target.value)}
+                                        placeholder="e.g. 20"
+                                    />
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+
+                <DialogFooter>
+                    <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+                        Cancel
+                    </Button>
+                    <Button
+                        type="button"
+                        onClick={handleSave}
+                        disabled={
+                            !title.trim() ||
+                            isTimeModeIncomplete ||
+                            isRollupWeightInvalid ||
+                            updateGoal.isPending
+                        }
+                    >
+                        Save
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { Flag, Plus, X } from "lucide-react";
+import { Button, Input } from "@/components/ui";
+import { cn } from "@/lib/utils";
+import type { Milestone, Todo } from "@/types";
+
+export function MilestoneEditor({
+    milestones,
+    goalTodos,
+    onChange,
+}: {
+    milestones: Milestone[];
+    goalTodos: Todo[];
+    onChange: (milestones: Milestone[]) => void;
+}) {
+    const [newTitle, setNewTitle] = useState("");
+    const [newDueDate, setNewDueDate] = useState("");
+
+    const handleAdd = () => {
+        if (!newTitle.trim() || !newDueDate) return;
+        onChange([
+            ...milestones,
+            { id: crypto.randomUUID(), title: newTitle.trim(), dueDate: newDueDate, todoIds: [] },
+        ]);
+        setNewTitle("");
+        setNewDueDate("");
+    };
+
+    const updateMilestone = (milestoneId: string, updates: Partial<Milestone>) => {
+        onChange(
+            milestones.map((milestone) =>
+                milestone.id === milestoneId ? { ...milestone, ...updates } : milestone
+            )
+        );
+    };
+
+    const toggleTodo = (milestone: Milestone, todoId: string) => {
+        updateMilestone(milestone.id, {
+            todoIds: milestone.todoIds.includes(todoId)
+                ? milestone.todoIds.filter((id) => id !== todoId)
+                : [...milestone.todoIds, todoId],
+        });
+    };
+
+    return (
+        <div className="space-y-3">
+            {[...milestones]
+                .sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+                .map((milestone) => (
+                    <div key={milestone.id} className="rounded-lg border border-border p-3 space-y-2">
+                        <div className="flex items-center gap-2">
+                            <Flag className="w-4 h-4 text-primary shrink-0" />
+                            <Input
+                                value={milestone.title}
+                                onChange={(event) =>
+                                    updateMilestone(milestone.id, { title: event.target.value })
+                                }
+                                className="h-9"
+                                aria-label="Milestone title"
+                            />
+                            <Input
+                                type="date"
+                                value={milestone.dueDate}
+                                onChange={(event) =>
+                                    event.target.value &&
+                                    updateMilestone(milestone.id, { dueDate: event.target.value })
+                                }
+                                className="h-9 w-40"
+                                aria-label="Milestone date"
+                            />
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                className="h-9 w-9 shrink-0"
+                                onClick={() =>
+                                    onChange(milestones.filter((item) => item.id !== milestone.id))
+                                }
+                                aria-label="Remove milestone"
+                            >
+                                <X className="h-4 w-4" />
+                            </Button>
+                        </div>
+                        {goalTodos.length > 0 ? (
+                            <div className="flex flex-wrap gap-1.5">
+                                {goalTodos.map((todo) => {
+                                    const isLinked = milestone.todoIds.includes(todo.id);
+                                    return (
+                                        <button
+                                            key={todo.id}
+                                            type="button"
+                                            onClick={() => toggleTodo(milestone, todo.id)}
+                                            aria-pressed={isLinked}
+                                            className={cn(
+                                                "rounded-full border px-2 py-0.5 text-xs transition-colors",
+                                                isLinked
+                                                    ? "border-primary bg-primary/10 text-primary"
+                                                    : "border-border text-muted-foreground hover:bg-muted"
+                                            )}
+                                        >
+                                            {todo.title}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        ) : (
+                            <p className="text-xs text-muted-foreground">
+                                Link todos to this goal to attach them to milestones.
+                            </p>
+                        )}
+                    </div>
+                ))}
+
+            <div className="flex gap-2">
+                <Input
+                    value={newTitle}
+                    onChange={(event) => setNewTitle(event.target.value)}
+                    placeholder="New milestone..."
+                    className="h-9"
+                />
+                <Input
+                    type="date"
+                    value={newDueDate}
+                    onChange={(event) => setNewDueDate(event.target.value)}
+                    className="h-9 w-40"
+                    aria-label="New milestone date"
+                />
+                <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    className="h-9 w-9 shrink-0"
+                    onClick={handleAdd}
+                    disabled={!newTitle.trim() || !newDueDate}
+                    aria-label="Add milestone"
+                >
+                    <Plus className="h-4 w-4" />
+                </Button>
+            </div>
+        </div>
+    );
+}
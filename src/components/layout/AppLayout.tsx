@@ -1,12 +1,27 @@
 import { Outlet } from "react-router-dom";
 import { Sidebar } from "./Sidebar";
+import { LiveIndicator } from "./LiveIndicator";
+import { useDueReminders } from "@/hooks/useDueReminders";
+import { useTrashPurge } from "@/hooks/useTrash";
+import { useAutoArchive } from "@/hooks/useArchive";
+import { useLiveSync } from "@/hooks/useLiveSync";
+import { useSyncConflicts } from "@/hooks/useOfflineQueue";
 
 export function AppLayout() {
+    useDueReminders();
+    useTrashPurge();
+    useAutoArchive();
+    useSyncConflicts();
+    const liveStatus = useLiveSync();
+
     return (
         <div className="flex h-screen bg-background">
             <Sidebar />
             <main className="flex-1 overflow-auto">
                 <div className="container mx-auto max-w-6xl p-6 lg:p-8">
+                    <div className="mb-4 flex justify-end">
+                        <LiveIndicator status={liveStatus} />
+                    </div>
                     <Outlet />
                 </div>
             </main>
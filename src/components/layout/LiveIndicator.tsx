@@ -0,0 +1,53 @@
+import { useState } from "react";
+import { useIsOnline, useQueuedChangeCount } from "@/hooks/useOfflineQueue";
+import { Button } from "@/components/ui";
+import { cn } from "@/lib/utils";
+import { isUsingEmulator } from "@/lib/firebase";
+import { isNetworkSimulatedOff, setNetworkSimulatedOff } from "@/lib/offlineQueue";
+import type { LiveStatus } from "@/lib/liveSync";
+
+export function LiveIndicator({ status }: { status: LiveStatus }) {
+    const isOnline = useIsOnline();
+    const queuedCount = useQueuedChangeCount();
+    const [isSimulatedOff, setIsSimulatedOff] = useState(isNetworkSimulatedOff);
+    const isLive = isOnline && status === "live";
+
+    const label = !isOnline ? "Offline" : isLive ? "Live" : "Reconnecting...";
+    const queuedLabel =
+        queuedCount > 0 ? ` · ${queuedCount} change${queuedCount === 1 ? "" : "s"} waiting to sync` : "";
+
+    const toggleNetwork = () => {
+        const next = !isSimulatedOff;
+        setIsSimulatedOff(next);
+        void setNetworkSimulatedOff(next);
+    };
+
+    return (
+        <div className="flex items-center gap-2">
+            {/* Only offered against the emulator, to try offline mode without unplugging */}
+            {isUsingEmulator && (
+                <Button type="button" variant="ghost" size="sm" onClick={toggleNetwork}>
+                    {isSimulatedOff ? "Reconnect network" : "Simulate offline"}
+                </Button>
+            )}
+            <div
+                role="status"
+                className="inline-flex items-center gap-2 rounded-full border border-border bg-card px-3 py-1 text-xs text-muted-foreground shadow-sm"
+                title={
+                    isLive
+                        ? "Changes from your other tabs and devices appear instantly"
+                        : "Changes are saved on this device and sync once the connection is back"
+                }
+            >
+                <span
+                    className={cn(
+                        "h-2 w-2 rounded-full",
+                        isLive ? "bg-success" : isOnline ? "bg-warning animate-pulse" : "bg-muted-foreground"
+                    )}
+                />
+                {label}
+                {queuedLabel}
+            </div>
+        </div>
+    );
+}
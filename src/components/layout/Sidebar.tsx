@@ -10,19 +10,28 @@ import {
     Sun,
     LogOut,
     Settings,
+    ListFilter,
+    Trash2,
+    Archive,
+    Hourglass,
 } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
+import { useSmartLists } from "@/hooks/useSmartLists";
 import { useTheme } from "@/components/ThemeProvider";
 import { Button } from "@/components/ui";
 import { cn } from "@/lib/utils";
 import { useState } from "react";
 import { ProfileSettings } from "@/components/settings/ProfileSettings";
+import { SidebarTimer } from "./SidebarTimer";
 
 const navItems = [
     { to: "/dashboard", icon: LayoutDashboard, label: "Dashboard" },
     { to: "/goals", icon: Target, label: "Goals" },
     { to: "/todos", icon: CheckSquare, label: "Todos" },
     { to: "/daily", icon: CalendarDays, label: "Daily Tracker" },
+    { to: "/focus", icon: Hourglass, label: "Focus" },
+    { to: "/archive", icon: Archive, label: "Archive" },
+    { to: "/trash", icon: Trash2, label: "Trash" },
 ];
 
 function NavContent({ onClose }: { onClose?: () => void }) {
@@ -30,6 +39,8 @@ function NavContent({ onClose }: { onClose?: () => void }) {
     const { theme, setTheme } = useTheme();
     const location = useLocation();
     const [isProfileOpen, setIsProfileOpen] = useState(false);
+    const { data: smartLists } = useSmartLists();
+    const activeListId = new URLSearchParams(location.search).get("list");
 
     return (
         <div className="flex flex-col h-full">
@@ -50,8 +61,11 @@ function NavContent({ onClose }: { onClose?: () => void }) {
 
             {/* Navigation */}
             <nav className="flex-1 p-4 space-y-2">
+                <SidebarTimer onClose={onClose} />
+
                 {navItems.map(({ to, icon: Icon, label }) => {
-                    const isActive = location.pathname === to;
+                    const isActive =
+                        location.pathname === to && !(to === "/todos" && activeListId);
                     return (
                         <NavLink
                             key={to}
@@ -72,6 +86,34 @@ function NavContent({ onClose }: { onClose?: () => void }) {
                         </NavLink>
                     );
                 })}
+
+                {/* Smart lists */}
+                {smartLists && smartLists.length > 0 && (
+                    <div className="pt-4 space-y-1">
+                        <p className="px-4 pb-1 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                            Smart lists
+                        </p>
+                        {smartLists.map((list) => {
+                            const isActive = location.pathname === "/todos" && activeListId === list.id;
+                            return (
+                                <NavLink
+                                    key={list.id}
+                                    to={`/todos?list=${list.id}`}
+                                    onClick={onClose}
+                                    className={cn(
+                                        "flex items-center gap-3 px-4 py-2 rounded-xl text-sm transition-all duration-200",
+                                        isActive
+                                            ? "bg-primary/10 text-primary"
+                                            : "text-muted-foreground hover:bg-muted hover:text-foreground"
+                                    )}
+                                >
+                                    <ListFilter className="w-4 h-4" />
+                                    <span className="truncate">{list.name}</span>
+                                </NavLink>
+                            );
+                        })}
+                    </div>
+                )}
             </nav>
 
             {/* User & Settings */}
@@ -0,0 +1,64 @@
+import { NavLink } from "react-router-dom";
+import { Pause, Play, Square } from "lucide-react";
+import { Button } from "@/components/ui";
+import { useActivities } from "@/hooks/useDailyTracker";
+import { useActivityTimer, useSaveTimer, useStopTimer, useTimerElapsed } from "@/hooks/useTimer";
+import { getActivityColor } from "@/lib/activities";
+import { formatElapsed, pauseTimer, resumeTimer } from "@/lib/timer";
+
+// The running or paused Daily Tracker timer, so it stays in reach on every page
+export function SidebarTimer({ onClose }: { onClose?: () => void }) {
+    const { data: timer } = useActivityTimer();
+    const { data: activities } = useActivities();
+    const saveTimer = useSaveTimer();
+    const stopTimer = useStopTimer();
+    const elapsed = useTimerElapsed(timer);
+
+    if (!timer) return null;
+
+    const activity = activities?.find((item) => item.id === timer.activityId);
+    const isRunning = !!timer.runningSince;
+
+    return (
+        <div className="flex items-center gap-2 rounded-xl border border-border px-3 py-2">
+            <NavLink to="/daily" onClick={onClose} className="flex min-w-0 flex-1 items-center gap-2">
+                <span
+                    className="h-2.5 w-2.5 shrink-0 rounded-full"
+                    style={{ backgroundColor: getActivityColor(activity ?? { id: timer.activityId }) }}
+                />
+                <span className="min-w-0">
+                    <span className="block truncate text-sm font-medium text-foreground">
+                        {timer.activityName}
+                    </span>
+                    <span className="block text-xs tabular-nums text-muted-foreground">
+                        {formatElapsed(elapsed)}
+                        {!isRunning && " · paused"}
+                    </span>
+                </span>
+            </NavLink>
+            <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() =>
+                    saveTimer.mutate(
+                        isRunning ? pauseTimer(timer, new Date()) : resumeTimer(timer, new Date())
+                    )
+                }
+                aria-label={isRunning ? "Pause timer" : "Resume timer"}
+            >
+                {isRunning ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+            </Button>
+            <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => stopTimer.stop(timer)}
+                disabled={stopTimer.isPending}
+                aria-label="Stop timer and log time"
+            >
+                <Square className="w-4 h-4" />
+            </Button>
+        </div>
+    );
+}
@@ -0,0 +1,160 @@
+import { useState, type ChangeEvent } from "react";
+import { Download, Upload } from "lucide-react";
+import {
+    Button,
+    Label,
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui";
+import { useExportBackup, useImportBackup, usePlanImport } from "@/hooks/useBackup";
+import {
+    BACKUP_COLLECTIONS,
+    BACKUP_LABELS,
+    parseBackup,
+    type BackupData,
+    type ImportMode,
+} from "@/lib/backup";
+
+export function BackupSettings() {
+    const exportBackup = useExportBackup();
+    const planImport = usePlanImport();
+    const importBackup = useImportBackup();
+    const [backup, setBackup] = useState<BackupData | null>(null);
+    const [fileError, setFileError] = useState<string | null>(null);
+    const [mode, setMode] = useState<ImportMode>("merge");
+    const plan = planImport.data;
+    const hasChanges = !!plan && (plan.writes.length > 0 || plan.deletes.length > 0);
+
+    const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = "";
+        if (!file) return;
+
+        planImport.reset();
+        try {
+            const parsed = parseBackup(await file.text());
+            setBackup(parsed);
+            setFileError(null);
+            planImport.mutate({ backup: parsed, mode });
+        } catch (err) {
+            setBackup(null);
+            setFileError((err as Error).message);
+        }
+    };
+
+    const handleModeChange = (value: ImportMode) => {
+        setMode(value);
+        if (backup) planImport.mutate({ backup, mode: value });
+    };
+
+    const handleImport = () => {
+        if (!plan) return;
+        importBackup.mutate(plan, {
+            onSuccess: () => {
+                setBackup(null);
+                planImport.reset();
+            },
+        });
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="space-y-3">
+                <Label>Export</Label>
+                <p className="text-sm text-muted-foreground">
+                    Download your goals, todos, activities and daily logs, trash included, as one JSON
+                    file. Archived items and goal history are not included.
+                </p>
+                <Button
+                    variant="outline"
+                    onClick={() => exportBackup.mutate()}
+                    disabled={exportBackup.isPending}
+                >
+                    <Download className="w-4 h-4" />
+                    {exportBackup.isPending ? "Exporting..." : "Export backup"}
+                </Button>
+            </div>
+
+            <div className="space-y-3">
+                <Label htmlFor="backup-file">Import</Label>
+                <input
+                    id="backup-file"
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={handleFileChange}
+                    className="block w-full text-sm text-muted-foreground file:mr-3 file:rounded-lg file:border-0 file:bg-muted file:px-3 file:py-2 file:text-sm file:font-medium file:text-foreground"
+                />
+                {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+
+                <Select value={mode} onValueChange={(value) => handleModeChange(value as ImportMode)}>
+                    <SelectTrigger className="w-56" aria-label="Import mode">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="merge">Merge into my data</SelectItem>
+                        <SelectItem value="replace">Replace all my data</SelectItem>
+                    </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                    {mode === "merge"
+                        ? "Items that are already here are overwritten with the backup's version; everything else is added."
+                        : "Everything here, trash and archive included, is deleted permanently and replaced with the backup."}
+                </p>
+
+                {planImport.isPending && (
+                    <p className="text-sm text-muted-foreground">Comparing with your data...</p>
+                )}
+                {plan && (
+                    <div className="rounded-lg border border-border">
+                        <table className="w-full text-sm">
+                            <thead className="text-muted-foreground">
+                                <tr>
+                                    <th className="px-3 py-2 text-left font-medium">Preview</th>
+                                    <th className="px-3 py-2 text-right font-medium">Added</th>
+                                    <th className="px-3 py-2 text-right font-medium">Updated</th>
+                                    <th className="px-3 py-2 text-right font-medium">Unchanged</th>
+                                    <th className="px-3 py-2 text-right font-medium">Removed</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {BACKUP_COLLECTIONS.map((collection) => {
+                                    const counts = plan.counts[collection];
+                                    return (
+                                        <tr key={collection} className="border-t border-border">
+                                            <td className="px-3 py-2">{BACKUP_LABELS[collection]}</td>
+                                            <td className="px-3 py-2 text-right">{counts.added}</td>
+                                            <td className="px-3 py-2 text-right">{counts.updated}</td>
+                                            <td className="px-3 py-2 text-right">{counts.unchanged}</td>
+                                            <td className="px-3 py-2 text-right">{counts.removed}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+                {plan && !hasChanges && (
+                    <p className="text-sm text-muted-foreground">Your data already matches this backup.</p>
+                )}
+
+                <div className="flex justify-end">
+                    <Button
+                        variant={plan?.mode === "replace" ? "destructive" : "default"}
+                        onClick={handleImport}
+                        disabled={!hasChanges || planImport.isPending || importBackup.isPending}
+                    >
+                        <Upload className="w-4 h-4" />
+                        {importBackup.isPending
+                            ? "Importing..."
+                            : plan?.mode === "replace"
+                                ? "Replace my data"
+                                : "Import"}
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,45 @@
+import { Input, Label } from "@/components/ui";
+import { usePomodoroSettings } from "@/hooks/usePomodoro";
+import { useUpdatePreferences } from "@/hooks/usePreferences";
+import { POMODORO_SETTING_FIELDS, clampPomodoroSettings } from "@/lib/pomodoro";
+import type { PomodoroSettings } from "@/types";
+
+export function FocusSettings() {
+    const settings = usePomodoroSettings();
+    const updatePreferences = useUpdatePreferences();
+
+    const handleBlur = (key: keyof PomodoroSettings, input: HTMLInputElement) => {
+        const next = clampPomodoroSettings({ ...settings, [key]: Number(input.value) });
+        if (next[key] === settings[key]) {
+            input.value = String(settings[key]);
+            return;
+        }
+        updatePreferences.mutate({ pomodoro: next });
+    };
+
+    return (
+        <div className="space-y-4">
+            {/* Keyed by the saved values, so an out-of-range entry shows the value that was kept */}
+            <div key={JSON.stringify(settings)} className="grid gap-4 sm:grid-cols-2">
+                {POMODORO_SETTING_FIELDS.map(({ key, label, min, max }) => (
+                    <div key={key} className="space-y-2">
+                        <Label htmlFor={`pomodoro-${key}`}>{label}</Label>
+                        <Input
+                            id={`pomodoro-${key}`}
+                            type="number"
+                            min={min}
+                            max={max}
+                            defaultValue={settings[key]}
+                            onBlur={(event) => handleBlur(key, event.target)}
+                        />
+                    </div>
+                ))}
+            </div>
+            <p className="text-sm text-muted-foreground">
+                Focus mode alternates work intervals with short breaks, and takes a long break after
+                the set number of work intervals. Each finished work interval is logged in the Daily
+                Tracker.
+            </p>
+        </div>
+    );
+}
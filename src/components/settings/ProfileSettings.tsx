@@ -11,10 +11,19 @@ import {
     TabsList,
     TabsTrigger,
     TabsContent,
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
 } from "@/components/ui";
 import { useAuth } from "@/contexts/AuthContext";
 import { useTheme } from "@/components/ThemeProvider";
-import { Check, Moon, Sun, Palette, User, Settings2 } from "lucide-react";
+import { usePreferences, useUpdatePreferences } from "@/hooks/usePreferences";
+import { AUTO_ARCHIVE_DAY_OPTIONS } from "@/lib/archive";
+import { BackupSettings } from "@/components/settings/BackupSettings";
+import { FocusSettings } from "@/components/settings/FocusSettings";
+import { Check, Moon, Sun, Palette, User, Settings2, Archive, DatabaseBackup, Timer } from "lucide-react";
 import { updateProfile } from "firebase/auth";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
@@ -69,6 +78,8 @@ export function ProfileSettings({
     const [selectedAvatar, setSelectedAvatar] = useState(user?.photoURL || AVATARS[0]);
     const [saving, setSaving] = useState(false);
     const [activeColorTheme, setActiveColorTheme] = useState(THEME_COLORS[0].name);
+    const { data: preferences } = usePreferences();
+    const updatePreferences = useUpdatePreferences();
 
     useEffect(() => {
         if (user?.photoURL) {
@@ -149,6 +160,27 @@ export function ProfileSettings({
                                 <Palette className="w-4 h-4 mr-2" />
                                 Appearance
                             </TabsTrigger>
+                            <TabsTrigger
+                                value="focus"
+                                className="data-[state=active]:bg-transparent data-[state=active]:shadow-none data-[state=active]:border-b-2 data-[state=active]:border-primary rounded-none px-0 py-2"
+                            >
+                                <Timer className="w-4 h-4 mr-2" />
+                                Focus
+                            </TabsTrigger>
+                            <TabsTrigger
+                                value="archive"
+                                className="data-[state=active]:bg-transparent data-[state=active]:shadow-none data-[state=active]:border-b-2 data-[state=active]:border-primary rounded-none px-0 py-2"
+                            >
+                                <Archive className="w-4 h-4 mr-2" />
+                                Archive
+                            </TabsTrigger>
+                            <TabsTrigger
+                                value="backup"
+                                className="data-[state=active]:bg-transparent data-[state=active]:shadow-none data-[state=active]:border-b-2 data-[state=active]:border-primary rounded-none px-0 py-2"
+                            >
+                                <DatabaseBackup className="w-4 h-4 mr-2" />
+                                Backup
+                            </TabsTrigger>
                         </TabsList>
                     </div>
 
@@ -270,6 +302,39 @@ export function ProfileSettings({
                                 </div>
                             </div>
                         </TabsContent>
+
+                        <TabsContent value="focus" className="mt-0">
+                            <FocusSettings />
+                        </TabsContent>
+
+                        <TabsContent value="archive" className="mt-0 space-y-3">
+                            <Label htmlFor="auto-archive">Archive completed items automatically</Label>
+                            <Select
+                                value={String(preferences?.autoArchiveDays ?? 0)}
+                                onValueChange={(value) =>
+                                    updatePreferences.mutate({ autoArchiveDays: Number(value) })
+                                }
+                            >
+                                <SelectTrigger id="auto-archive" className="w-56">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {AUTO_ARCHIVE_DAY_OPTIONS.map((days) => (
+                                        <SelectItem key={days} value={String(days)}>
+                                            {days === 0 ? "Never" : `${days} days after completion`}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <p className="text-sm text-muted-foreground">
+                                Archived todos and goals leave your lists but still count toward goal
+                                progress and stats. You can find and unarchive them on the Archive page.
+                            </p>
+                        </TabsContent>
+
+                        <TabsContent value="backup" className="mt-0">
+                            <BackupSettings />
+                        </TabsContent>
                     </div>
                 </Tabs>
             </DialogContent>
@@ -0,0 +1,14 @@
+import { CloudOff } from "lucide-react";
+
+// Marks an item whose latest change is still waiting for the connection
+export function PendingSyncBadge() {
+    return (
+        <span
+            className="inline-flex items-center gap-1 rounded-full border border-dashed border-border px-2 py-0.5 text-xs text-muted-foreground"
+            title="Saved on this device; syncs when you are back online"
+        >
+            <CloudOff className="w-3 h-3" />
+            Pending sync
+        </span>
+    );
+}
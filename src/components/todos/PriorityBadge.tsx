@@ -0,0 +1,17 @@
+import { Flag } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { PRIORITY_STYLES } from "@/lib/todoFilters";
+import type { TodoPriority } from "@/types";
+
+export function PriorityBadge({ priority }: { priority: TodoPriority }) {
+    return (
+        <span
+            className={cn(
+                "inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs",
+                PRIORITY_STYLES[priority]
+            )}
+        >
+            <Flag className="w-3 h-3" />P{priority}
+        </span>
+    );
+}
@@ -0,0 +1,76 @@
+import { format, parseISO } from "date-fns";
+import { CalendarClock, Clock, Target } from "lucide-react";
+import { PriorityBadge } from "@/components/todos/PriorityBadge";
+import { cn } from "@/lib/utils";
+import { formatDueTime } from "@/lib/dueDates";
+import { splitByTokens, type ParsedQuickAdd, type QuickAddTokenType } from "@/lib/quickAddParser";
+import type { Goal } from "@/types";
+
+const TOKEN_STYLES: Record<QuickAddTokenType, string> = {
+    date: "bg-primary/15 text-primary",
+    time: "bg-primary/15 text-primary",
+    priority: "bg-orange-500/15 text-orange-600 dark:text-orange-400",
+    tag: "bg-emerald-500/15 text-emerald-700 dark:text-emerald-300",
+    goal: "bg-violet-500/15 text-violet-700 dark:text-violet-300",
+};
+
+// Echoes typed quick-add text with recognised tokens highlighted, followed by what
+// they resolved to
+export function QuickAddPreview({
+    text,
+    parsed,
+    goals,
+    className,
+}: {
+    text: string;
+    parsed: ParsedQuickAdd;
+    goals: Goal[];
+    className?: string;
+}) {
+    if (parsed.tokens.length === 0) return null;
+
+    const goalTitle = goals.find((goal) => goal.id === parsed.goalId)?.title;
+
+    return (
+        <div className={cn("flex flex-wrap items-center gap-x-3 gap-y-1 text-sm", className)}>
+            <p className="whitespace-pre-wrap text-muted-foreground">
+                {splitByTokens(text, parsed.tokens).map((segment, index) =>
+                    segment.type ? (
+                        <mark
+                            key={index}
+                            className={cn("rounded px-0.5", TOKEN_STYLES[segment.type])}
+                        >
+                            {segment.text}
+                        </mark>
+                    ) : (
+                        <span key={index}>{segment.text}</span>
+                    )
+                )}
+            </p>
+            <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+                {parsed.dueDate && (
+                    <span className="inline-flex items-center gap-1">
+                        <CalendarClock className="w-3 h-3" />
+                        {format(parseISO(parsed.dueDate), "EEE, MMM d")}
+                    </span>
+                )}
+                {parsed.dueTime && (
+                    <span className="inline-flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        {formatDueTime(parsed.dueTime)}
+                    </span>
+                )}
+                {parsed.priority && <PriorityBadge priority={parsed.priority} />}
+                {goalTitle && (
+                    <span className="inline-flex items-center gap-1">
+                        <Target className="w-3 h-3" />
+                        {goalTitle}
+                    </span>
+                )}
+                {parsed.tags.map((tag) => (
+                    <span key={tag}>#{tag}</span>
+                ))}
+            </div>
+        </div>
+    );
+}
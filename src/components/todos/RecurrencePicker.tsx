@@ -0,0 +1,133 @@
+import { Repeat } from "lucide-react";
+import {
+    Input,
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui";
+import { cn } from "@/lib/utils";
+import type { RecurrenceRule } from "@/types";
+
+type RecurrenceType = RecurrenceRule["type"] | "none";
+
+const RECURRENCE_OPTIONS: { value: RecurrenceType; label: string }[] = [
+    { value: "none", label: "Does not repeat" },
+    { value: "daily", label: "Daily" },
+    { value: "weekdays", label: "Weekdays" },
+    { value: "interval", label: "Every N days" },
+    { value: "weekly", label: "Weekly on..." },
+    { value: "monthly", label: "Monthly on day..." },
+];
+
+const WEEKDAY_LETTERS = ["S", "M", "T", "W", "T", "F", "S"];
+
+function defaultRule(type: RecurrenceType): RecurrenceRule | undefined {
+    const today = new Date();
+    switch (type) {
+        case "daily":
+            return { type: "daily" };
+        case "weekdays":
+            return { type: "weekdays" };
+        case "interval":
+            return { type: "interval", everyDays: 2 };
+        case "weekly":
+            return { type: "weekly", weekdays: [today.getDay()] };
+        case "monthly":
+            return { type: "monthly", dayOfMonth: today.getDate() };
+        default:
+            return undefined;
+    }
+}
+
+export function RecurrencePicker({
+    value,
+    onChange,
+}: {
+    value?: RecurrenceRule;
+    onChange: (rule: RecurrenceRule | undefined) => void;
+}) {
+    const toggleWeekday = (day: number) => {
+        if (value?.type !== "weekly") return;
+        const weekdays = value.weekdays.includes(day)
+            ? value.weekdays.filter((item) => item !== day)
+            : [...value.weekdays, day];
+        onChange({ type: "weekly", weekdays });
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <Repeat className="w-4 h-4 text-muted-foreground" />
+            <Select
+                value={value?.type ?? "none"}
+                onValueChange={(type) => onChange(defaultRule(type as RecurrenceType))}
+            >
+                <SelectTrigger className="w-44">
+                    <SelectValue placeholder="Does not repeat" />
+                </SelectTrigger>
+                <SelectContent>
+                    {RECURRENCE_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+
+            {value?.type === "interval" && (
+                <Input
+                    type="number"
+                    min={1}
+                    value={value.everyDays}
+                    onChange={(event) =>
+                        onChange({
+                            type: "interval",
+                            everyDays: Math.max(1, Number(event.target.value) || 1),
+                        })
+                    }
+                    className="w-20"
+                    aria-label="Repeat every N days"
+                />
+            )}
+
+            {value?.type === "weekly" && (
+                <div className="flex gap-1">
+                    {WEEKDAY_LETTERS.map((letter, day) => (
+                        <button
+                            key={day}
+                            type="button"
+                            onClick={() => toggleWeekday(day)}
+                            aria-pressed={value.weekdays.includes(day)}
+                            className={cn(
+                                "w-7 h-7 rounded-full text-xs font-medium transition-colors",
+                                value.weekdays.includes(day)
+                                    ? "bg-primary text-primary-foreground"
+                                    : "bg-muted text-muted-foreground hover:bg-muted/80"
+                            )}
+                        >
+                            {letter}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {value?.type === "monthly" && (
+                <Input
+                    type="number"
+                    min={1}
+                    max={31}
+                    value={value.dayOfMonth}
+                    onChange={(event) =>
+                        onChange({
+                            type: "monthly",
+                            dayOfMonth: Math.min(31, Math.max(1, Number(event.target.value) || 1)),
+                        })
+                    }
+                    className="w-20"
+                    aria-label="Day of month"
+                />
+            )}
+        </div>
+    );
+}
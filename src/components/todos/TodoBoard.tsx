@@ -0,0 +1,202 @@
+import { useState, type DragEvent, type KeyboardEvent } from "react";
+import { format, parseISO } from "date-fns";
+import { CalendarClock } from "lucide-react";
+import { PriorityBadge } from "@/components/todos/PriorityBadge";
+import { PendingSyncBadge } from "@/components/sync/PendingSyncBadge";
+import { cn } from "@/lib/utils";
+import { formatDueTime, getDueStatus } from "@/lib/dueDates";
+import { NO_GOAL_FILTER } from "@/lib/todoFilters";
+import { TODO_STATUSES, TODO_STATUS_LABELS, getTodoStatus } from "@/lib/todoStatus";
+import type { Goal, Todo, TodoBoardGroup, TodoStatus } from "@/types";
+
+type BoardColumn = { id: string; title: string; todos: Todo[] };
+
+function buildColumns(todos: Todo[], goals: Goal[], groupBy: TodoBoardGroup): BoardColumn[] {
+    if (groupBy === "status") {
+        return TODO_STATUSES.map((status) => ({
+            id: status,
+            title: TODO_STATUS_LABELS[status],
+            todos: todos.filter((todo) => getTodoStatus(todo) === status),
+        }));
+    }
+
+    const goalIds = new Set(goals.map((goal) => goal.id));
+    return [
+        {
+            id: NO_GOAL_FILTER,
+            title: "No goal",
+            todos: todos.filter((todo) => !todo.goalId || !goalIds.has(todo.goalId)),
+        },
+        ...goals.map((goal) => ({
+            id: goal.id,
+            title: goal.title,
+            todos: todos.filter((todo) => todo.goalId === goal.id),
+        })),
+    ];
+}
+
+// Kanban view of todos. Cards are dragged between columns, or moved one column at a
+// time with ArrowLeft/ArrowRight while focused. Columns are statuses or goals.
+export function TodoBoard({
+    todos,
+    goals,
+    groupBy,
+    todayKey,
+    pendingSyncIds,
+    onMoveToStatus,
+    onMoveToGoal,
+}: {
+    todos: Todo[];
+    goals: Goal[];
+    groupBy: TodoBoardGroup;
+    todayKey: string;
+    pendingSyncIds: Set<string>;
+    onMoveToStatus: (todo: Todo, status: TodoStatus) => void;
+    onMoveToGoal: (todo: Todo, goalId: string | undefined) => void;
+}) {
+    const [draggingId, setDraggingId] = useState<string | null>(null);
+    const [overColumnId, setOverColumnId] = useState<string | null>(null);
+
+    const columns = buildColumns(todos, goals, groupBy);
+    const goalTitles = new Map(goals.map((goal) => [goal.id, goal.title]));
+
+    const getColumnId = (todo: Todo) => {
+        if (groupBy === "status") return getTodoStatus(todo);
+        return todo.goalId && goalTitles.has(todo.goalId) ? todo.goalId : NO_GOAL_FILTER;
+    };
+
+    const moveTo = (todo: Todo, columnId: string) => {
+        if (columnId === getColumnId(todo)) return;
+        if (groupBy === "status") {
+            onMoveToStatus(todo, columnId as TodoStatus);
+        } else {
+            onMoveToGoal(todo, columnId === NO_GOAL_FILTER ? undefined : columnId);
+        }
+    };
+
+    const handleDrop = (event: DragEvent<HTMLElement>, columnId: string) => {
+        event.preventDefault();
+        const todo = todos.find((item) => item.id === draggingId);
+        setDraggingId(null);
+        setOverColumnId(null);
+        if (todo) moveTo(todo, columnId);
+    };
+
+    const handleCardKeyDown = (event: KeyboardEvent<HTMLElement>, todo: Todo) => {
+        if (event.key !== "ArrowLeft" && event.key !== "ArrowRight") return;
+        event.preventDefault();
+        const index = columns.findIndex((column) => column.id === getColumnId(todo));
+        const target = columns[index + (event.key === "ArrowLeft" ? -1 : 1)];
+        if (!target) return;
+        moveTo(todo, target.id);
+        requestAnimationFrame(() => {
+            document
+                .querySelector<HTMLElement>(`[data-board-card="${CSS.escape(todo.id)}"]`)
+                ?.focus();
+        });
+    };
+
+    return (
+        <div className="flex gap-4 overflow-x-auto pb-2">
+            {columns.map((column) => (
+                <section
+                    key={column.id}
+                    aria-label={column.title}
+                    onDragOver={(event) => {
+                        if (!draggingId) return;
+                        event.preventDefault();
+                        event.dataTransfer.dropEffect = "move";
+                        if (overColumnId !== column.id) setOverColumnId(column.id);
+                    }}
+                    onDragLeave={(event) => {
+                        if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+                            setOverColumnId(null);
+                        }
+                    }}
+                    onDrop={(event) => handleDrop(event, column.id)}
+                    className={cn(
+                        "flex w-72 shrink-0 flex-col rounded-xl border border-border bg-muted/40 transition-colors",
+                        overColumnId === column.id && "border-primary bg-primary/5"
+                    )}
+                >
+                    <header className="flex items-center justify-between px-3 py-2 border-b border-border">
+                        <h3 className="truncate text-sm font-semibold text-foreground">{column.title}</h3>
+                        <span className="text-xs text-muted-foreground">{column.todos.length}</span>
+                    </header>
+
+                    <div className="flex min-h-24 flex-1 flex-col gap-2 p-2">
+                        {column.todos.map((todo) => {
+                            const goalTitle = todo.goalId ? goalTitles.get(todo.goalId) : undefined;
+                            const dueStatus = getDueStatus(todo, todayKey);
+                            return (
+                                <article
+                                    key={todo.id}
+                                    data-board-card={todo.id}
+                                    draggable
+                                    tabIndex={0}
+                                    aria-label={`${todo.title}. Use the left and right arrow keys to move it between columns.`}
+                                    onDragStart={(event) => {
+                                        event.dataTransfer.effectAllowed = "move";
+                                        event.dataTransfer.setData("text/plain", todo.id);
+                                        setDraggingId(todo.id);
+                                    }}
+                                    onDragEnd={() => {
+                                        setDraggingId(null);
+                                        setOverColumnId(null);
+                                    }}
+                                    onKeyDown={(event) => handleCardKeyDown(event, todo)}
+                                    className={cn(
+                                        "cursor-grab space-y-2 rounded-lg border border-border bg-card p-3 text-sm shadow-sm active:cursor-grabbing focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+                                        draggingId === todo.id && "opacity-50"
+                                    )}
+                                >
+                                    <p
+                                        className={cn(
+                                            "text-foreground",
+                                            todo.isDone && "line-through text-muted-foreground"
+                                        )}
+                                    >
+                                        {todo.title}
+                                    </p>
+                                    <div className="flex flex-wrap items-center gap-1.5">
+                                        {todo.priority && <PriorityBadge priority={todo.priority} />}
+                                        {pendingSyncIds.has(todo.id) && <PendingSyncBadge />}
+                                        {groupBy === "status" && goalTitle && (
+                                            <span className="inline-flex items-center rounded-full border border-border bg-muted px-2 py-0.5 text-xs text-foreground">
+                                                {goalTitle}
+                                            </span>
+                                        )}
+                                        {groupBy === "goal" && (
+                                            <span className="inline-flex items-center rounded-full border border-border bg-muted px-2 py-0.5 text-xs text-foreground">
+                                                {TODO_STATUS_LABELS[getTodoStatus(todo)]}
+                                            </span>
+                                        )}
+                                        {todo.dueDate && (
+                                            <span
+                                                className={cn(
+                                                    "inline-flex items-center gap-1 text-xs",
+                                                    dueStatus === "overdue"
+                                                        ? "text-destructive"
+                                                        : "text-muted-foreground"
+                                                )}
+                                            >
+                                                <CalendarClock className="w-3 h-3" />
+                                                {format(parseISO(todo.dueDate), "MMM d")}
+                                                {todo.dueTime && `, ${formatDueTime(todo.dueTime)}`}
+                                            </span>
+                                        )}
+                                        {todo.tags?.map((tag) => (
+                                            <span key={tag} className="text-xs text-muted-foreground">
+                                                #{tag}
+                                            </span>
+                                        ))}
+                                    </div>
+                                </article>
+                            );
+                        })}
+                    </div>
+                </section>
+            ))}
+        </div>
+    );
+}
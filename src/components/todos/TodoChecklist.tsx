@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Button, Input } from "@/components/ui";
+import { cn } from "@/lib/utils";
+import type { ChecklistItem } from "@/types";
+
+export function TodoChecklist({
+    items,
+    onChange,
+}: {
+    items: ChecklistItem[];
+    onChange: (items: ChecklistItem[]) => void;
+}) {
+    const [newItemTitle, setNewItemTitle] = useState("");
+
+    const handleAdd = () => {
+        const title = newItemTitle.trim();
+        if (!title) return;
+        onChange([...items, { id: crypto.randomUUID(), title, isDone: false }]);
+        setNewItemTitle("");
+    };
+
+    return (
+        <div className="space-y-2 pt-3 mt-3 border-t border-border">
+            {items.map((item) => (
+                <div key={item.id} className="group/item flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={item.isDone}
+                        onChange={() =>
+                            onChange(
+                                items.map((other) =>
+                                    other.id === item.id ? { ...other, isDone: !other.isDone } : other
+                                )
+                            )
+                        }
+                        className="h-4 w-4 accent-[var(--color-primary)]"
+                        aria-label={`Mark "${item.title}" ${item.isDone ? "not done" : "done"}`}
+                    />
+                    <span
+                        className={cn(
+                            "flex-1 text-sm text-foreground",
+                            item.isDone && "line-through text-muted-foreground"
+                        )}
+                    >
+                        {item.title}
+                    </span>
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 opacity-0 group-hover/item:opacity-100 focus-visible:opacity-100"
+                        onClick={() => onChange(items.filter((other) => other.id !== item.id))}
+                        aria-label="Remove checklist item"
+                    >
+                        <X className="h-3 w-3" />
+                    </Button>
+                </div>
+            ))}
+
+            <div className="flex gap-2">
+                <Input
+                    value={newItemTitle}
+                    onChange={(event) => setNewItemTitle(event.target.value)}
+                    onKeyDown={(event) => {
+                        if (event.key === "Enter") {
+                            event.preventDefault();
+                            handleAdd();
+                        }
+                    }}
+                    placeholder="Add a checklist item..."
+                    className="h-9"
+                />
+                <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    className="h-9 w-9 shrink-0"
+                    onClick={handleAdd}
+                    disabled={!newItemTitle.trim()}
+                    aria-label="Add checklist item"
+                >
+                    <Plus className="h-4 w-4" />
+                </Button>
+            </div>
+        </div>
+    );
+}
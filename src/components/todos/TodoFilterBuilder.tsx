@@ -0,0 +1,217 @@
+import { useState, type ReactNode } from "react";
+import { Save, X } from "lucide-react";
+import {
+    Button,
+    Input,
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui";
+import { cn } from "@/lib/utils";
+import {
+    DUE_FILTER_LABELS,
+    NO_GOAL_FILTER,
+    PRIORITIES,
+    PRIORITY_STYLES,
+    isFilterEmpty,
+} from "@/lib/todoFilters";
+import type { Goal, TodoDueFilter, TodoFilter } from "@/types";
+
+const ANY = "any";
+
+function toggleValue<T>(values: T[] | undefined, value: T): T[] {
+    const current = values ?? [];
+    return current.includes(value) ? current.filter((item) => item !== value) : [...current, value];
+}
+
+function Chip({
+    isActive,
+    onClick,
+    className,
+    children,
+}: {
+    isActive: boolean;
+    onClick: () => void;
+    className?: string;
+    children: ReactNode;
+}) {
+    return (
+        <button
+            type="button"
+            onClick={onClick}
+            className={cn(
+                "rounded-full border px-2.5 py-0.5 text-xs transition-colors",
+                isActive
+                    ? className ?? "border-primary bg-primary/10 text-primary"
+                    : "border-border bg-background text-muted-foreground hover:bg-muted"
+            )}
+        >
+            {children}
+        </button>
+    );
+}
+
+export function TodoFilterBuilder({
+    filter,
+    goals,
+    tags,
+    onChange,
+    onSave,
+}: {
+    filter: TodoFilter;
+    goals: Goal[];
+    tags: string[];
+    onChange: (filter: TodoFilter) => void;
+    onSave?: (name: string) => void;
+}) {
+    const [listName, setListName] = useState("");
+    const isEmpty = isFilterEmpty(filter);
+
+    const handleSave = () => {
+        if (!onSave || !listName.trim() || isEmpty) return;
+        onSave(listName.trim());
+        setListName("");
+    };
+
+    return (
+        <div className="space-y-3 rounded-xl border border-border bg-card p-4">
+            <div className="flex flex-wrap items-center gap-2">
+                <Select
+                    value={filter.status ?? ANY}
+                    onValueChange={(value) =>
+                        onChange({
+                            ...filter,
+                            status: value === ANY ? undefined : (value as TodoFilter["status"]),
+                        })
+                    }
+                >
+                    <SelectTrigger className="h-8 w-36 text-xs">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={ANY}>Any status</SelectItem>
+                        <SelectItem value="pending">Pending</SelectItem>
+                        <SelectItem value="done">Done</SelectItem>
+                    </SelectContent>
+                </Select>
+
+                <Select
+                    value={filter.due ?? ANY}
+                    onValueChange={(value) =>
+                        onChange({
+                            ...filter,
+                            due: value === ANY ? undefined : (value as TodoDueFilter),
+                        })
+                    }
+                >
+                    <SelectTrigger className="h-8 w-36 text-xs">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={ANY}>Any due date</SelectItem>
+                        {(Object.keys(DUE_FILTER_LABELS) as TodoDueFilter[]).map((due) => (
+                            <SelectItem key={due} value={due}>
+                                {DUE_FILTER_LABELS[due]}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+
+                <div className="flex items-center gap-1">
+                    {PRIORITIES.map((priority) => (
+                        <Chip
+                            key={priority}
+                            isActive={!!filter.priorities?.includes(priority)}
+                            className={PRIORITY_STYLES[priority]}
+                            onClick={() =>
+                                onChange({
+                                    ...filter,
+                                    priorities: toggleValue(filter.priorities, priority),
+                                })
+                            }
+                        >
+                            P{priority}
+                        </Chip>
+                    ))}
+                </div>
+
+                {!isEmpty && (
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="ml-auto h-8"
+                        onClick={() => onChange({})}
+                    >
+                        <X className="w-4 h-4 mr-1" />
+                        Clear
+                    </Button>
+                )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-1.5">
+                <span className="text-xs font-medium text-foreground mr-1">Goals</span>
+                <Chip
+                    isActive={!!filter.goalIds?.includes(NO_GOAL_FILTER)}
+                    onClick={() =>
+                        onChange({ ...filter, goalIds: toggleValue(filter.goalIds, NO_GOAL_FILTER) })
+                    }
+                >
+                    No goal
+                </Chip>
+                {goals.map((goal) => (
+                    <Chip
+                        key={goal.id}
+                        isActive={!!filter.goalIds?.includes(goal.id)}
+                        onClick={() =>
+                            onChange({ ...filter, goalIds: toggleValue(filter.goalIds, goal.id) })
+                        }
+                    >
+                        {goal.title}
+                    </Chip>
+                ))}
+            </div>
+
+            {tags.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1.5">
+                    <span className="text-xs font-medium text-foreground mr-1">Tags</span>
+                    {tags.map((tag) => (
+                        <Chip
+                            key={tag}
+                            isActive={!!filter.tags?.includes(tag)}
+                            onClick={() => onChange({ ...filter, tags: toggleValue(filter.tags, tag) })}
+                        >
+                            #{tag}
+                        </Chip>
+                    ))}
+                </div>
+            )}
+
+            {onSave && !isEmpty && (
+                <div className="flex items-center gap-2 pt-1">
+                    <Input
+                        value={listName}
+                        onChange={(event) => setListName(event.target.value)}
+                        onKeyDown={(event) => {
+                            if (event.key === "Enter") handleSave();
+                        }}
+                        placeholder="Name this filter to save it as a smart list..."
+                        maxLength={50}
+                        className="h-8 text-sm"
+                    />
+                    <Button
+                        type="button"
+                        size="sm"
+                        onClick={handleSave}
+                        disabled={!listName.trim()}
+                    >
+                        <Save className="w-4 h-4 mr-1" />
+                        Save
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,74 @@
+import { useEffect, useLayoutEffect, useRef, useState, type ReactNode } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import type { Todo } from "@/types";
+
+// Rows closer than this to the end of the loaded todos trigger the next page
+const LOAD_MORE_THRESHOLD = 5;
+
+// Renders only the rows near the viewport. The list scrolls with the page (the closest
+// <main>), so rows are offset by the list's position inside it. Rows are measured after
+// render because expanded checklists and edit forms change their height.
+export function VirtualTodoList({
+    todos,
+    renderTodo,
+    hasNextPage,
+    isFetchingNextPage,
+    onLoadMore,
+}: {
+    todos: Todo[];
+    renderTodo: (todo: Todo) => ReactNode;
+    hasNextPage: boolean;
+    isFetchingNextPage: boolean;
+    onLoadMore: () => void;
+}) {
+    const listRef = useRef<HTMLDivElement>(null);
+    const [scrollElement, setScrollElement] = useState<HTMLElement | null>(null);
+    const [scrollMargin, setScrollMargin] = useState(0);
+
+    // Measured from layout once the list is in the page, and again whenever the shown todos
+    // change, since the filters and tabs that change them sit above the list
+    useLayoutEffect(() => {
+        const list = listRef.current;
+        const main = list?.closest("main") ?? null;
+        setScrollElement(main);
+        setScrollMargin(
+            list && main
+                ? list.getBoundingClientRect().top - main.getBoundingClientRect().top + main.scrollTop
+                : 0
+        );
+    }, [todos]);
+
+    // Nothing the virtualizer returns is memoized: its items and size are read on every render
+    const virtualizer = useVirtualizer({
+        count: todos.length,
+        getScrollElement: () => scrollElement,
+        estimateSize: () => 88,
+        overscan: 8,
+        gap: 12,
+        scrollMargin,
+        getItemKey: (index) => todos[index].id,
+    });
+    const virtualItems = virtualizer.getVirtualItems();
+    const lastIndex = virtualItems.at(-1)?.index ?? -1;
+
+    useEffect(() => {
+        if (!hasNextPage || isFetchingNextPage) return;
+        if (lastIndex >= todos.length - LOAD_MORE_THRESHOLD) onLoadMore();
+    }, [lastIndex, todos.length, hasNextPage, isFetchingNextPage, onLoadMore]);
+
+    return (
+        <div ref={listRef} className="relative" style={{ height: virtualizer.getTotalSize() }}>
+            {virtualItems.map((item) => (
+                <div
+                    key={item.key}
+                    ref={virtualizer.measureElement}
+                    data-index={item.index}
+                    className="absolute left-0 top-0 w-full"
+                    style={{ transform: `translateY(${item.start - scrollMargin}px)` }}
+                >
+                    {renderTodo(todos[item.index])}
+                </div>
+            ))}
+        </div>
+    );
+}
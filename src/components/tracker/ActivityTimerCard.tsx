@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { Pause, Play, Square, Timer, X } from "lucide-react";
+import {
+    Button,
+    Card,
+    CardContent,
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui";
+import { useActivityTimer, useSaveTimer, useStopTimer, useTimerElapsed } from "@/hooks/useTimer";
+import { getActivityColor, getSelectableActivities } from "@/lib/activities";
+import { formatElapsed, pauseTimer, resumeTimer, startTimer } from "@/lib/timer";
+import type { Activity } from "@/types";
+
+// Stopwatch for one activity; it keeps running in Firestore until stopped, which logs the time
+export function ActivityTimerCard({ activities }: { activities: Activity[] }) {
+    const [activityId, setActivityId] = useState("");
+    const { data: timer } = useActivityTimer();
+    const saveTimer = useSaveTimer();
+    const stopTimer = useStopTimer();
+    const elapsed = useTimerElapsed(timer);
+    const selected = activities.find((activity) => activity.id === activityId);
+    const timerActivity = timer && activities.find((activity) => activity.id === timer.activityId);
+
+    return (
+        <Card>
+            <CardContent className="p-6 space-y-4">
+                <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                    <Timer className="w-4 h-4" />
+                    Timer
+                </div>
+
+                {timer ? (
+                    <div className="flex flex-wrap items-center justify-between gap-4">
+                        <div className="flex items-center gap-3">
+                            <span
+                                className="h-3 w-3 shrink-0 rounded-full"
+                                style={{
+                                    backgroundColor: getActivityColor(
+                                        timerActivity ?? { id: timer.activityId }
+                                    ),
+                                }}
+                            />
+                            <div>
+                                <p className="font-medium text-foreground">{timer.activityName}</p>
+                                <p className="text-3xl font-semibold tabular-nums text-foreground">
+                                    {formatElapsed(elapsed)}
+                                </p>
+                                {!timer.runningSince && (
+                                    <p className="text-xs text-muted-foreground">Paused</p>
+                                )}
+                            </div>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                            {timer.runningSince ? (
+                                <Button
+                                    variant="outline"
+                                    onClick={() => saveTimer.mutate(pauseTimer(timer, new Date()))}
+                                >
+                                    <Pause className="w-4 h-4" />
+                                    Pause
+                                </Button>
+                            ) : (
+                                <Button
+                                    variant="outline"
+                                    onClick={() => saveTimer.mutate(resumeTimer(timer, new Date()))}
+                                >
+                                    <Play className="w-4 h-4" />
+                                    Resume
+                                </Button>
+                            )}
+                            <Button onClick={() => stopTimer.stop(timer)} disabled={stopTimer.isPending}>
+                                <Square className="w-4 h-4" />
+                                Stop & log
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => saveTimer.mutate(null)}
+                                aria-label="Discard timer"
+                                title="Discard without logging"
+                            >
+                                <X className="w-4 h-4" />
+                            </Button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="grid gap-3 sm:grid-cols-[1fr_auto] sm:items-center">
+                        <Select value={activityId} onValueChange={setActivityId}>
+                            <SelectTrigger aria-label="Activity to time">
+                                <SelectValue placeholder="Choose an activity to time" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {getSelectableActivities(activities).map((activity) => (
+                                    <SelectItem key={activity.id} value={activity.id}>
+                                        {activity.name}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Button
+                            onClick={() => selected && saveTimer.mutate(startTimer(selected, new Date()))}
+                            disabled={!selected || saveTimer.isPending}
+                        >
+                            <Play className="w-4 h-4" />
+                            Start
+                        </Button>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
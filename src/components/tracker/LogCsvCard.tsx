@@ -0,0 +1,294 @@
+import { useState, type ChangeEvent } from "react";
+import { endOfMonth, format, startOfMonth } from "date-fns";
+import { Download, FileSpreadsheet, Upload } from "lucide-react";
+import {
+    Button,
+    Card,
+    CardContent,
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    Input,
+    Label,
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui";
+import { useExportDailyLogs, useImportDailyLogs, usePlanLogImport } from "@/hooks/useDailyTracker";
+import { cn } from "@/lib/utils";
+import {
+    LOG_CSV_FIELDS,
+    LOG_CSV_FIELD_LABELS,
+    guessLogCsvMapping,
+    parseCsv,
+    readLogRows,
+    type LogCsvField,
+    type LogCsvMapping,
+} from "@/lib/logCsv";
+import type { Activity } from "@/types";
+
+// Select value for a field that is not in the file (Radix selects cannot use "")
+const NOT_MAPPED = "none";
+
+export function LogCsvCard({ month, activities }: { month: Date; activities: Activity[] }) {
+    const [startDate, setStartDate] = useState(format(startOfMonth(month), "yyyy-MM-dd"));
+    const [endDate, setEndDate] = useState(format(endOfMonth(month), "yyyy-MM-dd"));
+    const [activityId, setActivityId] = useState("all");
+    const [isImportOpen, setIsImportOpen] = useState(false);
+    const exportLogs = useExportDailyLogs();
+
+    return (
+        <Card>
+            <CardContent className="p-6 space-y-4">
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                    <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                        <FileSpreadsheet className="w-4 h-4" />
+                        Spreadsheet export & import
+                    </div>
+                    <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+                        <Upload className="w-4 h-4" />
+                        Import CSV
+                    </Button>
+                </div>
+                <div className="grid gap-4 md:grid-cols-[160px_160px_1fr_auto] md:items-end">
+                    <div className="space-y-2">
+                        <Label htmlFor="export-start">From</Label>
+                        <Input
+                            id="export-start"
+                            type="date"
+                            value={startDate}
+                            max={endDate}
+                            onChange={(event) => setStartDate(event.target.value)}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="export-end">To</Label>
+                        <Input
+                            id="export-end"
+                            type="date"
+                            value={endDate}
+                            min={startDate}
+                            onChange={(event) => setEndDate(event.target.value)}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="export-activity">Activity</Label>
+                        <Select value={activityId} onValueChange={setActivityId}>
+                            <SelectTrigger id="export-activity">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="all">All activities</SelectItem>
+                                {activities.map((activity) => (
+                                    <SelectItem key={activity.id} value={activity.id}>
+                                        {activity.name}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <Button
+                        onClick={() =>
+                            exportLogs.mutate({
+                                startDate,
+                                endDate,
+                                activityId: activityId === "all" ? undefined : activityId,
+                            })
+                        }
+                        disabled={!startDate || !endDate || startDate > endDate || exportLogs.isPending}
+                    >
+                        <Download className="w-4 h-4" />
+                        Export CSV
+                    </Button>
+                </div>
+            </CardContent>
+            <LogImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} />
+        </Card>
+    );
+}
+
+// Reads a CSV file, lets the user map its columns and previews every row before importing
+function LogImportDialog({
+    open,
+    onOpenChange,
+}: {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}) {
+    const [header, setHeader] = useState<string[]>([]);
+    const [rows, setRows] = useState<string[][]>([]);
+    const [mapping, setMapping] = useState<LogCsvMapping | null>(null);
+    const planImport = usePlanLogImport();
+    const importLogs = useImportDailyLogs();
+    const plan = planImport.data;
+    const newCount = plan?.rows.filter((row) => row.status === "new").length ?? 0;
+    const isMappingComplete =
+        !!mapping && mapping.date !== null && mapping.activity !== null && mapping.duration !== null;
+
+    const reset = () => {
+        setHeader([]);
+        setRows([]);
+        setMapping(null);
+        planImport.reset();
+    };
+
+    const preview = (nextMapping: LogCsvMapping, fileRows: string[][]) => {
+        setMapping(nextMapping);
+        planImport.reset();
+        if (nextMapping.date !== null && nextMapping.activity !== null && nextMapping.duration !== null) {
+            planImport.mutate(readLogRows(fileRows, nextMapping));
+        }
+    };
+
+    const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = "";
+        if (!file) return;
+
+        const [fileHeader = [], ...fileRows] = parseCsv(await file.text());
+        setHeader(fileHeader);
+        setRows(fileRows);
+        preview(guessLogCsvMapping(fileHeader), fileRows);
+    };
+
+    const handleMappingChange = (field: LogCsvField, value: string) => {
+        if (!mapping) return;
+        preview({ ...mapping, [field]: value === NOT_MAPPED ? null : Number(value) }, rows);
+    };
+
+    const handleOpenChange = (isOpen: boolean) => {
+        if (!isOpen) reset();
+        onOpenChange(isOpen);
+    };
+
+    const handleImport = () => {
+        if (!plan) return;
+        importLogs.mutate(plan, { onSuccess: () => handleOpenChange(false) });
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent className="sm:max-w-[640px]">
+                <DialogHeader>
+                    <DialogTitle>Import daily logs</DialogTitle>
+                    <DialogDescription>
+                        Choose a CSV file with a header row. Durations can be minutes ("90"), hours and
+                        minutes ("1:30") or written out ("1h 30m"). Activities that do not exist yet are
+                        created.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <input
+                        type="file"
+                        accept="text/csv,.csv"
+                        aria-label="CSV file"
+                        onChange={handleFileChange}
+                        className="block w-full text-sm text-muted-foreground file:mr-3 file:rounded-lg file:border-0 file:bg-muted file:px-3 file:py-2 file:text-sm file:font-medium file:text-foreground"
+                    />
+
+                    {mapping && (
+                        <div className="grid gap-3 sm:grid-cols-2">
+                            {LOG_CSV_FIELDS.map((field) => (
+                                <div key={field} className="space-y-1">
+                                    <Label htmlFor={`csv-${field}`}>{LOG_CSV_FIELD_LABELS[field]}</Label>
+                                    <Select
+                                        value={mapping[field] === null ? NOT_MAPPED : String(mapping[field])}
+                                        onValueChange={(value) => handleMappingChange(field, value)}
+                                    >
+                                        <SelectTrigger id={`csv-${field}`}>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value={NOT_MAPPED}>
+                                                {field === "notes" ? "No notes" : "Choose a column"}
+                                            </SelectItem>
+                                            {header.map((name, index) => (
+                                                <SelectItem key={index} value={String(index)}>
+                                                    {name || `Column ${index + 1}`}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {mapping && !isMappingComplete && (
+                        <p className="text-sm text-muted-foreground">
+                            Choose the date, activity and duration columns to see a preview.
+                        </p>
+                    )}
+                    {planImport.isPending && (
+                        <p className="text-sm text-muted-foreground">Comparing with your logs...</p>
+                    )}
+                    {plan && (
+                        <div className="space-y-2">
+                            <p className="text-sm text-muted-foreground">
+                                {newCount} to import ·{" "}
+                                {plan.rows.filter((row) => row.status === "duplicate").length} already
+                                logged · {plan.rows.filter((row) => row.status === "invalid").length} not
+                                readable
+                                {plan.newActivityNames.length > 0 &&
+                                    ` · new activities: ${plan.newActivityNames.join(", ")}`}
+                            </p>
+                            <div className="max-h-64 overflow-y-auto rounded-lg border border-border">
+                                <table className="w-full text-sm">
+                                    <tbody>
+                                        {plan.rows.map((row) => (
+                                            <tr
+                                                key={row.line}
+                                                className={cn(
+                                                    "border-t border-border first:border-t-0",
+                                                    row.status !== "new" && "text-muted-foreground"
+                                                )}
+                                            >
+                                                <td className="px-3 py-1.5 text-xs">{row.line}</td>
+                                                {row.status === "invalid" ? (
+                                                    <td colSpan={3} className="px-3 py-1.5 text-destructive">
+                                                        {row.reason}
+                                                    </td>
+                                                ) : (
+                                                    <>
+                                                        <td className="px-3 py-1.5">{row.entry.date}</td>
+                                                        <td className="px-3 py-1.5">{row.entry.activityName}</td>
+                                                        <td className="px-3 py-1.5 text-right">
+                                                            {row.entry.durationMinutes} min
+                                                        </td>
+                                                    </>
+                                                )}
+                                                <td className="px-3 py-1.5 text-right text-xs">
+                                                    {row.status === "duplicate" && "Duplicate"}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <DialogFooter>
+                    <Button type="button" variant="ghost" onClick={() => handleOpenChange(false)}>
+                        Cancel
+                    </Button>
+                    <Button
+                        onClick={handleImport}
+                        disabled={newCount === 0 || planImport.isPending || importLogs.isPending}
+                    >
+                        {importLogs.isPending
+                            ? "Importing..."
+                            : `Import ${newCount} log${newCount === 1 ? "" : "s"}`}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,95 @@
+import { Link } from "react-router-dom";
+import { Goal as GoalIcon } from "lucide-react";
+import { Card, CardContent, Skeleton } from "@/components/ui";
+import { useTargetProgress } from "@/hooks/useDailyTracker";
+import { getActivityColor } from "@/lib/activities";
+import { CURRENT_PERIOD_LABELS, formatTargetMinutes } from "@/lib/activityTargets";
+import type { Activity } from "@/types";
+
+const RING_SIZE = 88;
+const RING_STROKE = 8;
+
+function ProgressRing({ percent, color }: { percent: number; color: string }) {
+    const radius = (RING_SIZE - RING_STROKE) / 2;
+    const circumference = 2 * Math.PI * radius;
+
+    return (
+        <svg width={RING_SIZE} height={RING_SIZE} className="-rotate-90" aria-hidden>
+            <circle
+                cx={RING_SIZE / 2}
+                cy={RING_SIZE / 2}
+                r={radius}
+                fill="none"
+                strokeWidth={RING_STROKE}
+                className="stroke-muted"
+            />
+            <circle
+                cx={RING_SIZE / 2}
+                cy={RING_SIZE / 2}
+                r={radius}
+                fill="none"
+                stroke={color}
+                strokeWidth={RING_STROKE}
+                strokeLinecap="round"
+                strokeDasharray={circumference}
+                strokeDashoffset={circumference * (1 - percent / 100)}
+                className="transition-[stroke-dashoffset] duration-500"
+            />
+        </svg>
+    );
+}
+
+// One ring per activity with a time target, filled by the time logged in its current period
+export function TargetRingsCard({ activities }: { activities: Activity[] }) {
+    const { progressMap, isLoading } = useTargetProgress();
+    const targeted = activities.filter((activity) => activity.target && !activity.archivedAt);
+
+    return (
+        <Card>
+            <CardContent className="p-6 space-y-4">
+                <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                    <GoalIcon className="w-4 h-4" />
+                    Targets
+                </div>
+
+                {targeted.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                        Set a daily, weekly or monthly time target on an activity under{" "}
+                        <Link to="/daily/activities" className="text-primary hover:underline">
+                            Manage activities
+                        </Link>{" "}
+                        to follow it here.
+                    </p>
+                ) : isLoading || !progressMap ? (
+                    <Skeleton className="h-28" />
+                ) : (
+                    <div className="flex flex-wrap gap-6">
+                        {targeted.map((activity) => {
+                            const target = activity.target!;
+                            const progress = progressMap[activity.id] ?? { minutes: 0, percent: 0 };
+                            return (
+                                <div key={activity.id} className="flex w-32 flex-col items-center gap-2 text-center">
+                                    <div className="relative">
+                                        <ProgressRing percent={progress.percent} color={getActivityColor(activity)} />
+                                        <span className="absolute inset-0 flex items-center justify-center text-lg font-semibold text-foreground">
+                                            {progress.percent}%
+                                        </span>
+                                    </div>
+                                    <div>
+                                        <p className="truncate text-sm font-medium text-foreground">
+                                            {activity.name}
+                                        </p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {formatTargetMinutes(progress.minutes)} of{" "}
+                                            {formatTargetMinutes(target.minutes)} {CURRENT_PERIOD_LABELS[target.period]}
+                                        </p>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -5,8 +5,10 @@ import {
     useState,
     type ReactNode,
 } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { signInWithPopup, signOut, onAuthStateChanged } from "firebase/auth";
 import { auth, googleProvider } from "@/lib/firebase";
+import { queryPersister } from "@/lib/queryPersister";
 import type { User } from "@/types";
 
 interface AuthContextType {
@@ -21,6 +23,7 @@ const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
     const [user, setUser] = useState<User | null>(null);
     const [loading, setLoading] = useState(true);
+    const queryClient = useQueryClient();
 
     useEffect(() => {
         const unsubscribe = onAuthStateChanged(auth, (firebaseUser) => {
@@ -54,6 +57,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
     const logout = async () => {
         await signOut(auth);
+        // The cached todos, goals and logs belong to this account, so none of it may stay
+        // in memory or local storage for the next one
+        queryClient.clear();
+        await queryPersister.removeClient();
     };
 
     return (
@@ -0,0 +1,289 @@
+import { useEffect } from "react";
+import {
+    useInfiniteQuery,
+    useMutation,
+    useQuery,
+    useQueryClient,
+    type InfiniteData,
+    type QueryClient,
+} from "@tanstack/react-query";
+import { subDays } from "date-fns";
+import type { QueryDocumentSnapshot } from "firebase/firestore";
+import {
+    archiveGoal,
+    archiveTodos,
+    autoArchive,
+    getArchiveCounts,
+    getArchivedItems,
+    unarchiveGoal,
+    unarchiveTodo,
+    type Page,
+} from "@/lib/firestore";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePreferences } from "@/hooks/usePreferences";
+import { toast } from "sonner";
+
+import type { ArchiveCollection, Goal, Todo } from "@/types";
+import { addArchivedTotals, getArchivedTodoDelta } from "@/lib/archive";
+import { toDateKey } from "@/lib/dueDates";
+import { getDescendantIds } from "@/lib/goalTree";
+import { syncGoalProgress } from "@/lib/goalProgressSync";
+import {
+    cancelTodoQueries,
+    findCachedTodo,
+    restoreTodoCaches,
+    snapshotTodoCaches,
+    updateCachedTodos,
+} from "@/lib/todoCache";
+
+type ArchiveItemRef = { collection: ArchiveCollection; id: string };
+
+const AUTO_ARCHIVE_STORAGE_KEY = "goals-todo-auto-archive";
+
+// Everything that reads todos or goals changes when items enter or leave the archive
+function refreshAfterArchive(queryClient: QueryClient, uid: string) {
+    queryClient.invalidateQueries({ queryKey: ["todos", uid] });
+    queryClient.invalidateQueries({ queryKey: ["goals", uid] });
+    queryClient.invalidateQueries({ queryKey: ["archive", uid] });
+    queryClient.invalidateQueries({ queryKey: ["archiveCounts", uid] });
+}
+
+export function useArchivedItems<T extends Todo | Goal>(collection: ArchiveCollection, search: string) {
+    const { user } = useAuth();
+
+    return useInfiniteQuery({
+        queryKey: ["archive", user?.uid, collection, search],
+        queryFn: ({ pageParam }) => getArchivedItems<T>(user!.uid, collection, search, pageParam),
+        initialPageParam: null as QueryDocumentSnapshot | null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+        enabled: !!user,
+        staleTime: 30_000,
+        gcTime: 5 * 60_000,
+        refetchOnWindowFocus: false,
+        refetchOnReconnect: false,
+    });
+}
+
+export function useArchiveCounts() {
+    const { user } = useAuth();
+
+    return useQuery({
+        queryKey: ["archiveCounts", user?.uid],
+        queryFn: () => getArchiveCounts(user!.uid),
+        enabled: !!user,
+        staleTime: 30_000,
+        gcTime: 5 * 60_000,
+        refetchOnWindowFocus: false,
+        refetchOnReconnect: false,
+    });
+}
+
+export function useArchiveTodos() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (todoIds: string[]) => archiveTodos(user!.uid, todoIds),
+        meta: { syncTargets: (todoIds: string[]) => todoIds },
+        onMutate: async (todoIds) => {
+            await Promise.all([
+                cancelTodoQueries(queryClient, user!.uid),
+                queryClient.cancelQueries({ queryKey: ["goals", user?.uid] }),
+            ]);
+
+            const previousTodos = snapshotTodoCaches(queryClient, user!.uid);
+            const previousGoals = queryClient.getQueryData<Goal[]>(["goals", user?.uid]);
+            const archived = todoIds
+                .map((todoId) => findCachedTodo(queryClient, user!.uid, todoId))
+                .filter((todo): todo is Todo => !!todo?.isDone);
+            const archivedIds = new Set(archived.map((todo) => todo.id));
+
+            // Goals take over the archived todos in their archived totals and drop them from
+            // their todo totals, so progress does not move
+            updateCachedTodos(queryClient, user!.uid, (old) =>
+                old.filter((todo) => !archivedIds.has(todo.id))
+            );
+            queryClient.setQueryData<Goal[]>(["goals", user?.uid], (old) =>
+                old?.map((goal) =>
+                    archived
+                        .filter((todo) => todo.goalId === goal.id)
+                        .reduce((item, todo) => {
+                            const delta = getArchivedTodoDelta(todo);
+                            return {
+                                ...item,
+                                archivedTodos: addArchivedTotals(item.archivedTodos, delta),
+                                todoTotals: item.todoTotals && {
+                                    total: item.todoTotals.total - delta.count,
+                                    done: item.todoTotals.done - delta.count,
+                                    weight: item.todoTotals.weight - delta.weight,
+                                    completedWeight: item.todoTotals.completedWeight - delta.weight,
+                                },
+                            };
+                        }, goal)
+                )
+            );
+
+            return { previousTodos, previousGoals, goalIds: archived.map((todo) => todo.goalId) };
+        },
+        onError: (err, _todoIds, context) => {
+            console.error("Error archiving todos:", err);
+            if (context?.previousTodos) {
+                restoreTodoCaches(queryClient, context.previousTodos);
+            }
+            if (context?.previousGoals) {
+                queryClient.setQueryData(["goals", user?.uid], context.previousGoals);
+            }
+            toast.error(`Failed to archive: ${(err as Error).message}`);
+        },
+        onSuccess: (count, todoIds, context) => {
+            toast.success(count === 1 ? "Todo archived" : `${count} todos archived`, {
+                action: {
+                    label: "Undo",
+                    onClick: () => {
+                        Promise.all(todoIds.map((todoId) => unarchiveTodo(user!.uid, todoId)))
+                            .then(() => {
+                                refreshAfterArchive(queryClient, user!.uid);
+                                syncGoalProgress(queryClient, user!.uid, context?.goalIds ?? []);
+                            })
+                            .catch(() => toast.error("Failed to unarchive"));
+                    },
+                },
+            });
+        },
+        onSettled: (_count, _err, _todoIds, context) => {
+            refreshAfterArchive(queryClient, user!.uid);
+            // The archived todos leave the goals' recounted todo totals
+            syncGoalProgress(queryClient, user!.uid, context?.goalIds ?? []);
+        },
+    });
+}
+
+export function useArchiveGoal() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (goalId: string) => archiveGoal(user!.uid, goalId),
+        meta: { syncTargets: (goalId: string) => [goalId] },
+        onMutate: async (goalId) => {
+            await Promise.all([
+                queryClient.cancelQueries({ queryKey: ["goals", user?.uid] }),
+                cancelTodoQueries(queryClient, user!.uid),
+            ]);
+
+            const previousGoals = queryClient.getQueryData<Goal[]>(["goals", user?.uid]);
+            const previousTodos = snapshotTodoCaches(queryClient, user!.uid);
+            const goalIds = new Set([goalId, ...getDescendantIds(previousGoals ?? [], goalId)]);
+
+            // Sub-goals and completed todos go with the goal
+            queryClient.setQueryData<Goal[]>(["goals", user?.uid], (old) =>
+                old?.filter((goal) => !goalIds.has(goal.id))
+            );
+            updateCachedTodos(queryClient, user!.uid, (old) =>
+                old.filter((todo) => !(todo.isDone && todo.goalId && goalIds.has(todo.goalId)))
+            );
+
+            return { previousGoals, previousTodos };
+        },
+        onError: (err, _goalId, context) => {
+            console.error("Error archiving goal:", err);
+            if (context?.previousGoals) {
+                queryClient.setQueryData(["goals", user?.uid], context.previousGoals);
+            }
+            if (context?.previousTodos) {
+                restoreTodoCaches(queryClient, context.previousTodos);
+            }
+            toast.error(`Failed to archive goal: ${(err as Error).message}`);
+        },
+        onSuccess: (_goalIds, goalId) => {
+            toast.success("Goal archived", {
+                action: {
+                    label: "Undo",
+                    onClick: () => {
+                        unarchiveGoal(user!.uid, goalId)
+                            .then(() => refreshAfterArchive(queryClient, user!.uid))
+                            .catch(() => toast.error("Failed to unarchive goal"));
+                    },
+                },
+            });
+        },
+        onSettled: () => {
+            refreshAfterArchive(queryClient, user!.uid);
+        },
+    });
+}
+
+export function useUnarchiveItem() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ collection, id }: ArchiveItemRef) =>
+            collection === "todos" ? unarchiveTodo(user!.uid, id) : unarchiveGoal(user!.uid, id),
+        onMutate: async ({ collection, id }) => {
+            const queryKey = ["archive", user?.uid, collection];
+            await queryClient.cancelQueries({ queryKey });
+
+            const previousPages = queryClient.getQueriesData<InfiniteData<Page<Todo | Goal>>>({
+                queryKey,
+            });
+            queryClient.setQueriesData<InfiniteData<Page<Todo | Goal>>>({ queryKey }, (old) =>
+                old
+                    ? {
+                        ...old,
+                        pages: old.pages.map((page) => ({
+                            ...page,
+                            items: page.items.filter((item) => item.id !== id),
+                        })),
+                    }
+                    : old
+            );
+
+            const item = previousPages
+                .flatMap(([, data]) => data?.pages.flatMap((page) => page.items) ?? [])
+                .find((archived) => archived.id === id);
+            const goalId = collection === "todos" ? (item as Todo | undefined)?.goalId : undefined;
+
+            return { previousPages, goalId };
+        },
+        onError: (err, _item, context) => {
+            console.error("Error unarchiving item:", err);
+            context?.previousPages.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+            toast.error(`Failed to unarchive: ${(err as Error).message}`);
+        },
+        onSuccess: (_data, { collection }) => {
+            toast.success(collection === "todos" ? "Todo unarchived" : "Goal unarchived");
+        },
+        onSettled: (_data, _err, _item, context) => {
+            refreshAfterArchive(queryClient, user!.uid);
+            if (context?.goalId) syncGoalProgress(queryClient, user!.uid, [context.goalId]);
+        },
+    });
+}
+
+// Archives items completed more than `autoArchiveDays` ago, at most once a day per browser
+// (or again the same day after the setting changes)
+export function useAutoArchive() {
+    const { user } = useAuth();
+    const { data: preferences } = usePreferences();
+    const queryClient = useQueryClient();
+    const autoArchiveDays = preferences?.autoArchiveDays;
+
+    useEffect(() => {
+        if (!user || !autoArchiveDays) return;
+
+        const runKey = `${toDateKey(new Date())}:${autoArchiveDays}`;
+        const storageKey = `${AUTO_ARCHIVE_STORAGE_KEY}:${user.uid}`;
+        if (localStorage.getItem(storageKey) === runKey) return;
+        localStorage.setItem(storageKey, runKey);
+
+        autoArchive(user.uid, subDays(new Date(), autoArchiveDays))
+            .then((count) => {
+                if (count === 0) return;
+                refreshAfterArchive(queryClient, user.uid);
+                const goals = queryClient.getQueryData<Goal[]>(["goals", user.uid]) ?? [];
+                syncGoalProgress(queryClient, user.uid, goals.map((goal) => goal.id));
+            })
+            .catch((err) => console.error("Error archiving completed items:", err));
+    }, [user, autoArchiveDays, queryClient]);
+}
@@ -0,0 +1,80 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { applyImport, createDocumentId, getBackupData, getGoals } from "@/lib/firestore";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+
+import {
+    createBackup,
+    getBackupFileName,
+    planImport,
+    type BackupData,
+    type ImportMode,
+    type ImportPlan,
+} from "@/lib/backup";
+import { syncGoalProgress } from "@/lib/goalProgressSync";
+import { downloadFile } from "@/lib/utils";
+
+export function useExportBackup() {
+    const { user } = useAuth();
+
+    return useMutation({
+        mutationFn: async () => {
+            const data = await getBackupData(user!.uid);
+            const exportedAt = new Date();
+            downloadFile(
+                getBackupFileName(exportedAt),
+                createBackup(data, exportedAt),
+                "application/json"
+            );
+        },
+        onSuccess: () => {
+            toast.success("Backup downloaded");
+        },
+        onError: (err) => {
+            console.error("Error exporting backup:", err);
+            toast.error(`Failed to export: ${(err as Error).message}`);
+        },
+    });
+}
+
+// Dry run: compares the backup with the account as it is now. The resulting plan is what
+// useImportBackup applies, so the preview matches the import exactly.
+export function usePlanImport() {
+    const { user } = useAuth();
+
+    return useMutation({
+        mutationFn: async ({ backup, mode }: { backup: BackupData; mode: ImportMode }) =>
+            planImport(backup, await getBackupData(user!.uid), mode, (collection) =>
+                createDocumentId(user!.uid, collection)
+            ),
+        onError: (err) => {
+            console.error("Error preparing import:", err);
+            toast.error(`Failed to read your data: ${(err as Error).message}`);
+        },
+    });
+}
+
+export function useImportBackup() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (plan: ImportPlan) => applyImport(user!.uid, plan),
+        onSuccess: () => {
+            toast.success("Backup imported");
+        },
+        onError: (err) => {
+            console.error("Error importing backup:", err);
+            toast.error(`Failed to import: ${(err as Error).message}`);
+        },
+        onSettled: async () => {
+            // Any list can change, and imported goals carry totals counted in another account
+            await queryClient.invalidateQueries();
+            const goals = await queryClient.fetchQuery({
+                queryKey: ["goals", user?.uid],
+                queryFn: () => getGoals(user!.uid),
+            });
+            syncGoalProgress(queryClient, user!.uid, goals.map((goal) => goal.id));
+        },
+    });
+}
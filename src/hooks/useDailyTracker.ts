@@ -1,17 +1,37 @@
+import { useMemo } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { format, endOfMonth, startOfMonth } from "date-fns";
 import {
     addDailyLog,
     addActivity,
+    deleteActivity,
     deleteDailyLog,
     getActivities,
+    getActivityMinutes,
     getDailyLogs,
+    importDailyLogs,
+    mergeActivity,
+    restoreTrashItem,
+    setActivityArchived,
+    updateActivity,
     updateDailyLog,
 } from "@/lib/firestore";
+import { refreshAfterRestore } from "@/hooks/useTrash";
 import { useAuth } from "@/contexts/AuthContext";
 import { toast } from "sonner";
 import { Timestamp } from "firebase/firestore";
-import type { DailyLog } from "@/types";
+import type { Activity, ActivityUpdates, DailyLog } from "@/types";
+import { getGoalIdsTrackingActivity, syncGoalProgress } from "@/lib/goalProgressSync";
+import { buildTargetProgressMap, getTargetRangeForAllPeriods } from "@/lib/activityTargets";
+import {
+    formatLogsCsv,
+    getLogRowsDateRange,
+    getLogsCsvFileName,
+    planLogImport,
+    type LogImportPlan,
+    type LogImportRow,
+} from "@/lib/logCsv";
+import { downloadFile } from "@/lib/utils";
 
 export function useActivities() {
     const { user } = useAuth();
@@ -43,6 +63,269 @@ export function useAddActivity() {
     });
 }
 
+export function useDeleteActivity() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (activityId: string) => deleteActivity(user!.uid, activityId),
+        meta: { syncTargets: (activityId: string) => [activityId] },
+        onMutate: async (activityId) => {
+            await queryClient.cancelQueries({ queryKey: ["activities", user?.uid] });
+
+            const previousActivities = queryClient.getQueryData<Activity[]>([
+                "activities",
+                user?.uid,
+            ]);
+
+            queryClient.setQueryData<Activity[]>(["activities", user?.uid], (old) =>
+                old?.filter((activity) => activity.id !== activityId)
+            );
+
+            return { previousActivities };
+        },
+        onError: (_err, _activityId, context) => {
+            if (context?.previousActivities) {
+                queryClient.setQueryData(["activities", user?.uid], context.previousActivities);
+            }
+            toast.error("Failed to delete activity");
+        },
+        onSuccess: (_data, activityId) => {
+            toast.success("Activity moved to trash", {
+                action: {
+                    label: "Undo",
+                    onClick: () => {
+                        restoreTrashItem(user!.uid, "activities", activityId)
+                            .then(() => refreshAfterRestore(queryClient, user!.uid, "activities", []))
+                            .catch(() => toast.error("Failed to restore activity"));
+                    },
+                },
+            });
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: ["activities", user?.uid] });
+            queryClient.invalidateQueries({ queryKey: ["trash", user?.uid] });
+        },
+    });
+}
+
+export function useUpdateActivity() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ activityId, updates }: { activityId: string; updates: ActivityUpdates }) =>
+            updateActivity(user!.uid, activityId, updates),
+        meta: { syncTargets: ({ activityId }: { activityId: string }) => [activityId] },
+        onMutate: async ({ activityId, updates }) => {
+            await Promise.all([
+                queryClient.cancelQueries({ queryKey: ["activities", user?.uid] }),
+                queryClient.cancelQueries({ queryKey: ["dailyLogs", user?.uid] }),
+            ]);
+
+            const previousActivities = queryClient.getQueryData<Activity[]>([
+                "activities",
+                user?.uid,
+            ]);
+            const previousLogs = queryClient.getQueriesData<DailyLog[]>({
+                queryKey: ["dailyLogs", user?.uid],
+            });
+
+            queryClient.setQueryData<Activity[]>(["activities", user?.uid], (old) =>
+                old?.map((activity) =>
+                    activity.id === activityId ? { ...activity, ...updates } : activity
+                )
+            );
+            const { name } = updates;
+            if (name !== undefined) {
+                queryClient.setQueriesData<DailyLog[]>({ queryKey: ["dailyLogs", user?.uid] }, (old) =>
+                    old?.map((log) =>
+                        log.activityId === activityId ? { ...log, activityName: name } : log
+                    )
+                );
+            }
+
+            return { previousActivities, previousLogs };
+        },
+        onError: (_err, _payload, context) => {
+            if (context?.previousActivities) {
+                queryClient.setQueryData(["activities", user?.uid], context.previousActivities);
+            }
+            context?.previousLogs.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+            toast.error("Failed to update activity");
+        },
+        onSuccess: (_data, { activityId, updates }) => {
+            // Goals following the activity's target move with it
+            if ("target" in updates) {
+                syncGoalProgress(
+                    queryClient,
+                    user!.uid,
+                    getGoalIdsTrackingActivity(queryClient, user!.uid, activityId)
+                );
+            }
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: ["activities", user?.uid] });
+            queryClient.invalidateQueries({ queryKey: ["dailyLogs", user?.uid] });
+        },
+    });
+}
+
+export function useArchiveActivity() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ activityId, isArchived }: { activityId: string; isArchived: boolean }) =>
+            setActivityArchived(user!.uid, activityId, isArchived),
+        meta: { syncTargets: ({ activityId }: { activityId: string }) => [activityId] },
+        onMutate: async ({ activityId, isArchived }) => {
+            await queryClient.cancelQueries({ queryKey: ["activities", user?.uid] });
+
+            const previousActivities = queryClient.getQueryData<Activity[]>([
+                "activities",
+                user?.uid,
+            ]);
+
+            queryClient.setQueryData<Activity[]>(["activities", user?.uid], (old) =>
+                old?.map((activity) =>
+                    activity.id === activityId
+                        ? { ...activity, archivedAt: isArchived ? Timestamp.now() : undefined }
+                        : activity
+                )
+            );
+
+            return { previousActivities };
+        },
+        onError: (_err, _payload, context) => {
+            if (context?.previousActivities) {
+                queryClient.setQueryData(["activities", user?.uid], context.previousActivities);
+            }
+            toast.error("Failed to update activity");
+        },
+        onSuccess: (_data, { isArchived }) => {
+            toast.success(isArchived ? "Activity archived" : "Activity unarchived");
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: ["activities", user?.uid] });
+        },
+    });
+}
+
+// Folds a duplicate activity into another one; see mergeActivity
+export function useMergeActivity() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ sourceId, target }: { sourceId: string; target: Activity }) =>
+            mergeActivity(user!.uid, sourceId, target),
+        meta: {
+            syncTargets: ({ sourceId, target }: { sourceId: string; target: Activity }) => [
+                sourceId,
+                target.id,
+            ],
+        },
+        onMutate: async ({ sourceId, target }) => {
+            await Promise.all([
+                queryClient.cancelQueries({ queryKey: ["activities", user?.uid] }),
+                queryClient.cancelQueries({ queryKey: ["dailyLogs", user?.uid] }),
+            ]);
+
+            const previousActivities = queryClient.getQueryData<Activity[]>([
+                "activities",
+                user?.uid,
+            ]);
+            const previousLogs = queryClient.getQueriesData<DailyLog[]>({
+                queryKey: ["dailyLogs", user?.uid],
+            });
+            // Goals tracking either activity end up tracking the target
+            const goalIds = [
+                ...getGoalIdsTrackingActivity(queryClient, user!.uid, sourceId),
+                ...getGoalIdsTrackingActivity(queryClient, user!.uid, target.id),
+            ];
+
+            queryClient.setQueryData<Activity[]>(["activities", user?.uid], (old) =>
+                old?.filter((activity) => activity.id !== sourceId)
+            );
+            queryClient.setQueriesData<DailyLog[]>({ queryKey: ["dailyLogs", user?.uid] }, (old) =>
+                old?.map((log) =>
+                    log.activityId === sourceId
+                        ? { ...log, activityId: target.id, activityName: target.name }
+                        : log
+                )
+            );
+
+            return { previousActivities, previousLogs, goalIds };
+        },
+        onError: (_err, _payload, context) => {
+            if (context?.previousActivities) {
+                queryClient.setQueryData(["activities", user?.uid], context.previousActivities);
+            }
+            context?.previousLogs.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+            toast.error("Failed to merge activities");
+        },
+        onSuccess: async (_data, { target }, context) => {
+            toast.success(`Merged into ${target.name}`);
+            await queryClient.invalidateQueries({ queryKey: ["goals", user?.uid] });
+            syncGoalProgress(queryClient, user!.uid, context?.goalIds ?? []);
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: ["activities", user?.uid] });
+            queryClient.invalidateQueries({ queryKey: ["dailyLogs", user?.uid] });
+            queryClient.invalidateQueries({ queryKey: ["trackedMinutes", user?.uid] });
+        },
+    });
+}
+
+// Total logged minutes per activity, used by goals in "time" progress mode
+export function useTrackedMinutes(activityIds: string[]) {
+    const { user } = useAuth();
+
+    return useQuery({
+        queryKey: ["trackedMinutes", user?.uid, activityIds],
+        queryFn: async () => {
+            const entries = await Promise.all(
+                activityIds.map(
+                    async (activityId) =>
+                        [activityId, await getActivityMinutes(user!.uid, activityId)] as const
+                )
+            );
+            return Object.fromEntries(entries) as Record<string, number>;
+        },
+        enabled: !!user && activityIds.length > 0,
+        staleTime: 30_000,
+        gcTime: 5 * 60_000,
+        refetchOnWindowFocus: false,
+        refetchOnReconnect: false,
+    });
+}
+
+// Progress of every activity with a time target toward it in the current day, week or
+// month. Keyed under "trackedMinutes" so every change to the logs refreshes it.
+export function useTargetProgress({ enabled = true }: { enabled?: boolean } = {}) {
+    const { user } = useAuth();
+    const { data: activities } = useActivities();
+    const { startDate, endDate } = getTargetRangeForAllPeriods(new Date());
+
+    const { data: logs, isLoading } = useQuery({
+        queryKey: ["trackedMinutes", user?.uid, "targets", startDate, endDate],
+        queryFn: () => getDailyLogs(user!.uid, startDate, endDate),
+        enabled: !!user && enabled,
+        staleTime: 30_000,
+        gcTime: 5 * 60_000,
+        refetchOnWindowFocus: false,
+        refetchOnReconnect: false,
+    });
+
+    const progressMap = useMemo(
+        () => (activities && logs ? buildTargetProgressMap(activities, logs, new Date()) : undefined),
+        [activities, logs]
+    );
+
+    return { progressMap, isLoading };
+}
+
 export function useDailyLogs({ month }: { month: Date }) {
     const { user } = useAuth();
     const monthKey = format(month, "yyyy-MM");
@@ -111,13 +394,18 @@ export function useAddDailyLog() {
             }
             toast.error("Failed to add daily log");
         },
-        onSuccess: (logId, _payload, context) => {
+        onSuccess: (logId, payload, context) => {
             if (!context?.tempId) return;
             queryClient.setQueryData<DailyLog[]>(
                 ["dailyLogs", user?.uid, context.monthKey],
                 (old) =>
                     old?.map((log) => (log.id === context.tempId ? { ...log, id: logId } : log))
             );
+            syncGoalProgress(
+                queryClient,
+                user!.uid,
+                getGoalIdsTrackingActivity(queryClient, user!.uid, payload.activityId)
+            );
             toast.success("Daily log added");
         },
         onSettled: (_data, _err, payload, context) => {
@@ -125,6 +413,7 @@ export function useAddDailyLog() {
             queryClient.invalidateQueries({
                 queryKey: ["dailyLogs", user?.uid, monthKey],
             });
+            queryClient.invalidateQueries({ queryKey: ["trackedMinutes", user?.uid] });
         },
     });
 }
@@ -142,6 +431,7 @@ export function useUpdateDailyLog() {
             date: string;
             updates: Partial<Pick<DailyLog, "durationMinutes" | "notes" | "date">>;
         }) => updateDailyLog(user!.uid, logId, updates),
+        meta: { syncTargets: ({ logId }: { logId: string }) => [logId] },
         onMutate: async ({ logId, updates, date }) => {
             const monthKey = date.slice(0, 7);
             await queryClient.cancelQueries({
@@ -160,7 +450,8 @@ export function useUpdateDailyLog() {
                     old?.map((log) => (log.id === logId ? { ...log, ...updates } : log))
             );
 
-            return { previousLogs, monthKey };
+            const activityId = previousLogs?.find((log) => log.id === logId)?.activityId;
+            return { previousLogs, monthKey, activityId };
         },
         onError: (_err, _payload, context) => {
             if (context?.previousLogs && context.monthKey) {
@@ -171,11 +462,20 @@ export function useUpdateDailyLog() {
             }
             toast.error("Failed to update daily log");
         },
+        onSuccess: (_data, _payload, context) => {
+            if (!context?.activityId) return;
+            syncGoalProgress(
+                queryClient,
+                user!.uid,
+                getGoalIdsTrackingActivity(queryClient, user!.uid, context.activityId)
+            );
+        },
         onSettled: (_data, _err, payload, context) => {
             const monthKey = context?.monthKey ?? payload.date.slice(0, 7);
             queryClient.invalidateQueries({
                 queryKey: ["dailyLogs", user?.uid, monthKey],
             });
+            queryClient.invalidateQueries({ queryKey: ["trackedMinutes", user?.uid] });
         },
     });
 }
@@ -187,6 +487,7 @@ export function useDeleteDailyLog() {
     return useMutation({
         mutationFn: ({ logId }: { logId: string; date: string }) =>
             deleteDailyLog(user!.uid, logId),
+        meta: { syncTargets: ({ logId }: { logId: string }) => [logId] },
         onMutate: async ({ logId, date }) => {
             const monthKey = date.slice(0, 7);
             await queryClient.cancelQueries({
@@ -204,7 +505,8 @@ export function useDeleteDailyLog() {
                 (old) => old?.filter((log) => log.id !== logId)
             );
 
-            return { previousLogs, monthKey };
+            const activityId = previousLogs?.find((log) => log.id === logId)?.activityId;
+            return { previousLogs, monthKey, activityId };
         },
         onError: (_err, _payload, context) => {
             if (context?.previousLogs) {
@@ -215,10 +517,25 @@ export function useDeleteDailyLog() {
             }
             toast.error("Failed to delete daily log");
         },
-        onSuccess: () => {
-            toast.success("Daily log deleted");
+        onSuccess: (_data, { logId }, context) => {
+            const goalIds = context?.activityId
+                ? getGoalIdsTrackingActivity(queryClient, user!.uid, context.activityId)
+                : [];
+            syncGoalProgress(queryClient, user!.uid, goalIds);
+            toast.success("Daily log moved to trash", {
+                action: {
+                    label: "Undo",
+                    onClick: () => {
+                        restoreTrashItem(user!.uid, "dailyLogs", logId)
+                            .then(() => refreshAfterRestore(queryClient, user!.uid, "dailyLogs", goalIds))
+                            .catch(() => toast.error("Failed to restore daily log"));
+                    },
+                },
+            });
         },
         onSettled: (_data, _err, _payload, context) => {
+            queryClient.invalidateQueries({ queryKey: ["trackedMinutes", user?.uid] });
+            queryClient.invalidateQueries({ queryKey: ["trash", user?.uid] });
             if (!context?.monthKey) return;
             queryClient.invalidateQueries({
                 queryKey: ["dailyLogs", user?.uid, context.monthKey],
@@ -226,3 +543,86 @@ export function useDeleteDailyLog() {
         },
     });
 }
+
+// Downloads the logs between two dates (inclusive) as CSV, optionally for one activity
+export function useExportDailyLogs() {
+    const { user } = useAuth();
+
+    return useMutation({
+        mutationFn: async ({
+            startDate,
+            endDate,
+            activityId,
+        }: {
+            startDate: string;
+            endDate: string;
+            activityId?: string;
+        }) => {
+            const logs = await getDailyLogs(user!.uid, startDate, endDate);
+            const selected = activityId ? logs.filter((log) => log.activityId === activityId) : logs;
+            downloadFile(getLogsCsvFileName(startDate, endDate), formatLogsCsv(selected), "text/csv");
+            return selected.length;
+        },
+        onSuccess: (count) => {
+            toast.success(count === 1 ? "1 log exported" : `${count} logs exported`);
+        },
+        onError: (err) => {
+            console.error("Error exporting daily logs:", err);
+            toast.error("Failed to export daily logs");
+        },
+    });
+}
+
+// Dry run of a CSV import: links the rows to activities and marks the ones already logged
+export function usePlanLogImport() {
+    const { user } = useAuth();
+
+    return useMutation({
+        mutationFn: async (rows: LogImportRow[]) => {
+            const range = getLogRowsDateRange(rows);
+            const [existingLogs, activities] = await Promise.all([
+                range ? getDailyLogs(user!.uid, range.startDate, range.endDate) : [],
+                getActivities(user!.uid),
+            ]);
+            return planLogImport(rows, existingLogs, activities);
+        },
+        onError: (err) => {
+            console.error("Error preparing log import:", err);
+            toast.error("Failed to compare with your logs");
+        },
+    });
+}
+
+export function useImportDailyLogs() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (plan: LogImportPlan) =>
+            importDailyLogs(
+                user!.uid,
+                plan.newActivityNames,
+                plan.rows.flatMap((row) => (row.status === "new" ? [row.entry] : []))
+            ),
+        onSuccess: (activityIds, plan) => {
+            syncGoalProgress(
+                queryClient,
+                user!.uid,
+                activityIds.flatMap((activityId) =>
+                    getGoalIdsTrackingActivity(queryClient, user!.uid, activityId)
+                )
+            );
+            const count = plan.rows.filter((row) => row.status === "new").length;
+            toast.success(count === 1 ? "1 log imported" : `${count} logs imported`);
+        },
+        onError: (err) => {
+            console.error("Error importing daily logs:", err);
+            toast.error("Failed to import daily logs");
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: ["activities", user?.uid] });
+            queryClient.invalidateQueries({ queryKey: ["dailyLogs", user?.uid] });
+            queryClient.invalidateQueries({ queryKey: ["trackedMinutes", user?.uid] });
+        },
+    });
+}
@@ -0,0 +1,34 @@
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDueTodos } from "@/hooks/useTodos";
+import { countOverdue, getDueStatus, toDateKey } from "@/lib/dueDates";
+
+const REMINDER_STORAGE_KEY = "goals-todo-due-reminder";
+
+// Shows a single reminder toast per day and account when todos are due today or overdue
+export function useDueReminders() {
+    const { user } = useAuth();
+    const { data: todos } = useDueTodos();
+
+    useEffect(() => {
+        if (!user || !todos) return;
+
+        const todayKey = toDateKey(new Date());
+        const storageKey = `${REMINDER_STORAGE_KEY}:${user.uid}`;
+        if (localStorage.getItem(storageKey) === todayKey) return;
+
+        const overdueCount = countOverdue(todos, todayKey);
+        const dueTodayCount = todos.filter(
+            (todo) => !todo.isDone && getDueStatus(todo, todayKey) === "today"
+        ).length;
+        if (overdueCount === 0 && dueTodayCount === 0) return;
+
+        localStorage.setItem(storageKey, todayKey);
+
+        const parts = [];
+        if (dueTodayCount > 0) parts.push(`${dueTodayCount} due today`);
+        if (overdueCount > 0) parts.push(`${overdueCount} overdue`);
+        toast.warning(`Todo reminder: ${parts.join(", ")}`);
+    }, [user, todos]);
+}
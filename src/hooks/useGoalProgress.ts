@@ -0,0 +1,46 @@
+import { useEffect, useMemo, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { useGoals } from "@/hooks/useGoals";
+import { useTargetProgress, useTrackedMinutes } from "@/hooks/useDailyTracker";
+import { buildGoalProgressMap } from "@/lib/goalProgress";
+import { syncGoalProgress } from "@/lib/goalProgressSync";
+
+// Goal percentages as shown everywhere in the app, whatever each goal's progress mode
+export function useGoalProgress() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+    const { data: goals } = useGoals();
+    const backfilledIds = useRef(new Set<string>());
+
+    const trackedActivityIds = useMemo(() => {
+        if (!goals) return [];
+        const ids = goals
+            .filter((goal) => goal.progressMode === "time" && goal.trackedActivityId)
+            .map((goal) => goal.trackedActivityId!);
+        return [...new Set(ids)].sort();
+    }, [goals]);
+
+    const { data: trackedMinutes } = useTrackedMinutes(trackedActivityIds);
+    const { progressMap: targetProgress } = useTargetProgress({
+        enabled: !!goals?.some((goal) => goal.progressMode === "activityTarget"),
+    });
+
+    // Goals saved before todo totals were stored get them counted once
+    useEffect(() => {
+        if (!user || !goals) return;
+        const missing = goals.filter(
+            (goal) => !goal.todoTotals && goal.progressMode !== "manual" && !backfilledIds.current.has(goal.id)
+        );
+        if (missing.length === 0) return;
+        missing.forEach((goal) => backfilledIds.current.add(goal.id));
+        syncGoalProgress(queryClient, user.uid, missing.map((goal) => goal.id));
+    }, [user, goals, queryClient]);
+
+    const progressMap = useMemo(() => {
+        if (!goals) return {};
+        return buildGoalProgressMap(goals, trackedMinutes, targetProgress);
+    }, [goals, trackedMinutes, targetProgress]);
+
+    return { progressMap, trackedMinutes: trackedMinutes ?? {}, targetProgress: targetProgress ?? {} };
+}
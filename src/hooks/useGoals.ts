@@ -1,11 +1,33 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { getGoals, addGoal, deleteGoal } from "@/lib/firestore";
+import {
+    getGoals,
+    getGoalEvents,
+    getProgressSnapshots,
+    addGoal,
+    updateGoal,
+    deleteGoal,
+    restoreDeletedGoal,
+    updateSortKeys,
+    type DeletedGoalSnapshot,
+} from "@/lib/firestore";
 import { useAuth } from "@/contexts/AuthContext";
+import { syncGoalProgress } from "@/lib/goalProgressSync";
+import { wouldCreateCycle } from "@/lib/goalTree";
+import { applySortKeyUpdates, type SortKeyUpdate } from "@/lib/sortKeys";
+import {
+    cancelTodoQueries,
+    restoreTodoCaches,
+    snapshotTodoCaches,
+    updateCachedTodos,
+} from "@/lib/todoCache";
 import { toast } from "sonner";
 
-import type { Goal } from "@/types";
+import type { Goal, GoalTodoAction, GoalUpdates } from "@/types";
 import { Timestamp } from "firebase/firestore";
 
+// How long the "Goal deleted" toast offers to undo the deletion
+const UNDO_WINDOW_MS = 10_000;
+
 export function useGoals() {
     const { user } = useAuth();
 
@@ -29,13 +51,42 @@ export function useGoals() {
     });
 }
 
+export function useGoalEvents(goalId: string | undefined) {
+    const { user } = useAuth();
+
+    return useQuery({
+        queryKey: ["goalEvents", user?.uid, goalId],
+        queryFn: () => getGoalEvents(user!.uid, goalId!),
+        enabled: !!user && !!goalId,
+        staleTime: 30_000,
+        gcTime: 5 * 60_000,
+        refetchOnWindowFocus: false,
+        refetchOnReconnect: false,
+    });
+}
+
+export function useProgressSnapshots(goalIds: string[], fromDate: string) {
+    const { user } = useAuth();
+
+    return useQuery({
+        queryKey: ["progressSnapshots", user?.uid, fromDate, goalIds],
+        queryFn: () => getProgressSnapshots(user!.uid, goalIds, fromDate),
+        enabled: !!user && goalIds.length > 0,
+        staleTime: 30_000,
+        gcTime: 5 * 60_000,
+        refetchOnWindowFocus: false,
+        refetchOnReconnect: false,
+    });
+}
+
 export function useAddGoal() {
     const { user } = useAuth();
     const queryClient = useQueryClient();
 
     return useMutation({
-        mutationFn: (title: string) => addGoal(user!.uid, title),
-        onMutate: async (newTitle) => {
+        mutationFn: ({ title, parentGoalId }: { title: string; parentGoalId?: string }) =>
+            addGoal(user!.uid, title, parentGoalId),
+        onMutate: async ({ title, parentGoalId }) => {
             await queryClient.cancelQueries({ queryKey: ["goals", user?.uid] });
 
             const previousGoals = queryClient.getQueryData<Goal[]>(["goals", user?.uid]);
@@ -44,8 +95,9 @@ export function useAddGoal() {
             queryClient.setQueryData<Goal[]>(["goals", user?.uid], (old) => {
                 const newGoal: Goal = {
                     id: tempId,
-                    title: newTitle,
+                    title,
                     currentPercent: 0,
+                    parentGoalId,
                     createdAt: Timestamp.now(),
                 };
                 return old ? [newGoal, ...old] : [newGoal];
@@ -53,19 +105,21 @@ export function useAddGoal() {
 
             return { previousGoals, tempId };
         },
-        onError: (err, _newTitle, context) => {
+        onError: (err, _variables, context) => {
             console.error("Error creating goal:", err); // Log the full error
             if (context?.previousGoals) {
                 queryClient.setQueryData(["goals", user?.uid], context.previousGoals);
             }
             toast.error(`Failed to create goal: ${(err as Error).message}`);
         },
-        onSuccess: (goalId, _newTitle, context) => {
+        onSuccess: (goalId, variables, context) => {
             if (context?.tempId) {
                 queryClient.setQueryData<Goal[]>(["goals", user?.uid], (old) =>
                     old?.map((goal) => (goal.id === context.tempId ? { ...goal, id: goalId } : goal))
                 );
             }
+            // A new empty sub-goal changes a "weighted" parent's average
+            syncGoalProgress(queryClient, user!.uid, [variables.parentGoalId]);
             toast.success("Goal created successfully!");
         },
         onSettled: () => {
@@ -74,32 +128,166 @@ export function useAddGoal() {
     });
 }
 
-export function useDeleteGoal() {
+export function useUpdateGoal() {
     const { user } = useAuth();
     const queryClient = useQueryClient();
 
     return useMutation({
-        mutationFn: (goalId: string) => deleteGoal(user!.uid, goalId),
-        onMutate: async (goalId) => {
+        mutationFn: ({ goalId, updates }: { goalId: string; updates: GoalUpdates }) =>
+            updateGoal(user!.uid, goalId, updates),
+        meta: { syncTargets: ({ goalId }: { goalId: string }) => [goalId] },
+        onMutate: async ({ goalId, updates }) => {
             await queryClient.cancelQueries({ queryKey: ["goals", user?.uid] });
 
             const previousGoals = queryClient.getQueryData<Goal[]>(["goals", user?.uid]);
+            if (
+                updates.parentGoalId &&
+                previousGoals &&
+                wouldCreateCycle(previousGoals, goalId, updates.parentGoalId)
+            ) {
+                throw new Error("A goal cannot be nested under one of its own sub-goals");
+            }
+            const previousParentId = previousGoals?.find((goal) => goal.id === goalId)?.parentGoalId;
 
             queryClient.setQueryData<Goal[]>(["goals", user?.uid], (old) =>
-                old?.filter((goal) => goal.id !== goalId)
+                old?.map((goal) => (goal.id === goalId ? { ...goal, ...updates } : goal))
             );
 
-            return { previousGoals };
+            return { previousGoals, previousParentId };
+        },
+        onError: (err, _variables, context) => {
+            console.error("Error updating goal:", err); // Log the full error
+            if (context?.previousGoals) {
+                queryClient.setQueryData(["goals", user?.uid], context.previousGoals);
+            }
+            toast.error(`Failed to update goal: ${(err as Error).message}`);
+        },
+        onSuccess: (_data, variables, context) => {
+            syncGoalProgress(queryClient, user!.uid, [
+                variables.goalId,
+                context?.previousParentId,
+            ]);
+            toast.success("Goal updated");
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: ["goals", user?.uid] });
+        },
+    });
+}
+
+export function useDeleteGoal() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    // `resyncGoalIds` are the goals the delete changed: the old parent and a "move" target
+    const undoDelete = (snapshot: DeletedGoalSnapshot, resyncGoalIds: (string | undefined)[]) => {
+        void restoreDeletedGoal(user!.uid, snapshot)
+            .then(async () => {
+                await Promise.all([
+                    queryClient.invalidateQueries({ queryKey: ["goals", user?.uid] }),
+                    queryClient.invalidateQueries({ queryKey: ["todos", user?.uid] }),
+                ]);
+                syncGoalProgress(queryClient, user!.uid, [snapshot.goal.id, ...resyncGoalIds]);
+                toast.success("Goal restored");
+            })
+            .catch((err) => {
+                console.error("Error restoring goal:", err);
+                toast.error(`Failed to restore goal: ${(err as Error).message}`);
+            });
+    };
+
+    return useMutation({
+        mutationFn: ({ goalId, todoAction }: { goalId: string; todoAction: GoalTodoAction }) =>
+            deleteGoal(user!.uid, goalId, todoAction),
+        meta: { syncTargets: ({ goalId }: { goalId: string }) => [goalId] },
+        onMutate: async ({ goalId, todoAction }) => {
+            await Promise.all([
+                queryClient.cancelQueries({ queryKey: ["goals", user?.uid] }),
+                cancelTodoQueries(queryClient, user!.uid),
+            ]);
+
+            const previousGoals = queryClient.getQueryData<Goal[]>(["goals", user?.uid]);
+            const previousTodos = snapshotTodoCaches(queryClient, user!.uid);
+            const parentGoalId = previousGoals?.find((goal) => goal.id === goalId)?.parentGoalId;
+
+            // Sub-goals move up to the deleted goal's parent
+            queryClient.setQueryData<Goal[]>(["goals", user?.uid], (old) =>
+                old
+                    ?.filter((goal) => goal.id !== goalId)
+                    .map((goal) => (goal.parentGoalId === goalId ? { ...goal, parentGoalId } : goal))
+            );
+
+            updateCachedTodos(queryClient, user!.uid, (old) => {
+                if (todoAction.type === "delete") {
+                    return old.filter((todo) => todo.goalId !== goalId);
+                }
+                const nextGoalId = todoAction.type === "move" ? todoAction.targetGoalId : undefined;
+                return old.map((todo) =>
+                    todo.goalId === goalId ? { ...todo, goalId: nextGoalId } : todo
+                );
+            });
+
+            return { previousGoals, previousTodos, parentGoalId };
         },
         onError: (err, _variables, context) => {
             console.error("Error deleting goal:", err); // Log the full error
             if (context?.previousGoals) {
                 queryClient.setQueryData(["goals", user?.uid], context.previousGoals);
             }
+            if (context?.previousTodos) {
+                restoreTodoCaches(queryClient, context.previousTodos);
+            }
             toast.error(`Failed to delete goal: ${(err as Error).message}`);
         },
-        onSuccess: () => {
-            toast.success("Goal deleted");
+        onSuccess: (snapshot, { todoAction }, context) => {
+            const changedGoalIds = [
+                context?.parentGoalId,
+                todoAction.type === "move" ? todoAction.targetGoalId : undefined,
+            ];
+            syncGoalProgress(queryClient, user!.uid, changedGoalIds);
+
+            // Undo also puts sub-goals and todos back the way they were, which restoring
+            // from the trash later does not
+            toast.success("Goal moved to trash", {
+                duration: UNDO_WINDOW_MS,
+                action: {
+                    label: "Undo",
+                    onClick: () => undoDelete(snapshot, changedGoalIds),
+                },
+            });
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: ["goals", user?.uid] });
+            queryClient.invalidateQueries({ queryKey: ["todos", user?.uid] });
+            queryClient.invalidateQueries({ queryKey: ["trash", user?.uid] });
+        },
+    });
+}
+
+export function useReorderGoals() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (updates: SortKeyUpdate[]) => updateSortKeys(user!.uid, "goals", updates),
+        meta: { syncTargets: (updates: SortKeyUpdate[]) => updates.map((update) => update.id) },
+        onMutate: async (updates) => {
+            await queryClient.cancelQueries({ queryKey: ["goals", user?.uid] });
+
+            const previousGoals = queryClient.getQueryData<Goal[]>(["goals", user?.uid]);
+
+            queryClient.setQueryData<Goal[]>(["goals", user?.uid], (old) =>
+                old ? applySortKeyUpdates(old, updates) : old
+            );
+
+            return { previousGoals };
+        },
+        onError: (err, _variables, context) => {
+            console.error("Error reordering goals:", err);
+            if (context?.previousGoals) {
+                queryClient.setQueryData(["goals", user?.uid], context.previousGoals);
+            }
+            toast.error(`Failed to reorder goals: ${(err as Error).message}`);
         },
         onSettled: () => {
             queryClient.invalidateQueries({ queryKey: ["goals", user?.uid] });
@@ -0,0 +1,19 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { startLiveSync, type LiveStatus } from "@/lib/liveSync";
+
+// Streams Firestore changes into the query cache while signed in; returns the connection
+// state for the live indicator
+export function useLiveSync(): LiveStatus {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+    const [status, setStatus] = useState<LiveStatus>("reconnecting");
+
+    useEffect(() => {
+        if (!user) return;
+        return startLiveSync(queryClient, user.uid, setStatus);
+    }, [user, queryClient]);
+
+    return status;
+}
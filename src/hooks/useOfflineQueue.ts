@@ -0,0 +1,45 @@
+import { useEffect, useMemo, useSyncExternalStore } from "react";
+import { onlineManager, useIsMutating, useMutationState } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { getPendingIds, subscribeToConflicts, type SyncConflict } from "@/lib/offlineQueue";
+
+export function useIsOnline(): boolean {
+    return useSyncExternalStore(
+        (onChange) => onlineManager.subscribe(onChange),
+        () => onlineManager.isOnline()
+    );
+}
+
+// Number of changes waiting for the connection
+export function useQueuedChangeCount(): number {
+    return useIsMutating({ predicate: (mutation) => mutation.state.isPaused });
+}
+
+// Ids of the todos, goals, activities and logs with changes waiting for the connection
+export function usePendingSyncIds(): Set<string> {
+    const pendingIds = useMutationState({
+        filters: { predicate: (mutation) => mutation.state.isPaused },
+        select: getPendingIds,
+    });
+    return useMemo(() => new Set(pendingIds.flat()), [pendingIds]);
+}
+
+// Tells the user when queued changes met documents that were edited, trashed or deleted elsewhere
+const CONFLICT_MESSAGES: Record<SyncConflict["type"], (title: string) => string> = {
+    deleted: (title) => `"${title}" was deleted on another device, so your offline change to it was not saved`,
+    trashed: (title) =>
+        `"${title}" was moved to the trash on another device; your offline change was saved and is kept there`,
+    changed: (title) => `"${title}" was changed on another device while you were offline; your change replaced it`,
+};
+
+export function useSyncConflicts() {
+    useEffect(
+        () =>
+            subscribeToConflicts((conflicts) => {
+                conflicts.forEach((conflict) => {
+                    toast.warning(CONFLICT_MESSAGES[conflict.type](conflict.title), { duration: 10_000 });
+                });
+            }),
+        []
+    );
+}
@@ -0,0 +1,126 @@
+import { useEffect, useState } from "react";
+import { eachDayOfInterval, isSameMonth, subDays } from "date-fns";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+
+import { useAddDailyLog, useDailyLogs } from "@/hooks/useDailyTracker";
+import { usePreferences } from "@/hooks/usePreferences";
+import { useToggleTodo } from "@/hooks/useTodos";
+import { toDateKey } from "@/lib/dueDates";
+import {
+    DEFAULT_POMODORO_SETTINGS,
+    FOCUS_PHASE_LABELS,
+    countPomodorosByDate,
+    getNextFocusPhase,
+    getRemainingMs,
+    pauseFocusSession,
+    resumeFocusSession,
+    startFocusSession,
+    type FocusSession,
+    type FocusTarget,
+} from "@/lib/pomodoro";
+import type { PomodoroSettings } from "@/types";
+
+const FOCUS_SESSION_STORAGE_KEY = "goals-todo-focus-session";
+
+export function usePomodoroSettings(): PomodoroSettings {
+    const { data: preferences } = usePreferences();
+    return preferences?.pomodoro ?? DEFAULT_POMODORO_SETTINGS;
+}
+
+function readFocusSession(storageKey: string): FocusSession | null {
+    try {
+        const saved = localStorage.getItem(storageKey);
+        return saved ? (JSON.parse(saved) as FocusSession) : null;
+    } catch {
+        return null;
+    }
+}
+
+// The focus mode session on this device. While the focus view is open it moves through the
+// work and break phases on its own, logging each finished work interval as a pomodoro; a
+// phase that ended while the view was closed is completed when it opens again.
+export function useFocusSession() {
+    const { user } = useAuth();
+    const storageKey = `${FOCUS_SESSION_STORAGE_KEY}:${user?.uid}`;
+    const settings = usePomodoroSettings();
+    const { mutate: addDailyLog } = useAddDailyLog();
+    const { mutate: toggleTodo } = useToggleTodo();
+    const [session, setSessionState] = useState(() => readFocusSession(storageKey));
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        if (!session || session.endsAt === null) return;
+        const { endsAt } = session;
+
+        const interval = setInterval(() => {
+            const current = Date.now();
+            setNow(current);
+            if (current < endsAt) return;
+
+            if (session.phase === "work") {
+                addDailyLog({
+                    activityId: session.activityId,
+                    activityName: session.activityName,
+                    date: toDateKey(new Date(endsAt)),
+                    durationMinutes: session.phaseMinutes,
+                    isPomodoro: true,
+                    ...(session.todoTitle ? { notes: session.todoTitle } : {}),
+                });
+            }
+            const next = getNextFocusPhase(session, settings, current, true);
+            localStorage.setItem(storageKey, JSON.stringify(next));
+            setSessionState(next);
+            toast.info(`${FOCUS_PHASE_LABELS[next.phase]}: ${next.phaseMinutes} minutes`);
+        }, 1000);
+        return () => clearInterval(interval);
+    }, [session, settings, storageKey, addDailyLog]);
+
+    const setSession = (next: FocusSession | null) => {
+        if (next) {
+            localStorage.setItem(storageKey, JSON.stringify(next));
+        } else {
+            localStorage.removeItem(storageKey);
+        }
+        setSessionState(next);
+        setNow(Date.now());
+    };
+
+    return {
+        session,
+        settings,
+        remainingMs: session ? getRemainingMs(session, now) : 0,
+        start: (target: FocusTarget) => setSession(startFocusSession(target, settings, Date.now())),
+        pause: () => session && setSession(pauseFocusSession(session, Date.now())),
+        resume: () => session && setSession(resumeFocusSession(session, Date.now())),
+        // Moves on without logging the current phase
+        skip: () => session && setSession(getNextFocusPhase(session, settings, Date.now(), false)),
+        end: ({ completeTodo }: { completeTodo: boolean }) => {
+            if (completeTodo && session?.todoId) toggleTodo({ todoId: session.todoId, isDone: true });
+            setSession(null);
+        },
+    };
+}
+
+// Pomodoros per day for the last `days` days (at most 28, so two months of logs cover them),
+// oldest first
+export function usePomodoroCounts(days: number) {
+    const today = new Date();
+    const firstDay = subDays(today, days - 1);
+    const { data: currentLogs, isLoading } = useDailyLogs({ month: today });
+    const { data: earlierLogs, isLoading: isEarlierLoading } = useDailyLogs({ month: firstDay });
+
+    // Both queries are the same one when the range stays within this month
+    const logs = isSameMonth(today, firstDay)
+        ? (currentLogs ?? [])
+        : [...(earlierLogs ?? []), ...(currentLogs ?? [])];
+    const counts = countPomodorosByDate(logs);
+
+    return {
+        data: eachDayOfInterval({ start: firstDay, end: today }).map((day) => ({
+            date: toDateKey(day),
+            count: counts[toDateKey(day)] ?? 0,
+        })),
+        isLoading: isLoading || isEarlierLoading,
+    };
+}
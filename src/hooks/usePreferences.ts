@@ -0,0 +1,54 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { getPreferences, updatePreferences } from "@/lib/firestore";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+
+import type { UserPreferences } from "@/types";
+
+export function usePreferences() {
+    const { user } = useAuth();
+
+    return useQuery({
+        queryKey: ["preferences", user?.uid],
+        queryFn: () => getPreferences(user!.uid),
+        enabled: !!user,
+        staleTime: 30_000,
+        gcTime: 5 * 60_000,
+        refetchOnWindowFocus: false,
+        refetchOnReconnect: false,
+    });
+}
+
+export function useUpdatePreferences() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (updates: Partial<UserPreferences>) => updatePreferences(user!.uid, updates),
+        onMutate: async (updates) => {
+            await queryClient.cancelQueries({ queryKey: ["preferences", user?.uid] });
+
+            const previousPreferences = queryClient.getQueryData<UserPreferences>([
+                "preferences",
+                user?.uid,
+            ]);
+
+            queryClient.setQueryData<UserPreferences>(["preferences", user?.uid], (old) => ({
+                ...old,
+                ...updates,
+            }));
+
+            return { previousPreferences };
+        },
+        onError: (err, _variables, context) => {
+            console.error("Error saving preferences:", err);
+            if (context?.previousPreferences) {
+                queryClient.setQueryData(["preferences", user?.uid], context.previousPreferences);
+            }
+            toast.error(`Failed to save preferences: ${(err as Error).message}`);
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: ["preferences", user?.uid] });
+        },
+    });
+}
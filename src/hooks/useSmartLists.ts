@@ -0,0 +1,95 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { getSmartLists, addSmartList, deleteSmartList } from "@/lib/firestore";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+
+import type { SmartList, TodoFilter } from "@/types";
+import { Timestamp } from "firebase/firestore";
+
+export function useSmartLists() {
+    const { user } = useAuth();
+
+    return useQuery({
+        queryKey: ["smartLists", user?.uid],
+        queryFn: () => getSmartLists(user!.uid),
+        enabled: !!user,
+        staleTime: 30_000,
+        gcTime: 5 * 60_000,
+        refetchOnWindowFocus: false,
+        refetchOnReconnect: false,
+    });
+}
+
+export function useAddSmartList() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ name, filter }: { name: string; filter: TodoFilter }) =>
+            addSmartList(user!.uid, name, filter),
+        onMutate: async ({ name, filter }) => {
+            await queryClient.cancelQueries({ queryKey: ["smartLists", user?.uid] });
+
+            const previousLists = queryClient.getQueryData<SmartList[]>(["smartLists", user?.uid]);
+            const tempId = crypto.randomUUID();
+
+            queryClient.setQueryData<SmartList[]>(["smartLists", user?.uid], (old) => {
+                const newList: SmartList = { id: tempId, name, filter, createdAt: Timestamp.now() };
+                return old ? [...old, newList] : [newList];
+            });
+
+            return { previousLists, tempId };
+        },
+        onError: (err, _variables, context) => {
+            console.error("Error saving smart list:", err);
+            if (context?.previousLists) {
+                queryClient.setQueryData(["smartLists", user?.uid], context.previousLists);
+            }
+            toast.error(`Failed to save smart list: ${(err as Error).message}`);
+        },
+        onSuccess: (listId, _variables, context) => {
+            if (context?.tempId) {
+                queryClient.setQueryData<SmartList[]>(["smartLists", user?.uid], (old) =>
+                    old?.map((list) => (list.id === context.tempId ? { ...list, id: listId } : list))
+                );
+            }
+            toast.success("Smart list saved");
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: ["smartLists", user?.uid] });
+        },
+    });
+}
+
+export function useDeleteSmartList() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (listId: string) => deleteSmartList(user!.uid, listId),
+        onMutate: async (listId) => {
+            await queryClient.cancelQueries({ queryKey: ["smartLists", user?.uid] });
+
+            const previousLists = queryClient.getQueryData<SmartList[]>(["smartLists", user?.uid]);
+
+            queryClient.setQueryData<SmartList[]>(["smartLists", user?.uid], (old) =>
+                old?.filter((list) => list.id !== listId)
+            );
+
+            return { previousLists };
+        },
+        onError: (err, _variables, context) => {
+            console.error("Error deleting smart list:", err);
+            if (context?.previousLists) {
+                queryClient.setQueryData(["smartLists", user?.uid], context.previousLists);
+            }
+            toast.error(`Failed to delete smart list: ${(err as Error).message}`);
+        },
+        onSuccess: () => {
+            toast.success("Smart list deleted");
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: ["smartLists", user?.uid] });
+        },
+    });
+}
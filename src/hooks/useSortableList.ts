@@ -0,0 +1,90 @@
+import { useRef, type DragEvent, type KeyboardEvent } from "react";
+
+// Native drag-and-drop plus keyboard reordering for a vertical list. Rows spread
+// getItemProps, drag handles spread getHandleProps; `ids` is the row's sibling list in
+// display order and `onMove` receives the id and its new index within that list.
+// While a handle is focused, ArrowUp/ArrowDown move the row by one position.
+//
+// Drag state lives in a ref and is reflected through data attributes
+// (data-dragging / data-drag-over on the row) instead of React state, so hovering during
+// a drag does not re-render the whole list.
+export function useSortableList(onMove: (id: string, toIndex: number, ids: string[]) => void) {
+    const draggingIdRef = useRef<string | null>(null);
+
+    const move = (id: string, toIndex: number, ids: string[]) => {
+        const fromIndex = ids.indexOf(id);
+        if (fromIndex === -1 || toIndex < 0 || toIndex >= ids.length || toIndex === fromIndex) return;
+        onMove(id, toIndex, ids);
+    };
+
+    const clearDragState = () => {
+        draggingIdRef.current = null;
+        document
+            .querySelectorAll<HTMLElement>("[data-drag-over], [data-dragging]")
+            .forEach((element) => {
+                delete element.dataset.dragOver;
+                delete element.dataset.dragging;
+            });
+    };
+
+    // Rows may remount after a move, so focus is restored on the handle by id
+    const refocusHandle = (id: string) => {
+        requestAnimationFrame(() => {
+            document
+                .querySelector<HTMLElement>(`[data-sort-handle="${CSS.escape(id)}"]`)
+                ?.focus();
+        });
+    };
+
+    const getItemProps = (id: string, ids: string[]) => ({
+        "data-sortable-id": id,
+        onDragOver: (event: DragEvent<HTMLElement>) => {
+            const draggingId = draggingIdRef.current;
+            if (!draggingId || !ids.includes(draggingId)) return;
+            event.preventDefault();
+            event.dataTransfer.dropEffect = "move";
+            if (draggingId !== id) event.currentTarget.dataset.dragOver = "true";
+        },
+        onDragLeave: (event: DragEvent<HTMLElement>) => {
+            if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+                delete event.currentTarget.dataset.dragOver;
+            }
+        },
+        onDrop: (event: DragEvent<HTMLElement>) => {
+            const draggingId = draggingIdRef.current;
+            if (!draggingId || !ids.includes(draggingId)) return;
+            event.preventDefault();
+            event.stopPropagation();
+            clearDragState();
+            move(draggingId, ids.indexOf(id), ids);
+        },
+    });
+
+    const getHandleProps = (id: string, ids: string[]) => ({
+        "data-sort-handle": id,
+        draggable: true,
+        role: "button",
+        tabIndex: 0,
+        "aria-label": "Drag to reorder, or use the arrow keys",
+        onDragStart: (event: DragEvent<HTMLElement>) => {
+            event.stopPropagation();
+            event.dataTransfer.effectAllowed = "move";
+            event.dataTransfer.setData("text/plain", id);
+            const row = event.currentTarget.closest<HTMLElement>("[data-sortable-id]");
+            if (row) {
+                event.dataTransfer.setDragImage(row, 16, 16);
+                row.dataset.dragging = "true";
+            }
+            draggingIdRef.current = id;
+        },
+        onDragEnd: clearDragState,
+        onKeyDown: (event: KeyboardEvent<HTMLElement>) => {
+            if (event.key !== "ArrowUp" && event.key !== "ArrowDown") return;
+            event.preventDefault();
+            move(id, ids.indexOf(id) + (event.key === "ArrowUp" ? -1 : 1), ids);
+            refocusHandle(id);
+        },
+    });
+
+    return { getItemProps, getHandleProps };
+}
@@ -0,0 +1,91 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { getTimer, saveTimer } from "@/lib/firestore";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+
+import { useAddDailyLog } from "@/hooks/useDailyTracker";
+import { getElapsedMs, splitTimerByDay } from "@/lib/timer";
+import type { ActivityTimer } from "@/types";
+
+export function useActivityTimer() {
+    const { user } = useAuth();
+
+    return useQuery({
+        queryKey: ["timer", user?.uid],
+        queryFn: () => getTimer(user!.uid),
+        enabled: !!user,
+        staleTime: 30_000,
+        gcTime: 5 * 60_000,
+        refetchOnWindowFocus: false,
+        refetchOnReconnect: false,
+    });
+}
+
+// Starts, pauses and resumes the timer; null discards it
+export function useSaveTimer() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (timer: ActivityTimer | null) => saveTimer(user!.uid, timer),
+        onMutate: async (timer) => {
+            await queryClient.cancelQueries({ queryKey: ["timer", user?.uid] });
+
+            const previousTimer = queryClient.getQueryData<ActivityTimer | null>(["timer", user?.uid]);
+            queryClient.setQueryData(["timer", user?.uid], timer);
+
+            return { previousTimer };
+        },
+        onError: (err, _timer, context) => {
+            console.error("Error saving timer:", err);
+            if (context) {
+                queryClient.setQueryData(["timer", user?.uid], context.previousTimer);
+            }
+            toast.error(`Failed to save timer: ${(err as Error).message}`);
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: ["timer", user?.uid] });
+        },
+    });
+}
+
+// Clears the timer and logs its time, one log per date it ran on. The logs are added
+// alongside clearing rather than after it, so both are queued together while offline.
+export function useStopTimer() {
+    const saveTimer = useSaveTimer();
+    const addDailyLog = useAddDailyLog();
+
+    const stop = (timer: ActivityTimer) => {
+        const parts = splitTimerByDay(timer, new Date());
+        saveTimer.mutate(null);
+        if (parts.length === 0) {
+            toast.info("Timer stopped before a full minute, so nothing was logged");
+            return;
+        }
+        for (const part of parts) {
+            addDailyLog.mutate({
+                activityId: timer.activityId,
+                activityName: timer.activityName,
+                date: part.date,
+                durationMinutes: part.minutes,
+            });
+        }
+    };
+
+    return { stop, isPending: saveTimer.isPending };
+}
+
+// Time on the timer, updated every second while it runs
+export function useTimerElapsed(timer: ActivityTimer | null | undefined): number {
+    const [now, setNow] = useState(() => Date.now());
+    const isRunning = !!timer?.runningSince;
+
+    useEffect(() => {
+        if (!isRunning) return;
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [isRunning]);
+
+    return timer ? getElapsedMs(timer, new Date(now)) : 0;
+}
@@ -1,32 +1,69 @@
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import {
-  getTodos,
+  useInfiniteQuery,
+  useMutation,
+  useQueries,
+  useQuery,
+  useQueryClient,
+  type QueryClient,
+} from "@tanstack/react-query";
+import {
+  getTodosPage,
+  getGoalTodos,
+  getDueTodos,
+  getTodoCounts,
   addTodo,
   addTodosBulk,
   toggleTodo,
+  completeRecurringTodo,
+  updateTodo,
   deleteTodo,
-  updateGoalProgress,
+  addGoalEvents,
+  updateSortKeys,
+  restoreTrashItem,
 } from "@/lib/firestore";
 import { useAuth } from "@/contexts/AuthContext";
 import { toast } from "sonner";
 
-import type { Todo } from "@/types";
-import { Timestamp } from "firebase/firestore";
-
-function calculateGoalPercent(todos: Todo[] | undefined, goalId?: string) {
-  if (!todos || !goalId) return null;
-  const goalTodos = todos.filter((todo) => todo.goalId === goalId);
-  if (goalTodos.length === 0) return 0;
-  const doneCount = goalTodos.filter((todo) => todo.isDone).length;
-  return Math.round((doneCount / goalTodos.length) * 100);
+import type { GoalEventInput, Todo, TodoInput, TodoStatus, TodoUpdates } from "@/types";
+import { Timestamp, type QueryDocumentSnapshot } from "firebase/firestore";
+import { format, parseISO } from "date-fns";
+import { syncGoalProgress } from "@/lib/goalProgressSync";
+import { applySortKeyUpdates, type SortKeyUpdate } from "@/lib/sortKeys";
+import { refreshAfterRestore } from "@/hooks/useTrash";
+import { toDateKey } from "@/lib/dueDates";
+import {
+  cancelTodoQueries,
+  findCachedTodo,
+  restoreTodoCaches,
+  snapshotTodoCaches,
+  updateCachedTodos,
+} from "@/lib/todoCache";
+
+type TodoEvent = Omit<GoalEventInput, "goalId"> & { goalId?: string };
+
+// Appends entries to the timelines of the goals the affected todos are linked to
+function recordGoalEvents(queryClient: QueryClient, uid: string, events: TodoEvent[]) {
+  const goalEvents = events.filter((event): event is GoalEventInput => !!event.goalId);
+  if (goalEvents.length === 0) return;
+
+  void addGoalEvents(uid, goalEvents).then(() =>
+    queryClient.invalidateQueries({ queryKey: ["goalEvents", uid] })
+  );
 }
 
+// Data sanitization (prevents weird truthy/falsey bugs)
+const sanitizeTodo = (todo: Todo): Todo => ({ ...todo, isDone: Boolean(todo.isDone) });
+
+// The todo list, newest first, loaded a page at a time. `data` is the flat list of
+// loaded todos; call fetchNextPage while hasNextPage to load more.
 export function useTodos() {
   const { user } = useAuth();
 
-  return useQuery({
+  return useInfiniteQuery({
     queryKey: ["todos", user?.uid],
-    queryFn: () => getTodos(user!.uid),
+    queryFn: ({ pageParam }) => getTodosPage(user!.uid, pageParam),
+    initialPageParam: null as QueryDocumentSnapshot | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: !!user,
 
     // Performance-friendly defaults
@@ -35,12 +72,73 @@ export function useTodos() {
     refetchOnWindowFocus: false,
     refetchOnReconnect: false,
 
-    // Data sanitization (prevents weird truthy/falsey bugs)
-    select: (todos) =>
-      todos.map((todo) => ({
-        ...todo,
-        isDone: Boolean(todo.isDone),
-      })),
+    select: (data) => data.pages.flatMap((page) => page.items.map(sanitizeTodo)),
+  });
+}
+
+// Every todo linked to a goal, including ones beyond the loaded pages of the list
+export function useGoalTodos(goalId: string | undefined) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["todos", user?.uid, "goal", goalId],
+    queryFn: () => getGoalTodos(user!.uid, goalId!),
+    enabled: !!user && !!goalId,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: false,
+    select: (todos) => todos.map(sanitizeTodo),
+  });
+}
+
+// The todos of several goals at once, sharing their caches with useGoalTodos
+export function useLinkedTodos(goalIds: string[]) {
+  const { user } = useAuth();
+
+  return useQueries({
+    queries: goalIds.map((goalId) => ({
+      queryKey: ["todos", user?.uid, "goal", goalId],
+      queryFn: () => getGoalTodos(user!.uid, goalId),
+      enabled: !!user,
+      staleTime: 30_000,
+      gcTime: 5 * 60_000,
+      refetchOnWindowFocus: false,
+      refetchOnReconnect: false,
+    })),
+    combine: (results) => results.flatMap((result) => (result.data ?? []).map(sanitizeTodo)),
+  });
+}
+
+// Open todos due today or earlier, for reminders and overdue counts
+export function useDueTodos() {
+  const { user } = useAuth();
+  const todayKey = toDateKey(new Date());
+
+  return useQuery({
+    queryKey: ["todos", user?.uid, "due", todayKey],
+    queryFn: () => getDueTodos(user!.uid, todayKey),
+    enabled: !!user,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: false,
+    select: (todos) => todos.map(sanitizeTodo),
+  });
+}
+
+// Server-side totals across all todos, loaded or not
+export function useTodoCounts() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["todos", user?.uid, "counts"],
+    queryFn: () => getTodoCounts(user!.uid),
+    enabled: !!user,
+    staleTime: 30_000,
+    gcTime: 5 * 60_000,
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: false,
   });
 }
 
@@ -49,24 +147,23 @@ export function useAddTodo() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ title, goalId }: { title: string; goalId?: string }) =>
-      addTodo(user!.uid, title, goalId),
+    mutationFn: (input: TodoInput) => addTodo(user!.uid, input),
 
-    onMutate: async ({ title, goalId }) => {
-      await queryClient.cancelQueries({ queryKey: ["todos", user?.uid] });
+    onMutate: async (input) => {
+      await cancelTodoQueries(queryClient, user!.uid);
 
-      const previousTodos = queryClient.getQueryData<Todo[]>(["todos", user?.uid]);
+      const previousTodos = snapshotTodoCaches(queryClient, user!.uid);
       const tempId = crypto.randomUUID();
 
-      queryClient.setQueryData<Todo[]>(["todos", user?.uid], (old) => {
+      updateCachedTodos(queryClient, user!.uid, (old) => {
         const newTodo: Todo = {
           id: tempId,
-          title,
+          ...input,
           isDone: false,
-          goalId,
+          status: "backlog",
           createdAt: Timestamp.now(),
         };
-        return old ? [newTodo, ...old] : [newTodo];
+        return [newTodo, ...old];
       });
 
       return { previousTodos, tempId };
@@ -74,7 +171,7 @@ export function useAddTodo() {
 
     onError: (_err, _variables, context) => {
       if (context?.previousTodos) {
-        queryClient.setQueryData(["todos", user?.uid], context.previousTodos);
+        restoreTodoCaches(queryClient, context.previousTodos);
       }
       toast.error("Failed to add todo");
     },
@@ -82,15 +179,14 @@ export function useAddTodo() {
     onSuccess: (todoId, variables, context) => {
       if (!context?.tempId) return;
 
-      queryClient.setQueryData<Todo[]>(["todos", user?.uid], (old) =>
-        old?.map((todo) => (todo.id === context.tempId ? { ...todo, id: todoId } : todo))
+      updateCachedTodos(queryClient, user!.uid, (old) =>
+        old.map((todo) => (todo.id === context.tempId ? { ...todo, id: todoId } : todo))
       );
 
-      const currentTodos = queryClient.getQueryData<Todo[]>(["todos", user?.uid]);
-      const percent = calculateGoalPercent(currentTodos, variables.goalId);
-      if (percent !== null && variables.goalId) {
-        void updateGoalProgress(user!.uid, variables.goalId, percent);
-      }
+      syncGoalProgress(queryClient, user!.uid, [variables.goalId]);
+      recordGoalEvents(queryClient, user!.uid, [
+        { goalId: variables.goalId, type: "todo_created", todoId, todoTitle: variables.title },
+      ]);
 
       toast.success("Todo added!");
     },
@@ -106,25 +202,24 @@ export function useAddTodosBulk() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ titles, goalId }: { titles: string[]; goalId?: string }) =>
-      addTodosBulk(user!.uid, titles, goalId),
+    mutationFn: (inputs: TodoInput[]) => addTodosBulk(user!.uid, inputs),
 
-    onMutate: async ({ titles, goalId }) => {
-      await queryClient.cancelQueries({ queryKey: ["todos", user?.uid] });
+    onMutate: async (inputs) => {
+      await cancelTodoQueries(queryClient, user!.uid);
 
-      const previousTodos = queryClient.getQueryData<Todo[]>(["todos", user?.uid]);
+      const previousTodos = snapshotTodoCaches(queryClient, user!.uid);
       const now = Timestamp.now();
-      const tempIds = titles.map(() => crypto.randomUUID());
+      const tempIds = inputs.map(() => crypto.randomUUID());
 
-      queryClient.setQueryData<Todo[]>(["todos", user?.uid], (old) => {
-        const newTodos: Todo[] = titles.map((title, index) => ({
+      updateCachedTodos(queryClient, user!.uid, (old) => {
+        const newTodos: Todo[] = inputs.map((input, index) => ({
           id: tempIds[index],
-          title,
+          ...input,
           isDone: false,
-          goalId,
+          status: "backlog",
           createdAt: now,
         }));
-        return old ? [...newTodos, ...old] : newTodos;
+        return [...newTodos, ...old];
       });
 
       return { previousTodos, tempIds };
@@ -132,7 +227,7 @@ export function useAddTodosBulk() {
 
     onError: (_err, _variables, context) => {
       if (context?.previousTodos) {
-        queryClient.setQueryData(["todos", user?.uid], context.previousTodos);
+        restoreTodoCaches(queryClient, context.previousTodos);
       }
       toast.error("Failed to add todos");
     },
@@ -140,8 +235,7 @@ export function useAddTodosBulk() {
     onSuccess: (todoIds, variables, context) => {
       if (!context?.tempIds) return;
 
-      queryClient.setQueryData<Todo[]>(["todos", user?.uid], (old) => {
-        if (!old) return old;
+      updateCachedTodos(queryClient, user!.uid, (old) => {
         return old.map((todo) => {
           const tempIndex = context.tempIds.indexOf(todo.id as any);
           if (tempIndex === -1) return todo;
@@ -149,11 +243,21 @@ export function useAddTodosBulk() {
         });
       });
 
-      const currentTodos = queryClient.getQueryData<Todo[]>(["todos", user?.uid]);
-      const percent = calculateGoalPercent(currentTodos, variables.goalId);
-      if (percent !== null && variables.goalId) {
-        void updateGoalProgress(user!.uid, variables.goalId, percent);
-      }
+      syncGoalProgress(
+        queryClient,
+        user!.uid,
+        variables.map((input) => input.goalId)
+      );
+      recordGoalEvents(
+        queryClient,
+        user!.uid,
+        variables.map((input, index) => ({
+          goalId: input.goalId,
+          type: "todo_created",
+          todoId: todoIds[index],
+          todoTitle: input.title,
+        }))
+      );
 
       toast.success("Todos added!");
     },
@@ -169,34 +273,67 @@ export function useToggleTodo() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ todoId, isDone }: { todoId: string; isDone: boolean }) => {
-      await toggleTodo(user!.uid, todoId, isDone);
+    // `status` places a reopened todo in a board column other than the backlog
+    mutationFn: async ({
+      todoId,
+      isDone,
+      status,
+    }: {
+      todoId: string;
+      isDone: boolean;
+      status?: Exclude<TodoStatus, "done">;
+    }) => {
+      // Completing a recurring todo also schedules its next occurrence; a todo missing
+      // from the cached lists is read first to find out whether it recurs
+      if (isDone) {
+        return completeRecurringTodo(user!.uid, todoId, findCachedTodo(queryClient, user!.uid, todoId));
+      }
+
+      await toggleTodo(user!.uid, todoId, false, status);
+      return null;
     },
+    meta: { syncTargets: ({ todoId }: { todoId: string }) => [todoId] },
 
-    onMutate: async ({ todoId, isDone }) => {
-      await queryClient.cancelQueries({ queryKey: ["todos", user?.uid] });
+    onMutate: async ({ todoId, isDone, status }) => {
+      await cancelTodoQueries(queryClient, user!.uid);
 
-      const previousTodos = queryClient.getQueryData<Todo[]>(["todos", user?.uid]);
+      const previousTodos = snapshotTodoCaches(queryClient, user!.uid);
+      const nextStatus: TodoStatus = isDone ? "done" : status ?? "backlog";
 
-      queryClient.setQueryData<Todo[]>(["todos", user?.uid], (old) =>
-        old?.map((todo) => (todo.id === todoId ? { ...todo, isDone } : todo))
+      updateCachedTodos(queryClient, user!.uid, (old) =>
+        old.map((todo) => (todo.id === todoId ? { ...todo, isDone, status: nextStatus } : todo))
       );
 
       return { previousTodos };
     },
 
-    onSuccess: (_data, variables) => {
-      const currentTodos = queryClient.getQueryData<Todo[]>(["todos", user?.uid]);
-      const goalId = currentTodos?.find((todo) => todo.id === variables.todoId)?.goalId;
-      const percent = calculateGoalPercent(currentTodos, goalId);
-      if (percent !== null && goalId) {
-        void updateGoalProgress(user!.uid, goalId, percent);
+    onSuccess: async (nextOccurrence, variables) => {
+      const todo = findCachedTodo(queryClient, user!.uid, variables.todoId);
+
+      if (nextOccurrence) {
+        // Load the new occurrence into the list
+        await queryClient.invalidateQueries({ queryKey: ["todos", user?.uid] });
+        toast.success(
+          `Next occurrence scheduled for ${format(parseISO(nextOccurrence.dueDate), "MMM d")}`
+        );
+      }
+
+      syncGoalProgress(queryClient, user!.uid, [todo?.goalId]);
+      if (todo) {
+        recordGoalEvents(queryClient, user!.uid, [
+          {
+            goalId: todo.goalId,
+            type: variables.isDone ? "todo_completed" : "todo_reopened",
+            todoId: todo.id,
+            todoTitle: todo.title,
+          },
+        ]);
       }
     },
 
     onError: (_err, _variables, context) => {
       if (context?.previousTodos) {
-        queryClient.setQueryData(["todos", user?.uid], context.previousTodos);
+        restoreTodoCaches(queryClient, context.previousTodos);
       }
       toast.error("Failed to update todo");
     },
@@ -207,41 +344,154 @@ export function useToggleTodo() {
   });
 }
 
+export function useUpdateTodo() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      todoId,
+      updates,
+    }: {
+      todoId: string;
+      updates: TodoUpdates;
+    }) => updateTodo(user!.uid, todoId, updates),
+    meta: { syncTargets: ({ todoId }: { todoId: string }) => [todoId] },
+
+    onMutate: async ({ todoId, updates }) => {
+      await cancelTodoQueries(queryClient, user!.uid);
+
+      const previousTodos = snapshotTodoCaches(queryClient, user!.uid);
+      const previousTodo = findCachedTodo(queryClient, user!.uid, todoId);
+      const previousGoalId = previousTodo?.goalId;
+
+      updateCachedTodos(queryClient, user!.uid, (old) =>
+        old.map((todo) => (todo.id === todoId ? { ...todo, ...updates } : todo))
+      );
+
+      return { previousTodos, previousGoalId, previousTitle: previousTodo?.title };
+    },
+
+    onError: (_err, _variables, context) => {
+      if (context?.previousTodos) {
+        restoreTodoCaches(queryClient, context.previousTodos);
+      }
+      toast.error("Failed to update todo");
+    },
+
+    onSuccess: (_data, variables, context) => {
+      // Moving a todo between goals changes the progress of both of them
+      syncGoalProgress(queryClient, user!.uid, [
+        context?.previousGoalId,
+        variables.updates.goalId,
+      ]);
+      if ("goalId" in variables.updates && variables.updates.goalId !== context?.previousGoalId) {
+        const todoTitle = variables.updates.title ?? context?.previousTitle ?? "";
+        recordGoalEvents(queryClient, user!.uid, [
+          {
+            goalId: context?.previousGoalId,
+            type: "todo_unlinked",
+            todoId: variables.todoId,
+            todoTitle,
+          },
+          { goalId: variables.updates.goalId, type: "todo_linked", todoId: variables.todoId, todoTitle },
+        ]);
+      }
+
+      // Checklist ticks are frequent, so they update quietly
+      const isChecklistOnly = Object.keys(variables.updates).every((key) => key === "checklist");
+      if (!isChecklistOnly) {
+        toast.success("Todo updated");
+      }
+    },
+
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["todos", user?.uid] });
+    },
+  });
+}
+
 export function useDeleteTodo() {
   const { user } = useAuth();
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: (todoId: string) => deleteTodo(user!.uid, todoId),
+    meta: { syncTargets: (todoId: string) => [todoId] },
 
     onMutate: async (todoId) => {
-      await queryClient.cancelQueries({ queryKey: ["todos", user?.uid] });
+      await cancelTodoQueries(queryClient, user!.uid);
 
-      const previousTodos = queryClient.getQueryData<Todo[]>(["todos", user?.uid]);
-      const deletedTodo = previousTodos?.find((todo) => todo.id === todoId);
+      const previousTodos = snapshotTodoCaches(queryClient, user!.uid);
+      const deletedTodo = findCachedTodo(queryClient, user!.uid, todoId);
 
-      queryClient.setQueryData<Todo[]>(["todos", user?.uid], (old) =>
-        old?.filter((todo) => todo.id !== todoId)
-      );
+      updateCachedTodos(queryClient, user!.uid, (old) => old.filter((todo) => todo.id !== todoId));
 
       return { previousTodos, deletedTodo };
     },
 
     onError: (_err, _variables, context) => {
       if (context?.previousTodos) {
-        queryClient.setQueryData(["todos", user?.uid], context.previousTodos);
+        restoreTodoCaches(queryClient, context.previousTodos);
       }
       toast.error("Failed to delete todo");
     },
 
-    onSuccess: (_data, _variables, context) => {
-      const currentTodos = queryClient.getQueryData<Todo[]>(["todos", user?.uid]);
+    onSuccess: (_data, todoId, context) => {
       const goalId = context?.deletedTodo?.goalId;
-      const percent = calculateGoalPercent(currentTodos, goalId);
-      if (percent !== null && goalId) {
-        void updateGoalProgress(user!.uid, goalId, percent);
+      syncGoalProgress(queryClient, user!.uid, [goalId]);
+      if (context?.deletedTodo) {
+        recordGoalEvents(queryClient, user!.uid, [
+          {
+            goalId,
+            type: "todo_deleted",
+            todoId: context.deletedTodo.id,
+            todoTitle: context.deletedTodo.title,
+          },
+        ]);
+      }
+      toast.success("Todo moved to trash", {
+        action: {
+          label: "Undo",
+          onClick: () => {
+            restoreTrashItem(user!.uid, "todos", todoId)
+              .then(() => refreshAfterRestore(queryClient, user!.uid, "todos", [goalId]))
+              .catch(() => toast.error("Failed to restore todo"));
+          },
+        },
+      });
+    },
+
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["todos", user?.uid] });
+      queryClient.invalidateQueries({ queryKey: ["trash", user?.uid] });
+    },
+  });
+}
+
+export function useReorderTodos() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (updates: SortKeyUpdate[]) => updateSortKeys(user!.uid, "todos", updates),
+    meta: { syncTargets: (updates: SortKeyUpdate[]) => updates.map((update) => update.id) },
+
+    onMutate: async (updates) => {
+      await cancelTodoQueries(queryClient, user!.uid);
+
+      const previousTodos = snapshotTodoCaches(queryClient, user!.uid);
+
+      updateCachedTodos(queryClient, user!.uid, (old) => applySortKeyUpdates(old, updates));
+
+      return { previousTodos };
+    },
+
+    onError: (_err, _updates, context) => {
+      if (context?.previousTodos) {
+        restoreTodoCaches(queryClient, context.previousTodos);
       }
-      toast.success("Todo deleted");
+      toast.error("Failed to reorder todos");
     },
 
     onSettled: () => {
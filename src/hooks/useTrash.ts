@@ -0,0 +1,172 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { subDays } from "date-fns";
+import {
+    deleteTrashItemPermanently,
+    getTrash,
+    purgeTrash,
+    restoreTrashItem,
+} from "@/lib/firestore";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+
+import type { TrashCollection, TrashItems } from "@/types";
+import { toDateKey } from "@/lib/dueDates";
+import { getGoalIdsTrackingActivity, syncGoalProgress } from "@/lib/goalProgressSync";
+import { TRASH_RETENTION_DAYS } from "@/lib/trash";
+
+type TrashItemRef = { collection: TrashCollection; id: string };
+
+const PURGE_STORAGE_KEY = "goals-todo-trash-purge";
+
+// Query keys whose data changes when items of a collection enter or leave the trash
+const COLLECTION_QUERY_KEYS: Record<TrashCollection, string[]> = {
+    goals: ["goals"],
+    todos: ["todos"],
+    activities: ["activities"],
+    dailyLogs: ["dailyLogs", "trackedMinutes"],
+};
+
+// Refetches the restored collection, then brings the affected goals' progress up to date.
+// Shared with the "Undo" actions of the delete hooks.
+export async function refreshAfterRestore(
+    queryClient: QueryClient,
+    uid: string,
+    collection: TrashCollection,
+    goalIds: (string | undefined)[]
+) {
+    await Promise.all(
+        COLLECTION_QUERY_KEYS[collection].map((key) =>
+            queryClient.invalidateQueries({ queryKey: [key, uid] })
+        )
+    );
+    queryClient.invalidateQueries({ queryKey: ["trash", uid] });
+    syncGoalProgress(queryClient, uid, goalIds);
+}
+
+function getAffectedGoalIds(
+    queryClient: QueryClient,
+    uid: string,
+    { collection, id }: TrashItemRef,
+    trash: TrashItems | undefined
+): (string | undefined)[] {
+    switch (collection) {
+        case "goals":
+            return [id];
+        case "todos":
+            return [trash?.todos.find((todo) => todo.id === id)?.goalId];
+        case "dailyLogs": {
+            const activityId = trash?.dailyLogs.find((log) => log.id === id)?.activityId;
+            return activityId ? getGoalIdsTrackingActivity(queryClient, uid, activityId) : [];
+        }
+        default:
+            return [];
+    }
+}
+
+export function useTrash() {
+    const { user } = useAuth();
+
+    return useQuery({
+        queryKey: ["trash", user?.uid],
+        queryFn: () => getTrash(user!.uid),
+        enabled: !!user,
+        staleTime: 30_000,
+        gcTime: 5 * 60_000,
+        refetchOnWindowFocus: false,
+        refetchOnReconnect: false,
+    });
+}
+
+function removeFromTrash(trash: TrashItems | undefined, { collection, id }: TrashItemRef) {
+    if (!trash) return trash;
+    return {
+        ...trash,
+        [collection]: (trash[collection] as { id: string }[]).filter((item) => item.id !== id),
+    } as TrashItems;
+}
+
+export function useRestoreTrashItem() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ collection, id }: TrashItemRef) => restoreTrashItem(user!.uid, collection, id),
+        onMutate: async (item) => {
+            await queryClient.cancelQueries({ queryKey: ["trash", user?.uid] });
+
+            const previousTrash = queryClient.getQueryData<TrashItems>(["trash", user?.uid]);
+            queryClient.setQueryData<TrashItems>(["trash", user?.uid], (old) => removeFromTrash(old, item));
+
+            return { previousTrash };
+        },
+        onError: (err, _item, context) => {
+            console.error("Error restoring item:", err);
+            if (context?.previousTrash) {
+                queryClient.setQueryData(["trash", user?.uid], context.previousTrash);
+            }
+            toast.error(`Failed to restore: ${(err as Error).message}`);
+        },
+        onSuccess: (_data, item, context) => {
+            void refreshAfterRestore(
+                queryClient,
+                user!.uid,
+                item.collection,
+                getAffectedGoalIds(queryClient, user!.uid, item, context?.previousTrash)
+            );
+            toast.success("Restored");
+        },
+    });
+}
+
+export function useDeleteTrashItem() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ collection, id }: TrashItemRef) =>
+            deleteTrashItemPermanently(user!.uid, collection, id),
+        onMutate: async (item) => {
+            await queryClient.cancelQueries({ queryKey: ["trash", user?.uid] });
+
+            const previousTrash = queryClient.getQueryData<TrashItems>(["trash", user?.uid]);
+            queryClient.setQueryData<TrashItems>(["trash", user?.uid], (old) => removeFromTrash(old, item));
+
+            return { previousTrash };
+        },
+        onError: (err, _item, context) => {
+            console.error("Error deleting item:", err);
+            if (context?.previousTrash) {
+                queryClient.setQueryData(["trash", user?.uid], context.previousTrash);
+            }
+            toast.error(`Failed to delete: ${(err as Error).message}`);
+        },
+        onSuccess: () => {
+            toast.success("Deleted permanently");
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({ queryKey: ["trash", user?.uid] });
+        },
+    });
+}
+
+// Purges items older than the retention period, at most once a day per browser
+export function useTrashPurge() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    useEffect(() => {
+        if (!user) return;
+
+        const todayKey = toDateKey(new Date());
+        const storageKey = `${PURGE_STORAGE_KEY}:${user.uid}`;
+        if (localStorage.getItem(storageKey) === todayKey) return;
+        localStorage.setItem(storageKey, todayKey);
+
+        purgeTrash(user.uid, subDays(new Date(), TRASH_RETENTION_DAYS))
+            .then((count) => {
+                if (count > 0) queryClient.invalidateQueries({ queryKey: ["trash", user.uid] });
+            })
+            .catch((err) => console.error("Error purging trash:", err));
+    }, [user, queryClient]);
+}
@@ -0,0 +1,29 @@
+import type { Activity } from "@/types";
+
+// Colors offered for activities, picked to stay readable on light and dark backgrounds
+export const ACTIVITY_COLORS = [
+    "#8b5cf6",
+    "#3b82f6",
+    "#06b6d4",
+    "#10b981",
+    "#84cc16",
+    "#eab308",
+    "#f97316",
+    "#ef4444",
+    "#ec4899",
+    "#64748b",
+];
+
+// Activities without a color of their own get a palette color derived from their id, so it
+// stays the same between renders and devices
+export function getActivityColor(activity: Pick<Activity, "id" | "color">): string {
+    if (activity.color) return activity.color;
+    const hash = [...activity.id].reduce((total, char) => (total * 31 + char.charCodeAt(0)) >>> 0, 0);
+    return ACTIVITY_COLORS[hash % ACTIVITY_COLORS.length];
+}
+
+// The activities offered when logging time or choosing what a goal tracks. `keepId` stays
+// in the list even when archived, so a current selection is still shown.
+export function getSelectableActivities(activities: Activity[], keepId?: string): Activity[] {
+    return activities.filter((activity) => !activity.archivedAt || activity.id === keepId);
+}
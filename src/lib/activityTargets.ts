@@ -0,0 +1,99 @@
+import {
+    endOfMonth,
+    endOfWeek,
+    getDaysInMonth,
+    parseISO,
+    startOfMonth,
+    startOfWeek,
+} from "date-fns";
+import { toDateKey } from "@/lib/dueDates";
+import type { Activity, ActivityTarget, DailyLog, TargetPeriod } from "@/types";
+
+export const TARGET_PERIODS: TargetPeriod[] = ["day", "week", "month"];
+
+export const TARGET_PERIOD_LABELS: Record<TargetPeriod, string> = {
+    day: "per day",
+    week: "per week",
+    month: "per month",
+};
+
+export const CURRENT_PERIOD_LABELS: Record<TargetPeriod, string> = {
+    day: "today",
+    week: "this week",
+    month: "this month",
+};
+
+export type TargetProgress = {
+    minutes: number;
+    percent: number;
+};
+
+// The calendar day, week (starting Sunday, like the tracker's weekday chart) or month
+// containing `date`, as yyyy-MM-dd keys
+export function getTargetPeriodRange(period: TargetPeriod, date: Date): { startDate: string; endDate: string } {
+    switch (period) {
+        case "day":
+            return { startDate: toDateKey(date), endDate: toDateKey(date) };
+        case "week":
+            return { startDate: toDateKey(startOfWeek(date)), endDate: toDateKey(endOfWeek(date)) };
+        case "month":
+            return { startDate: toDateKey(startOfMonth(date)), endDate: toDateKey(endOfMonth(date)) };
+    }
+}
+
+// The dates every period containing `date` spans together, to load their logs at once
+export function getTargetRangeForAllPeriods(date: Date): { startDate: string; endDate: string } {
+    const ranges = TARGET_PERIODS.map((period) => getTargetPeriodRange(period, date));
+    return {
+        startDate: ranges.map((range) => range.startDate).sort()[0],
+        endDate: ranges.map((range) => range.endDate).sort()[ranges.length - 1],
+    };
+}
+
+export function getTargetProgress(minutes: number, target: ActivityTarget): TargetProgress {
+    return {
+        minutes,
+        percent: target.minutes > 0 ? Math.min(100, Math.round((minutes / target.minutes) * 100)) : 0,
+    };
+}
+
+// Progress of every activity with a target in the periods containing `date`. `logs` must
+// cover getTargetRangeForAllPeriods(date).
+export function buildTargetProgressMap(
+    activities: Activity[],
+    logs: DailyLog[],
+    date: Date
+): Record<string, TargetProgress> {
+    return Object.fromEntries(
+        activities.flatMap((activity) => {
+            if (!activity.target) return [];
+            const { startDate, endDate } = getTargetPeriodRange(activity.target.period, date);
+            const minutes = logs
+                .filter((log) => log.activityId === activity.id && log.date >= startDate && log.date <= endDate)
+                .reduce((sum, log) => sum + log.durationMinutes, 0);
+            return [[activity.id, getTargetProgress(minutes, activity.target)]];
+        })
+    );
+}
+
+// Minutes a single day needs for the target to count as met that day: the whole target for
+// daily ones, an even share of it for weekly and monthly ones
+export function getDailyTargetMinutes(target: ActivityTarget, dateKey: string): number {
+    switch (target.period) {
+        case "day":
+            return target.minutes;
+        case "week":
+            return target.minutes / 7;
+        case "month":
+            return target.minutes / getDaysInMonth(parseISO(dateKey));
+    }
+}
+
+// "45m", "2h" or "2h 30m"
+export function formatTargetMinutes(minutes: number): string {
+    const rounded = Math.round(minutes);
+    const hours = Math.floor(rounded / 60);
+    const rest = rounded % 60;
+    if (hours === 0) return `${rest}m`;
+    return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
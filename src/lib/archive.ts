@@ -0,0 +1,51 @@
+import type { ArchiveCollection, ArchivedTodoTotals, Todo } from "@/types";
+import { getTodoWeight } from "./goalProgress";
+
+export const ARCHIVE_PAGE_SIZE = 20;
+
+// Choices offered in the settings; 0 turns automatic archiving off
+export const AUTO_ARCHIVE_DAY_OPTIONS = [0, 7, 14, 30, 90];
+
+export const ARCHIVE_LABELS: Record<ArchiveCollection, string> = {
+    todos: "Todos",
+    goals: "Goals",
+};
+
+const EMPTY_TOTALS: ArchivedTodoTotals = {
+    count: 0,
+    weight: 0,
+    supersededCount: 0,
+    supersededWeight: 0,
+};
+
+// Archived titles are searched by prefix, which Firestore can only do case-sensitively
+export function toSearchTitle(title: string): string {
+    return title.trim().toLowerCase();
+}
+
+// What a completed todo adds to its goal's archived totals. An instance with a next
+// occurrence is superseded whether or not that occurrence is archived too.
+export function getArchivedTodoDelta(todo: Todo): ArchivedTodoTotals {
+    const weight = getTodoWeight(todo);
+    const isSuperseded = !!todo.recurrence && !!todo.nextOccurrenceId;
+    return {
+        count: 1,
+        weight,
+        supersededCount: isSuperseded ? 1 : 0,
+        supersededWeight: isSuperseded ? weight : 0,
+    };
+}
+
+export function addArchivedTotals(
+    totals: ArchivedTodoTotals | undefined,
+    delta: ArchivedTodoTotals,
+    sign: 1 | -1 = 1
+): ArchivedTodoTotals {
+    const base = totals ?? EMPTY_TOTALS;
+    return {
+        count: base.count + sign * delta.count,
+        weight: base.weight + sign * delta.weight,
+        supersededCount: base.supersededCount + sign * delta.supersededCount,
+        supersededWeight: base.supersededWeight + sign * delta.supersededWeight,
+    };
+}
@@ -0,0 +1,331 @@
+import { z } from "zod";
+import { Timestamp, type DocumentData } from "firebase/firestore";
+import type { Activity, DailyLog, Goal, Todo } from "@/types";
+
+// Bumped whenever the file layout changes
+export const BACKUP_VERSION = 1;
+
+export type BackupData = {
+    goals: Goal[];
+    todos: Todo[];
+    activities: Activity[];
+    dailyLogs: DailyLog[];
+};
+
+export type BackupCollection = keyof BackupData;
+
+// Referenced documents come first, so an interrupted import never leaves dangling links
+export const BACKUP_COLLECTIONS: BackupCollection[] = ["activities", "goals", "todos", "dailyLogs"];
+
+export const BACKUP_LABELS: Record<BackupCollection, string> = {
+    activities: "Activities",
+    goals: "Goals",
+    todos: "Todos",
+    dailyLogs: "Daily logs",
+};
+
+// "merge": items already in the account (same id) are overwritten and the rest are added.
+// "replace": everything in the account is deleted first and every item is added.
+export type ImportMode = "merge" | "replace";
+
+export type ImportCounts = { added: number; updated: number; unchanged: number; removed: number };
+
+export type ImportPlan = {
+    mode: ImportMode;
+    writes: { collection: BackupCollection; id: string; data: DocumentData }[];
+    deletes: { collection: BackupCollection; id: string }[];
+    counts: Record<BackupCollection, ImportCounts>;
+};
+
+// Schema of a backup file. Timestamps are stored as ISO strings and come back as Timestamps;
+// unknown fields are dropped.
+const timestampSchema = z.iso
+    .datetime({ offset: true })
+    .transform((value) => Timestamp.fromDate(new Date(value)));
+const dateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a yyyy-MM-dd date");
+const idSchema = z.string().min(1);
+
+const goalSchema = z.object({
+    id: idSchema,
+    title: z.string(),
+    currentPercent: z.number().min(0).max(100),
+    progressMode: z.enum(["todos", "manual", "time", "activityTarget"]).optional(),
+    trackedActivityId: idSchema.optional(),
+    targetMinutes: z.number().positive().optional(),
+    recurringProgress: z.enum(["latest", "all"]).optional(),
+    targetDate: dateKeySchema.optional(),
+    milestones: z
+        .array(
+            z.object({
+                id: idSchema,
+                title: z.string(),
+                dueDate: dateKeySchema,
+                todoIds: z.array(idSchema),
+            })
+        )
+        .optional(),
+    parentGoalId: idSchema.optional(),
+    rollupMode: z.enum(["todos", "weighted"]).optional(),
+    rollupWeight: z.number().min(0).optional(),
+    sortKey: z.number().optional(),
+    deletedAt: timestampSchema.optional(),
+    completedAt: timestampSchema.optional(),
+    todoTotals: z
+        .object({
+            total: z.number(),
+            done: z.number(),
+            weight: z.number(),
+            completedWeight: z.number(),
+        })
+        .optional(),
+    archivedTodos: z
+        .object({
+            count: z.number(),
+            weight: z.number(),
+            supersededCount: z.number(),
+            supersededWeight: z.number(),
+        })
+        .optional(),
+    createdAt: timestampSchema,
+});
+
+const recurrenceSchema = z.discriminatedUnion("type", [
+    z.object({ type: z.literal("daily") }),
+    z.object({ type: z.literal("weekdays") }),
+    z.object({ type: z.literal("interval"), everyDays: z.number().int().positive() }),
+    z.object({ type: z.literal("weekly"), weekdays: z.array(z.number().int().min(0).max(6)) }),
+    z.object({ type: z.literal("monthly"), dayOfMonth: z.number().int().min(1).max(31) }),
+]);
+
+const todoSchema = z.object({
+    id: idSchema,
+    title: z.string(),
+    isDone: z.boolean(),
+    status: z.enum(["backlog", "in_progress", "done"]).optional(),
+    goalId: idSchema.optional(),
+    notes: z.string().optional(),
+    dueDate: dateKeySchema.optional(),
+    dueTime: z.string().regex(/^\d{2}:\d{2}$/, "Expected an HH:mm time").optional(),
+    recurrence: recurrenceSchema.optional(),
+    checklist: z
+        .array(z.object({ id: idSchema, title: z.string(), isDone: z.boolean() }))
+        .optional(),
+    weight: z.number().positive().optional(),
+    priority: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4)]).optional(),
+    tags: z.array(z.string()).optional(),
+    sortKey: z.number().optional(),
+    seriesId: idSchema.optional(),
+    nextOccurrenceId: idSchema.optional(),
+    completedAt: timestampSchema.optional(),
+    deletedAt: timestampSchema.optional(),
+    createdAt: timestampSchema,
+});
+
+const activitySchema = z.object({
+    id: idSchema,
+    name: z.string(),
+    color: z.string().optional(),
+    target: z
+        .object({ period: z.enum(["day", "week", "month"]), minutes: z.number().positive() })
+        .optional(),
+    archivedAt: timestampSchema.optional(),
+    deletedAt: timestampSchema.optional(),
+    createdAt: timestampSchema,
+});
+
+const dailyLogSchema = z.object({
+    id: idSchema,
+    activityId: idSchema,
+    activityName: z.string(),
+    date: dateKeySchema,
+    durationMinutes: z.number().min(0),
+    notes: z.string().optional(),
+    isPomodoro: z.boolean().optional(),
+    deletedAt: timestampSchema.optional(),
+    createdAt: timestampSchema,
+});
+
+const backupSchema = z.object({
+    version: z.number().int().max(BACKUP_VERSION, "This backup was made by a newer version of the app"),
+    exportedAt: z.iso.datetime({ offset: true }),
+    data: z.object({
+        goals: z.array(goalSchema),
+        todos: z.array(todoSchema),
+        activities: z.array(activitySchema),
+        dailyLogs: z.array(dailyLogSchema),
+    }),
+});
+
+// Timestamps become ISO strings; everything else is already plain JSON
+function toBackupValue(value: unknown): unknown {
+    if (value instanceof Timestamp) return value.toDate().toISOString();
+    if (Array.isArray(value)) return value.map(toBackupValue);
+    if (value && typeof value === "object") {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [key, toBackupValue(item)])
+        );
+    }
+    return value;
+}
+
+export function createBackup(data: BackupData, exportedAt: Date): string {
+    return JSON.stringify(
+        { version: BACKUP_VERSION, exportedAt: exportedAt.toISOString(), data: toBackupValue(data) },
+        null,
+        2
+    );
+}
+
+export function getBackupFileName(exportedAt: Date): string {
+    return `goals-todo-backup-${exportedAt.toISOString().slice(0, 10)}.json`;
+}
+
+// Throws an Error with a readable message when the file is not a valid backup
+export function parseBackup(text: string): BackupData {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        throw new Error("The file is not valid JSON");
+    }
+
+    const result = backupSchema.safeParse(json);
+    if (!result.success) {
+        const issue = result.error.issues[0];
+        const path = issue.path.join(".");
+        throw new Error(path ? `${path}: ${issue.message}` : issue.message);
+    }
+    return result.data.data;
+}
+
+// Compares two versions of a document the way they would be written to a backup
+function isSameData(a: DocumentData, b: DocumentData): boolean {
+    const normalize = (value: unknown): unknown => {
+        if (Array.isArray(value)) return value.map(normalize);
+        if (value && typeof value === "object") {
+            return Object.fromEntries(
+                Object.entries(value)
+                    .filter(([, item]) => item !== undefined)
+                    .sort(([keyA], [keyB]) => keyA.localeCompare(keyB))
+                    .map(([key, item]) => [key, normalize(item)])
+            );
+        }
+        return value;
+    };
+    return (
+        JSON.stringify(normalize(toBackupValue(a))) === JSON.stringify(normalize(toBackupValue(b)))
+    );
+}
+
+// The id lives in the document path, and Firestore rejects undefined fields
+function toDocumentData(item: DocumentData): DocumentData {
+    return Object.fromEntries(
+        Object.entries(item).filter(([key, value]) => key !== "id" && value !== undefined)
+    );
+}
+
+// Works out every write of an import without touching Firestore, so it doubles as the
+// dry-run preview. Items get fresh ids from `createId` unless they are merged into an
+// existing document, and every goalId, activityId and todo reference is rewritten to
+// match. References to items that are in neither the backup nor the account are dropped,
+// except a daily log's activityId, which keeps its activityName either way.
+export function planImport(
+    backup: BackupData,
+    current: BackupData,
+    mode: ImportMode,
+    createId: (collection: BackupCollection) => string
+): ImportPlan {
+    const currentItems = new Map<string, Goal | Todo | Activity | DailyLog>(
+        BACKUP_COLLECTIONS.flatMap((collection) =>
+            mode === "merge" ? current[collection].map((item) => [item.id, item] as const) : []
+        )
+    );
+
+    const idMap = new Map<string, string>();
+    BACKUP_COLLECTIONS.forEach((collection) =>
+        backup[collection].forEach((item) => {
+            idMap.set(item.id, currentItems.has(item.id) ? item.id : createId(collection));
+        })
+    );
+    const remap = (id: string | undefined) =>
+        id === undefined ? undefined : (idMap.get(id) ?? (currentItems.has(id) ? id : undefined));
+
+    const toData = (collection: BackupCollection, item: Goal | Todo | Activity | DailyLog): DocumentData => {
+        switch (collection) {
+            case "goals": {
+                // The counters describe todos of the account they were counted in: a goal
+                // merged into its own document keeps the account's, any other starts without
+                // them until the progress sync after the import recounts its todos
+                const goal = item as Goal;
+                const existing = currentItems.get(idMap.get(goal.id)!) as Goal | undefined;
+                return {
+                    ...goal,
+                    todoTotals: existing?.todoTotals,
+                    archivedTodos: existing?.archivedTodos,
+                    parentGoalId: remap(goal.parentGoalId),
+                    trackedActivityId: remap(goal.trackedActivityId),
+                    milestones: goal.milestones?.map((milestone) => ({
+                        ...milestone,
+                        todoIds: milestone.todoIds
+                            .map(remap)
+                            .filter((id): id is string => !!id),
+                    })),
+                };
+            }
+            case "todos": {
+                const todo = item as Todo;
+                return {
+                    ...todo,
+                    goalId: remap(todo.goalId),
+                    // The series id is the first todo's id, which may be archived; it only groups
+                    seriesId: todo.seriesId && (idMap.get(todo.seriesId) ?? todo.seriesId),
+                    nextOccurrenceId: remap(todo.nextOccurrenceId),
+                };
+            }
+            case "dailyLogs": {
+                const log = item as DailyLog;
+                return { ...log, activityId: remap(log.activityId) ?? log.activityId };
+            }
+            default:
+                return item;
+        }
+    };
+
+    const plan: ImportPlan = {
+        mode,
+        writes: [],
+        deletes: [],
+        counts: {
+            activities: { added: 0, updated: 0, unchanged: 0, removed: 0 },
+            goals: { added: 0, updated: 0, unchanged: 0, removed: 0 },
+            todos: { added: 0, updated: 0, unchanged: 0, removed: 0 },
+            dailyLogs: { added: 0, updated: 0, unchanged: 0, removed: 0 },
+        },
+    };
+
+    BACKUP_COLLECTIONS.forEach((collection) => {
+        const counts = plan.counts[collection];
+
+        if (mode === "replace") {
+            current[collection].forEach((item) => plan.deletes.push({ collection, id: item.id }));
+            counts.removed = current[collection].length;
+        }
+
+        backup[collection].forEach((item) => {
+            const id = idMap.get(item.id)!;
+            const data = toDocumentData(toData(collection, item));
+            const existing = currentItems.get(id);
+            if (!existing) {
+                counts.added++;
+            } else if (isSameData(data, toDocumentData(existing))) {
+                counts.unchanged++;
+                return;
+            } else {
+                counts.updated++;
+            }
+            plan.writes.push({ collection, id, data });
+        });
+    });
+
+    return plan;
+}
@@ -0,0 +1,25 @@
+import { format, parse } from "date-fns";
+import type { Todo } from "@/types";
+
+export type DueStatus = "overdue" | "today" | "upcoming";
+
+export function toDateKey(date: Date): string {
+    return format(date, "yyyy-MM-dd");
+}
+
+// "15:30" -> "3:30 PM"
+export function formatDueTime(time: string): string {
+    return format(parse(time, "HH:mm", new Date()), "h:mm a");
+}
+
+// Due dates are stored as "yyyy-MM-dd" strings, so plain string comparison orders them
+export function getDueStatus(todo: Todo, todayKey: string): DueStatus | null {
+    if (!todo.dueDate) return null;
+    if (todo.dueDate === todayKey) return "today";
+    if (todo.dueDate > todayKey) return "upcoming";
+    return todo.isDone ? null : "overdue";
+}
+
+export function countOverdue(todos: Todo[], todayKey: string): number {
+    return todos.filter((todo) => getDueStatus(todo, todayKey) === "overdue").length;
+}
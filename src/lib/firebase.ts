@@ -1,6 +1,11 @@
 import { initializeApp } from "firebase/app";
 import { getAuth, GoogleAuthProvider } from "firebase/auth";
-import { getFirestore } from "firebase/firestore";
+import {
+    connectFirestoreEmulator,
+    initializeFirestore,
+    persistentLocalCache,
+    persistentMultipleTabManager,
+} from "firebase/firestore";
 
 // Firebase configuration - Replace with your own config
 const firebaseConfig = {
@@ -12,10 +17,24 @@ const firebaseConfig = {
     appId: import.meta.env.VITE_FIREBASE_APP_ID,
 };
 
+// "host:port" of a local Firestore emulator, e.g. "localhost:8080"
+const firestoreEmulatorHost: string | undefined = import.meta.env.VITE_FIRESTORE_EMULATOR_HOST;
+
 const app = initializeApp(firebaseConfig);
 
 export const auth = getAuth(app);
 export const googleProvider = new GoogleAuthProvider();
-export const db = getFirestore(app);
+
+// Documents are cached in IndexedDB, shared by all open tabs, so reads keep working offline
+export const db = initializeFirestore(app, {
+    localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+});
+
+export const isUsingEmulator = !!firestoreEmulatorHost;
+
+if (firestoreEmulatorHost) {
+    const [host, port] = firestoreEmulatorHost.split(":");
+    connectFirestoreEmulator(db, host, Number(port));
+}
 
 export default app;
@@ -1,19 +1,113 @@
 import {
     collection,
     doc,
+    getDoc,
+    getDocFromCache,
+    getDocFromServer,
     getDocs,
     addDoc,
     updateDoc,
+    setDoc,
     deleteDoc,
+    deleteField,
     query,
     orderBy,
     where,
+    limit,
     serverTimestamp,
     writeBatch,
+    getAggregateFromServer,
+    getCountFromServer,
+    sum,
+    increment,
+    startAfter,
+    onSnapshot,
+    Timestamp,
     type DocumentData,
+    type DocumentReference,
+    type DocumentSnapshot,
+    type Query,
+    type QueryConstraint,
+    type QueryDocumentSnapshot,
+    type Unsubscribe,
+    type WriteBatch,
 } from "firebase/firestore";
 import { db } from "./firebase";
-import type { Activity, DailyLog, Goal, Todo } from "@/types";
+import type {
+    Activity,
+    ActivityTimer,
+    ActivityUpdates,
+    ArchiveCollection,
+    ArchivedTodoTotals,
+    DailyLog,
+    Goal,
+    GoalEvent,
+    GoalEventInput,
+    GoalTodoAction,
+    GoalTodoTotals,
+    GoalUpdates,
+    ProgressSnapshot,
+    SmartList,
+    Todo,
+    TodoFilter,
+    TodoInput,
+    TodoStatus,
+    TodoUpdates,
+    TrashCollection,
+    TrashItems,
+    UserPreferences,
+} from "@/types";
+import { getNextOccurrence } from "./recurrence";
+import { getDescendantIds } from "./goalTree";
+import type { SortKeyUpdate } from "./sortKeys";
+import { toDateKey } from "./dueDates";
+import { ARCHIVE_PAGE_SIZE, addArchivedTotals, getArchivedTodoDelta, toSearchTitle } from "./archive";
+import { TODO_PAGE_SIZE } from "./todoCache";
+import type { LogImportEntry } from "./logCsv";
+import { BACKUP_COLLECTIONS, type BackupCollection, type BackupData, type ImportPlan } from "./backup";
+
+// Deleted documents keep a deletedAt timestamp until they are restored or purged from the
+// trash. Firestore cannot query for a missing field, so reads drop them client-side.
+function withoutDeleted<T extends { deletedAt?: Timestamp }>(items: T[]): T[] {
+    return items.filter((item) => !item.deletedAt);
+}
+
+export type Page<T> = {
+    items: T[];
+    // Cursor for the next page; null on the last page
+    nextCursor: QueryDocumentSnapshot | null;
+};
+
+// Reads one page after `cursor`. One extra document is requested to tell whether
+// another page follows.
+async function getPage<T>(
+    q: Query,
+    cursor: QueryDocumentSnapshot | null,
+    pageSize: number
+): Promise<Page<T>> {
+    const snapshot = await getDocs(
+        cursor ? query(q, startAfter(cursor), limit(pageSize + 1)) : query(q, limit(pageSize + 1))
+    );
+    const docs = snapshot.docs.slice(0, pageSize);
+
+    return {
+        items: docs.map((doc) => ({ id: doc.id, ...doc.data() }) as T),
+        nextCursor: snapshot.docs.length > pageSize ? docs[docs.length - 1] : null,
+    };
+}
+
+// Firestore's limit on writes per batch
+const MAX_BATCH_SIZE = 500;
+
+// Commits the operations in as many batches as the limit needs; the batches are not atomic
+// together, so a failure part-way leaves the earlier ones applied
+async function commitInBatches(operations: ((batch: WriteBatch) => void)[]): Promise<void> {
+    for (let start = 0; start < operations.length; start += MAX_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        operations.slice(start, start + MAX_BATCH_SIZE).forEach((operation) => operation(batch));
+        await batch.commit();
+    }
+}
 
 // Goals CRUD
 export async function getGoals(uid: string): Promise<Goal[]> {
@@ -21,91 +115,321 @@ export async function getGoals(uid: string): Promise<Goal[]> {
     const q = query(goalsRef, orderBy("createdAt", "desc"));
     const snapshot = await getDocs(q);
 
-    return snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-    })) as Goal[];
+    return withoutDeleted(
+        snapshot.docs.map((doc) => ({
+            id: doc.id,
+            ...doc.data(),
+        })) as Goal[]
+    );
 }
 
-export async function addGoal(uid: string, title: string): Promise<string> {
+export async function addGoal(uid: string, title: string, parentGoalId?: string): Promise<string> {
     const goalsRef = collection(db, "users", uid, "goals");
     const docRef = await addDoc(goalsRef, {
         title,
         currentPercent: 0,
+        ...(parentGoalId ? { parentGoalId } : {}),
         createdAt: serverTimestamp(),
     });
     return docRef.id;
 }
 
+// completedAt is stamped when progress first reaches 100% and cleared when it drops again
+function getCompletionUpdate(percent: number, wasComplete: boolean): DocumentData {
+    if (percent < 100) return { completedAt: deleteField() };
+    return wasComplete ? {} : { completedAt: serverTimestamp() };
+}
+
 export async function updateGoalProgress(
     uid: string,
     goalId: string,
-    newPercent: number
+    newPercent: number,
+    { wasComplete = false, todoTotals }: { wasComplete?: boolean; todoTotals?: GoalTodoTotals } = {}
 ): Promise<void> {
     const clampedPercent = Math.max(0, Math.min(100, newPercent));
     const goalRef = doc(db, "users", uid, "goals", goalId);
-    await updateDoc(goalRef, { currentPercent: clampedPercent });
+    await updateDoc(goalRef, {
+        currentPercent: clampedPercent,
+        ...getCompletionUpdate(clampedPercent, wasComplete),
+        ...(todoTotals ? { todoTotals } : {}),
+    });
 }
 
-export async function deleteGoal(uid: string, goalId: string): Promise<void> {
+export async function updateGoal(
+    uid: string,
+    goalId: string,
+    updates: GoalUpdates
+): Promise<void> {
     const goalRef = doc(db, "users", uid, "goals", goalId);
-    await deleteDoc(goalRef);
+    const goalData: DocumentData = {};
+
+    Object.entries(updates).forEach(([key, value]) => {
+        goalData[key] = value === undefined ? deleteField() : value;
+    });
+
+    // Manual goals set their percentage directly
+    if (updates.currentPercent !== undefined) {
+        Object.assign(goalData, getCompletionUpdate(updates.currentPercent, false));
+    }
+
+    await updateDoc(goalRef, goalData);
 }
 
-// Todos CRUD
-export async function getTodos(uid: string): Promise<Todo[]> {
-    const todosRef = collection(db, "users", uid, "todos");
-    const q = query(todosRef, orderBy("createdAt", "desc"));
+// Raw documents captured by deleteGoal so the deletion can be undone exactly
+export type DeletedGoalSnapshot = {
+    goal: { id: string; data: DocumentData };
+    todos: { id: string; data: DocumentData }[];
+    subGoalIds: string[];
+};
+
+// Moves the goal to the trash, moves its sub-goals up a level and applies `todoAction` to
+// its linked todos ("delete" trashes them too). Goals with many linked todos take several
+// batches; the goal itself is trashed in the last one, so a failure part-way leaves it in
+// place to delete again. The goal's history subcollections stay until it is permanently
+// deleted.
+export async function deleteGoal(
+    uid: string,
+    goalId: string,
+    todoAction: GoalTodoAction
+): Promise<DeletedGoalSnapshot> {
+    const goalsRef = collection(db, "users", uid, "goals");
+    const goalRef = doc(goalsRef, goalId);
+    const [goal, subGoals, linkedTodos] = await Promise.all([
+        getDoc(goalRef),
+        getDocs(query(goalsRef, where("parentGoalId", "==", goalId))),
+        getDocs(query(collection(db, "users", uid, "todos"), where("goalId", "==", goalId))),
+    ]);
+    if (!goal.exists()) throw new Error("Goal not found");
+
+    const parentGoalId: string | undefined = goal.data().parentGoalId;
+    const activeTodos = linkedTodos.docs.filter((todo) => !todo.data().deletedAt);
+    const todoUpdate: DocumentData =
+        todoAction.type === "delete"
+            ? { deletedAt: serverTimestamp() }
+            : todoAction.type === "unlink"
+              ? { goalId: deleteField() }
+              : { goalId: todoAction.targetGoalId };
+
+    await commitInBatches([
+        ...subGoals.docs.map(
+            (subGoal) => (batch: WriteBatch) =>
+                batch.update(subGoal.ref, { parentGoalId: parentGoalId ?? deleteField() })
+        ),
+        ...activeTodos.map((todo) => (batch: WriteBatch) => batch.update(todo.ref, todoUpdate)),
+        (batch: WriteBatch) => batch.update(goalRef, { deletedAt: serverTimestamp() }),
+    ]);
+
+    return {
+        goal: { id: goal.id, data: goal.data() },
+        todos: activeTodos.map((todo) => ({ id: todo.id, data: todo.data() })),
+        subGoalIds: subGoals.docs.map((subGoal) => subGoal.id),
+    };
+}
+
+// Restores the goal first, then its todos and sub-goals, in as many batches as they need
+export async function restoreDeletedGoal(uid: string, snapshot: DeletedGoalSnapshot): Promise<void> {
+    const goalRef = doc(db, "users", uid, "goals", snapshot.goal.id);
+    await commitInBatches([
+        (batch: WriteBatch) => batch.set(goalRef, snapshot.goal.data),
+        ...snapshot.todos.map(
+            (todo) => (batch: WriteBatch) => batch.set(doc(db, "users", uid, "todos", todo.id), todo.data)
+        ),
+        ...snapshot.subGoalIds.map(
+            (subGoalId) => (batch: WriteBatch) =>
+                batch.update(doc(db, "users", uid, "goals", subGoalId), { parentGoalId: snapshot.goal.id })
+        ),
+    ]);
+}
+
+// Subcollections are not removed with their parent document
+export async function purgeGoalHistory(uid: string, goalId: string): Promise<void> {
+    const goalRef = doc(db, "users", uid, "goals", goalId);
+    const [events, snapshots] = await Promise.all([
+        getDocs(collection(goalRef, "events")),
+        getDocs(collection(goalRef, "progress")),
+    ]);
+
+    await commitInBatches(
+        [...events.docs, ...snapshots.docs].map((child) => (batch: WriteBatch) => batch.delete(child.ref))
+    );
+}
+
+// Goal timeline events
+export async function getGoalEvents(uid: string, goalId: string): Promise<GoalEvent[]> {
+    const eventsRef = collection(db, "users", uid, "goals", goalId, "events");
+    const q = query(eventsRef, orderBy("createdAt", "desc"));
     const snapshot = await getDocs(q);
 
     return snapshot.docs.map((doc) => ({
         id: doc.id,
         ...doc.data(),
-    })) as Todo[];
+    })) as GoalEvent[];
+}
+
+export async function addGoalEvents(uid: string, events: GoalEventInput[]): Promise<void> {
+    const batch = writeBatch(db);
+
+    events.forEach(({ goalId, ...event }) => {
+        const eventRef = doc(collection(db, "users", uid, "goals", goalId, "events"));
+        batch.set(eventRef, { ...event, createdAt: serverTimestamp() });
+    });
+
+    await batch.commit();
 }
 
-export async function addTodo(
+// Goal progress snapshots (one document per goal per day, overwritten during the day)
+export async function saveProgressSnapshot(
     uid: string,
-    title: string,
-    goalId?: string
-): Promise<string> {
+    snapshot: Omit<ProgressSnapshot, "updatedAt">
+): Promise<void> {
+    const { goalId, date, ...progress } = snapshot;
+    const snapshotRef = doc(db, "users", uid, "goals", goalId, "progress", date);
+    await setDoc(snapshotRef, { date, ...progress, updatedAt: serverTimestamp() });
+}
+
+export async function getProgressSnapshots(
+    uid: string,
+    goalIds: string[],
+    fromDate: string
+): Promise<ProgressSnapshot[]> {
+    const snapshots = await Promise.all(
+        goalIds.map(async (goalId) => {
+            const progressRef = collection(db, "users", uid, "goals", goalId, "progress");
+            // The latest snapshot before the range gives each goal its starting value
+            const [previous, inRange] = await Promise.all([
+                getDocs(query(progressRef, where("date", "<", fromDate), orderBy("date", "desc"), limit(1))),
+                getDocs(query(progressRef, where("date", ">=", fromDate), orderBy("date", "asc"))),
+            ]);
+            return [...previous.docs, ...inRange.docs].map(
+                (doc) => ({ goalId, ...doc.data() }) as ProgressSnapshot
+            );
+        })
+    );
+
+    return snapshots.flat();
+}
+
+// Todos CRUD
+// Newest first, one page at a time. Trashed todos are dropped after reading, so a page
+// can hold fewer than TODO_PAGE_SIZE todos.
+export async function getTodosPage(
+    uid: string,
+    cursor: QueryDocumentSnapshot | null
+): Promise<Page<Todo>> {
+    const todosRef = collection(db, "users", uid, "todos");
+    const page = await getPage<Todo>(query(todosRef, orderBy("createdAt", "desc")), cursor, TODO_PAGE_SIZE);
+    return { ...page, items: withoutDeleted(page.items) };
+}
+
+// Every todo linked to one goal, for its detail view and its progress totals
+export async function getGoalTodos(uid: string, goalId: string): Promise<Todo[]> {
+    const todosRef = collection(db, "users", uid, "todos");
+    const snapshot = await getDocs(query(todosRef, where("goalId", "==", goalId)));
+
+    return withoutDeleted(
+        snapshot.docs.map((doc) => ({
+            id: doc.id,
+            ...doc.data(),
+        })) as Todo[]
+    );
+}
+
+// Open todos due on or before `dateKey`, however old they are
+// (needs a composite index on isDone + dueDate)
+export async function getDueTodos(uid: string, dateKey: string): Promise<Todo[]> {
+    const todosRef = collection(db, "users", uid, "todos");
+    const q = query(todosRef, where("isDone", "==", false), where("dueDate", "<=", dateKey));
+    const snapshot = await getDocs(q);
+
+    return withoutDeleted(
+        snapshot.docs.map((doc) => ({
+            id: doc.id,
+            ...doc.data(),
+        })) as Todo[]
+    );
+}
+
+// Counted server-side; trashed todos are counted separately and subtracted, like
+// getActivityMinutes (needs a composite index on isDone + deletedAt)
+export async function getTodoCounts(uid: string): Promise<{ total: number; done: number }> {
     const todosRef = collection(db, "users", uid, "todos");
+    const done = query(todosRef, where("isDone", "==", true));
+    const [all, allDeleted, completed, completedDeleted] = await Promise.all(
+        [
+            todosRef,
+            query(todosRef, where("deletedAt", "!=", null)),
+            done,
+            query(done, where("deletedAt", "!=", null)),
+        ].map((q) => getCountFromServer(q))
+    );
+
+    return {
+        total: all.data().count - allDeleted.data().count,
+        done: completed.data().count - completedDeleted.data().count,
+    };
+}
+
+function buildTodoData(input: TodoInput & Pick<Todo, "seriesId" | "checklist">): DocumentData {
     const todoData: DocumentData = {
-        title,
+        title: input.title,
         isDone: false,
+        status: "backlog",
         createdAt: serverTimestamp(),
     };
 
-    if (goalId) {
-        todoData.goalId = goalId;
+    if (input.goalId) {
+        todoData.goalId = input.goalId;
+    }
+
+    if (input.dueDate) {
+        todoData.dueDate = input.dueDate;
+    }
+
+    if (input.dueDate && input.dueTime) {
+        todoData.dueTime = input.dueTime;
+    }
+
+    if (input.recurrence) {
+        todoData.recurrence = input.recurrence;
+    }
+
+    if (input.weight !== undefined) {
+        todoData.weight = input.weight;
+    }
+
+    if (input.priority !== undefined) {
+        todoData.priority = input.priority;
     }
 
-    const docRef = await addDoc(todosRef, todoData);
+    if (input.tags?.length) {
+        todoData.tags = input.tags;
+    }
+
+    if (input.checklist?.length) {
+        todoData.checklist = input.checklist;
+    }
+
+    if (input.seriesId) {
+        todoData.seriesId = input.seriesId;
+    }
+
+    return todoData;
+}
+
+export async function addTodo(uid: string, input: TodoInput): Promise<string> {
+    const todosRef = collection(db, "users", uid, "todos");
+    const docRef = await addDoc(todosRef, buildTodoData(input));
     return docRef.id;
 }
 
-export async function addTodosBulk(
-    uid: string,
-    titles: string[],
-    goalId?: string
-): Promise<string[]> {
+export async function addTodosBulk(uid: string, inputs: TodoInput[]): Promise<string[]> {
     const todosRef = collection(db, "users", uid, "todos");
     const batch = writeBatch(db);
     const ids: string[] = [];
 
-    titles.forEach((title) => {
+    inputs.forEach((input) => {
         const todoRef = doc(todosRef);
-        const todoData: DocumentData = {
-            title,
-            isDone: false,
-            createdAt: serverTimestamp(),
-        };
-
-        if (goalId) {
-            todoData.goalId = goalId;
-        }
-
-        batch.set(todoRef, todoData);
+        batch.set(todoRef, buildTodoData(input));
         ids.push(todoRef.id);
     });
 
@@ -113,18 +437,162 @@ export async function addTodosBulk(
     return ids;
 }
 
+// Reopened todos go back to `reopenStatus`, the backlog unless a board column says otherwise
 export async function toggleTodo(
     uid: string,
     todoId: string,
-    isDone: boolean
+    isDone: boolean,
+    reopenStatus: Exclude<TodoStatus, "done"> = "backlog"
+): Promise<void> {
+    const todoRef = doc(db, "users", uid, "todos", todoId);
+    await updateDoc(todoRef, {
+        isDone,
+        status: isDone ? "done" : reopenStatus,
+        completedAt: isDone ? serverTimestamp() : deleteField(),
+    });
+}
+
+// Completes a todo and, when it is recurring, schedules its next occurrence in the same
+// batch. `cached` is the todo as the app has it loaded; without it the document is read,
+// so a todo outside the loaded lists still gets its next occurrence. Completed instances
+// are kept as the series' completion history.
+export async function completeRecurringTodo(
+    uid: string,
+    todoId: string,
+    cached?: Todo
+): Promise<{ id: string; dueDate: string } | null> {
+    const todosRef = collection(db, "users", uid, "todos");
+    const todoRef = doc(todosRef, todoId);
+
+    let todo = cached;
+    if (!todo) {
+        const snapshot = await getDoc(todoRef);
+        if (!snapshot.exists()) throw new Error("Todo not found");
+        todo = { id: snapshot.id, ...snapshot.data() } as Todo;
+    }
+
+    // Re-completing an instance after an undo must not schedule a second occurrence
+    if (!todo.recurrence || todo.nextOccurrenceId) {
+        await toggleTodo(uid, todoId, true);
+        return null;
+    }
+
+    const todayKey = toDateKey(new Date());
+    const baseKey = todo.dueDate && todo.dueDate > todayKey ? todo.dueDate : todayKey;
+    const nextDueDate = getNextOccurrence(todo.recurrence, baseKey);
+    const nextRef = doc(todosRef);
+    const batch = writeBatch(db);
+
+    batch.set(
+        nextRef,
+        buildTodoData({
+            title: todo.title,
+            goalId: todo.goalId,
+            dueDate: nextDueDate,
+            dueTime: todo.dueTime,
+            recurrence: todo.recurrence,
+            weight: todo.weight,
+            priority: todo.priority,
+            tags: todo.tags,
+            checklist: todo.checklist?.map((item) => ({ ...item, isDone: false })),
+            seriesId: todo.seriesId ?? todo.id,
+        })
+    );
+    batch.update(todoRef, {
+        isDone: true,
+        status: "done",
+        completedAt: serverTimestamp(),
+        nextOccurrenceId: nextRef.id,
+    });
+
+    await batch.commit();
+    return { id: nextRef.id, dueDate: nextDueDate };
+}
+
+export async function updateTodo(
+    uid: string,
+    todoId: string,
+    updates: TodoUpdates
 ): Promise<void> {
     const todoRef = doc(db, "users", uid, "todos", todoId);
-    await updateDoc(todoRef, { isDone });
+    const todoData: DocumentData = {};
+
+    // Firestore rejects undefined values, so an explicit undefined clears the field
+    Object.entries(updates).forEach(([key, value]) => {
+        todoData[key] = value === undefined ? deleteField() : value;
+    });
+
+    await updateDoc(todoRef, todoData);
 }
 
 export async function deleteTodo(uid: string, todoId: string): Promise<void> {
     const todoRef = doc(db, "users", uid, "todos", todoId);
-    await deleteDoc(todoRef);
+    await updateDoc(todoRef, { deletedAt: serverTimestamp() });
+}
+
+// Manual ordering: writes the sort keys of reordered todos or goals in one batch
+export async function updateSortKeys(
+    uid: string,
+    collectionName: "todos" | "goals",
+    updates: SortKeyUpdate[]
+): Promise<void> {
+    const batch = writeBatch(db);
+    updates.forEach(({ id, sortKey }) => {
+        batch.update(doc(db, "users", uid, collectionName, id), { sortKey });
+    });
+    await batch.commit();
+}
+
+// Smart lists
+export async function getSmartLists(uid: string): Promise<SmartList[]> {
+    const listsRef = collection(db, "users", uid, "smartLists");
+    const q = query(listsRef, orderBy("createdAt", "asc"));
+    const snapshot = await getDocs(q);
+
+    return snapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...doc.data(),
+    })) as SmartList[];
+}
+
+export async function addSmartList(uid: string, name: string, filter: TodoFilter): Promise<string> {
+    const listsRef = collection(db, "users", uid, "smartLists");
+    const docRef = await addDoc(listsRef, {
+        name,
+        filter,
+        createdAt: serverTimestamp(),
+    });
+    return docRef.id;
+}
+
+export async function deleteSmartList(uid: string, listId: string): Promise<void> {
+    const listRef = doc(db, "users", uid, "smartLists", listId);
+    await deleteDoc(listRef);
+}
+
+// User preferences
+export async function getPreferences(uid: string): Promise<UserPreferences> {
+    const snapshot = await getDoc(doc(db, "users", uid, "settings", "preferences"));
+    return (snapshot.data() as UserPreferences | undefined) ?? {};
+}
+
+export async function updatePreferences(
+    uid: string,
+    updates: Partial<UserPreferences>
+): Promise<void> {
+    await setDoc(doc(db, "users", uid, "settings", "preferences"), updates, { merge: true });
+}
+
+// Activity timer
+export async function getTimer(uid: string): Promise<ActivityTimer | null> {
+    const snapshot = await getDoc(doc(db, "users", uid, "settings", "timer"));
+    return (snapshot.data() as ActivityTimer | undefined) ?? null;
+}
+
+// null removes the timer
+export async function saveTimer(uid: string, timer: ActivityTimer | null): Promise<void> {
+    const timerRef = doc(db, "users", uid, "settings", "timer");
+    await (timer ? setDoc(timerRef, timer) : deleteDoc(timerRef));
 }
 
 // Daily Tracker CRUD
@@ -133,10 +601,12 @@ export async function getActivities(uid: string): Promise<Activity[]> {
     const q = query(activitiesRef, orderBy("createdAt", "desc"));
     const snapshot = await getDocs(q);
 
-    return snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-    })) as Activity[];
+    return withoutDeleted(
+        snapshot.docs.map((doc) => ({
+            id: doc.id,
+            ...doc.data(),
+        })) as Activity[]
+    );
 }
 
 export async function addActivity(uid: string, name: string): Promise<string> {
@@ -148,6 +618,95 @@ export async function addActivity(uid: string, name: string): Promise<string> {
     return docRef.id;
 }
 
+// Logs store their activity's name, so a rename is written to every one of them as well
+export async function updateActivity(
+    uid: string,
+    activityId: string,
+    updates: ActivityUpdates
+): Promise<void> {
+    const activityRef = doc(db, "users", uid, "activities", activityId);
+    const logs =
+        updates.name === undefined
+            ? []
+            : (
+                await getDocs(
+                    query(
+                        collection(db, "users", uid, "dailyLogs"),
+                        where("activityId", "==", activityId)
+                    )
+                )
+            ).docs;
+
+    const activityData: DocumentData = {};
+    Object.entries(updates).forEach(([key, value]) => {
+        activityData[key] = value === undefined ? deleteField() : value;
+    });
+
+    await commitInBatches([
+        (batch) => batch.update(activityRef, activityData),
+        ...logs.map((log) => (batch: WriteBatch) =>
+            batch.update(log.ref, { activityName: updates.name })
+        ),
+    ]);
+}
+
+export async function setActivityArchived(
+    uid: string,
+    activityId: string,
+    isArchived: boolean
+): Promise<void> {
+    const activityRef = doc(db, "users", uid, "activities", activityId);
+    await updateDoc(activityRef, { archivedAt: isArchived ? serverTimestamp() : deleteField() });
+}
+
+// Moves every log of `sourceId` (trashed ones too) to the target activity, points goals
+// that track the source (archived ones too) at the target and then deletes the source
+// for good
+export async function mergeActivity(
+    uid: string,
+    sourceId: string,
+    target: Pick<Activity, "id" | "name">
+): Promise<void> {
+    const [logs, goals, archivedGoals] = await Promise.all([
+        getDocs(query(collection(db, "users", uid, "dailyLogs"), where("activityId", "==", sourceId))),
+        getDocs(query(collection(db, "users", uid, "goals"), where("trackedActivityId", "==", sourceId))),
+        getDocs(
+            query(collection(db, "users", uid, "archivedGoals"), where("trackedActivityId", "==", sourceId))
+        ),
+    ]);
+
+    await commitInBatches([
+        ...logs.docs.map((log) => (batch: WriteBatch) =>
+            batch.update(log.ref, { activityId: target.id, activityName: target.name })
+        ),
+        ...[...goals.docs, ...archivedGoals.docs].map((goal) => (batch: WriteBatch) =>
+            batch.update(goal.ref, { trackedActivityId: target.id })
+        ),
+        (batch) => batch.delete(doc(db, "users", uid, "activities", sourceId)),
+    ]);
+}
+
+// Logs keep their activity when it is deleted, so they still show up under its name
+export async function deleteActivity(uid: string, activityId: string): Promise<void> {
+    const activityRef = doc(db, "users", uid, "activities", activityId);
+    await updateDoc(activityRef, { deletedAt: serverTimestamp() });
+}
+
+// Total minutes ever logged for an activity, summed server-side. Aggregations cannot skip
+// documents without a field, so minutes of trashed logs are summed separately and subtracted
+// (needs a composite index on activityId + deletedAt).
+export async function getActivityMinutes(uid: string, activityId: string): Promise<number> {
+    const logsRef = collection(db, "users", uid, "dailyLogs");
+    const q = query(logsRef, where("activityId", "==", activityId));
+    const [all, deleted] = await Promise.all([
+        getAggregateFromServer(q, { minutes: sum("durationMinutes") }),
+        getAggregateFromServer(query(q, where("deletedAt", "!=", null)), {
+            minutes: sum("durationMinutes"),
+        }),
+    ]);
+    return (all.data().minutes ?? 0) - (deleted.data().minutes ?? 0);
+}
+
 export async function getDailyLogs(
     uid: string,
     startDate: string,
@@ -162,10 +721,12 @@ export async function getDailyLogs(
     );
     const snapshot = await getDocs(q);
 
-    return snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-    })) as DailyLog[];
+    return withoutDeleted(
+        snapshot.docs.map((doc) => ({
+            id: doc.id,
+            ...doc.data(),
+        })) as DailyLog[]
+    );
 }
 
 export async function addDailyLog(
@@ -191,5 +752,490 @@ export async function updateDailyLog(
 
 export async function deleteDailyLog(uid: string, logId: string): Promise<void> {
     const logRef = doc(db, "users", uid, "dailyLogs", logId);
-    await deleteDoc(logRef);
+    await updateDoc(logRef, { deletedAt: serverTimestamp() });
+}
+
+// Creates the named activities and the imported logs in batches. Entries without an
+// activityId belong to the new activity of the same name. Returns the ids of the
+// activities that received logs.
+export async function importDailyLogs(
+    uid: string,
+    newActivityNames: string[],
+    entries: LogImportEntry[]
+): Promise<string[]> {
+    const activityIds = new Map(
+        newActivityNames.map((name) => [name, doc(collection(db, "users", uid, "activities")).id])
+    );
+
+    const operations = [
+        ...[...activityIds].map(([name, activityId]) => (batch: WriteBatch) =>
+            batch.set(doc(db, "users", uid, "activities", activityId), {
+                name,
+                createdAt: serverTimestamp(),
+            })
+        ),
+        ...entries.map(({ activityId, ...entry }) => (batch: WriteBatch) =>
+            batch.set(doc(collection(db, "users", uid, "dailyLogs")), {
+                ...entry,
+                activityId: activityId ?? activityIds.get(entry.activityName),
+                createdAt: serverTimestamp(),
+            })
+        ),
+    ];
+    await commitInBatches(operations);
+
+    const usedIds = entries.map((entry) => entry.activityId ?? activityIds.get(entry.activityName)!);
+    return [...new Set(usedIds)];
+}
+
+// Trash
+const TRASH_COLLECTIONS: TrashCollection[] = ["goals", "todos", "activities", "dailyLogs"];
+
+export async function getTrash(uid: string): Promise<TrashItems> {
+    const [goals, todos, activities, dailyLogs] = await Promise.all(
+        TRASH_COLLECTIONS.map(async (collectionName) => {
+            const q = query(
+                collection(db, "users", uid, collectionName),
+                where("deletedAt", "!=", null),
+                orderBy("deletedAt", "desc")
+            );
+            const snapshot = await getDocs(q);
+            return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }));
+        })
+    );
+
+    return {
+        goals: goals as Goal[],
+        todos: todos as Todo[],
+        activities: activities as Activity[],
+        dailyLogs: dailyLogs as DailyLog[],
+    };
+}
+
+export async function restoreTrashItem(
+    uid: string,
+    collectionName: TrashCollection,
+    itemId: string
+): Promise<void> {
+    const itemRef = doc(db, "users", uid, collectionName, itemId);
+    await updateDoc(itemRef, { deletedAt: deleteField() });
+}
+
+export async function deleteTrashItemPermanently(
+    uid: string,
+    collectionName: TrashCollection,
+    itemId: string
+): Promise<void> {
+    if (collectionName === "goals") await purgeGoalHistory(uid, itemId);
+    await deleteDoc(doc(db, "users", uid, collectionName, itemId));
+}
+
+// Permanently deletes everything trashed before `before`; returns how many items went
+export async function purgeTrash(uid: string, before: Date): Promise<number> {
+    const expired = await Promise.all(
+        TRASH_COLLECTIONS.map(async (collectionName) => {
+            const q = query(
+                collection(db, "users", uid, collectionName),
+                where("deletedAt", "<", Timestamp.fromDate(before))
+            );
+            const snapshot = await getDocs(q);
+            return snapshot.docs.map((item) => ({ collectionName, id: item.id }));
+        })
+    );
+
+    const items = expired.flat();
+    await Promise.all(
+        items.map((item) => deleteTrashItemPermanently(uid, item.collectionName, item.id))
+    );
+    return items.length;
+}
+
+// Archive
+// Archived todos and goals move to archivedTodos / archivedGoals under the same ids, so
+// getTodos and getGoals never load them. A goal's history subcollections stay under
+// goals/{goalId} and are picked up again when it is unarchived.
+const ARCHIVE_COLLECTIONS: Record<ArchiveCollection, string> = {
+    todos: "archivedTodos",
+    goals: "archivedGoals",
+};
+
+// Each archived todo takes two writes, well under the 500-write batch limit
+const ARCHIVE_BATCH_SIZE = 200;
+
+function isArchivableTodo(todo: DocumentSnapshot): boolean {
+    const data = todo.data();
+    return !!data?.isDone && !data.deletedAt;
+}
+
+function toArchivedData(data: DocumentData): DocumentData {
+    return { ...data, searchTitle: toSearchTitle(data.title ?? ""), archivedAt: serverTimestamp() };
+}
+
+function fromArchivedData(data: DocumentData): DocumentData {
+    const restored = { ...data };
+    delete restored.searchTitle;
+    delete restored.archivedAt;
+    return restored;
+}
+
+function totalsIncrement(delta: ArchivedTodoTotals, sign: 1 | -1): DocumentData {
+    return {
+        "archivedTodos.count": increment(sign * delta.count),
+        "archivedTodos.weight": increment(sign * delta.weight),
+        "archivedTodos.supersededCount": increment(sign * delta.supersededCount),
+        "archivedTodos.supersededWeight": increment(sign * delta.supersededWeight),
+    };
+}
+
+// A goal is either active or archived; null once it has been permanently deleted
+async function findGoalRef(uid: string, goalId: string): Promise<DocumentReference | null> {
+    const activeRef = doc(db, "users", uid, "goals", goalId);
+    const archivedRef = doc(db, "users", uid, "archivedGoals", goalId);
+    const [active, archived] = await Promise.all([getDoc(activeRef), getDoc(archivedRef)]);
+    if (active.exists()) return activeRef;
+    return archived.exists() ? archivedRef : null;
+}
+
+// Moves completed todos to the archive and adds them to their goals' archived totals
+async function archiveTodoDocs(uid: string, todos: DocumentSnapshot[]): Promise<number> {
+    const goalIds = [...new Set(todos.map((todo) => todo.data()?.goalId as string | undefined))];
+    const goalRefs = new Map<string, DocumentReference | null>();
+    await Promise.all(
+        goalIds.map(async (goalId) => {
+            if (goalId) goalRefs.set(goalId, await findGoalRef(uid, goalId));
+        })
+    );
+
+    for (let start = 0; start < todos.length; start += ARCHIVE_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        const goalDeltas = new Map<string, ArchivedTodoTotals>();
+
+        todos.slice(start, start + ARCHIVE_BATCH_SIZE).forEach((todo) => {
+            const data = todo.data()!;
+            batch.set(doc(db, "users", uid, "archivedTodos", todo.id), toArchivedData(data));
+            batch.delete(todo.ref);
+            if (data.goalId && goalRefs.get(data.goalId)) {
+                const delta = getArchivedTodoDelta({ id: todo.id, ...data } as Todo);
+                goalDeltas.set(data.goalId, addArchivedTotals(goalDeltas.get(data.goalId), delta));
+            }
+        });
+        goalDeltas.forEach((delta, goalId) => batch.update(goalRefs.get(goalId)!, totalsIncrement(delta, 1)));
+
+        await batch.commit();
+    }
+
+    return todos.length;
+}
+
+// Open or trashed todos are skipped; returns how many were archived
+export async function archiveTodos(uid: string, todoIds: string[]): Promise<number> {
+    const todos = await Promise.all(
+        todoIds.map((todoId) => getDoc(doc(db, "users", uid, "todos", todoId)))
+    );
+    return archiveTodoDocs(uid, todos.filter(isArchivableTodo));
+}
+
+export async function unarchiveTodo(uid: string, todoId: string): Promise<void> {
+    const archivedRef = doc(db, "users", uid, "archivedTodos", todoId);
+    const archived = await getDoc(archivedRef);
+    if (!archived.exists()) throw new Error("Todo not found");
+
+    const data = fromArchivedData(archived.data());
+    const goalRef = data.goalId ? await findGoalRef(uid, data.goalId) : null;
+    const batch = writeBatch(db);
+    batch.set(doc(db, "users", uid, "todos", todoId), data);
+    batch.delete(archivedRef);
+    if (goalRef) {
+        batch.update(goalRef, totalsIncrement(getArchivedTodoDelta({ id: todoId, ...data } as Todo), -1));
+    }
+    await batch.commit();
+}
+
+// Archives the goal together with its sub-goals and their completed todos; open todos stay
+// linked and the goal shows up again once it is unarchived. Returns the archived goal ids.
+export async function archiveGoal(uid: string, goalId: string): Promise<string[]> {
+    const goalsRef = collection(db, "users", uid, "goals");
+    const todosRef = collection(db, "users", uid, "todos");
+    const allGoals = await getDocs(goalsRef);
+    const goals = withoutDeleted(
+        allGoals.docs.map((goal) => ({ id: goal.id, ...goal.data() })) as Goal[]
+    );
+    if (!goals.some((goal) => goal.id === goalId)) throw new Error("Goal not found");
+
+    const goalIds = [goalId, ...getDescendantIds(goals, goalId)];
+    const linkedTodos = await Promise.all(
+        goalIds.map((id) => getDocs(query(todosRef, where("goalId", "==", id))))
+    );
+    await archiveTodoDocs(
+        uid,
+        linkedTodos.flatMap((snapshot) => snapshot.docs).filter(isArchivableTodo)
+    );
+
+    // Re-read so the archived copies include the totals just added
+    const archivedGoals = await Promise.all(goalIds.map((id) => getDoc(doc(goalsRef, id))));
+    const batch = writeBatch(db);
+    archivedGoals.forEach((goal) => {
+        if (!goal.exists()) return;
+        batch.set(doc(db, "users", uid, "archivedGoals", goal.id), toArchivedData(goal.data()));
+        batch.delete(goal.ref);
+    });
+    await batch.commit();
+
+    return goalIds;
+}
+
+// Brings the goal back together with any of its sub-goals that are still archived;
+// archived todos stay in the archive and keep counting through the goal's totals
+export async function unarchiveGoal(uid: string, goalId: string): Promise<void> {
+    const archivedRef = collection(db, "users", uid, "archivedGoals");
+    const goal = await getDoc(doc(archivedRef, goalId));
+    if (!goal.exists()) throw new Error("Goal not found");
+
+    const restored: DocumentSnapshot[] = [goal];
+    const seen = new Set([goalId]);
+    for (let index = 0; index < restored.length; index += 1) {
+        const children = await getDocs(
+            query(archivedRef, where("parentGoalId", "==", restored[index].id))
+        );
+        children.docs.forEach((child) => {
+            if (seen.has(child.id)) return;
+            seen.add(child.id);
+            restored.push(child);
+        });
+    }
+
+    const batch = writeBatch(db);
+    restored.forEach((item) => {
+        batch.set(doc(db, "users", uid, "goals", item.id), fromArchivedData(item.data()!));
+        batch.delete(item.ref);
+    });
+    await batch.commit();
+}
+
+// Newest first, or matching titles in alphabetical order when searching. Search is a
+// case-insensitive title prefix match, the closest Firestore gets to text search.
+export async function getArchivedItems<T extends Todo | Goal>(
+    uid: string,
+    collectionName: ArchiveCollection,
+    search: string,
+    cursor: QueryDocumentSnapshot | null
+): Promise<Page<T>> {
+    const term = toSearchTitle(search);
+    const constraints: QueryConstraint[] = term
+        ? [
+            where("searchTitle", ">=", term),
+            where("searchTitle", "<=", `${term}\uf8ff`),
+            orderBy("searchTitle", "asc"),
+        ]
+        : [orderBy("archivedAt", "desc")];
+
+    return getPage<T>(
+        query(collection(db, "users", uid, ARCHIVE_COLLECTIONS[collectionName]), ...constraints),
+        cursor,
+        ARCHIVE_PAGE_SIZE
+    );
+}
+
+export async function getArchiveCounts(uid: string): Promise<Record<ArchiveCollection, number>> {
+    const [todos, goals] = await Promise.all(
+        (["todos", "goals"] as const).map((collectionName) =>
+            getCountFromServer(collection(db, "users", uid, ARCHIVE_COLLECTIONS[collectionName]))
+        )
+    );
+    return { todos: todos.data().count, goals: goals.data().count };
+}
+
+// Archives todos and goals completed before `before`; returns how many items went
+export async function autoArchive(uid: string, before: Date): Promise<number> {
+    const cutoff = Timestamp.fromDate(before);
+    const [todos, goals] = await Promise.all([
+        getDocs(query(collection(db, "users", uid, "todos"), where("completedAt", "<", cutoff))),
+        getDocs(query(collection(db, "users", uid, "goals"), where("completedAt", "<", cutoff))),
+    ]);
+
+    let count = await archiveTodoDocs(uid, todos.docs.filter(isArchivableTodo));
+
+    // Sub-goals leave together with an archived parent
+    const archivedGoalIds = new Set<string>();
+    for (const goal of goals.docs) {
+        if (goal.data().deletedAt || archivedGoalIds.has(goal.id)) continue;
+        const ids = await archiveGoal(uid, goal.id);
+        ids.forEach((id) => archivedGoalIds.add(id));
+        count += ids.length;
+    }
+
+    return count;
+}
+
+// Backup
+// Every document of the backed-up collections, trashed ones included. Archived items and
+// goal history are not part of a backup.
+export async function getBackupData(uid: string): Promise<BackupData> {
+    const [activities, goals, todos, dailyLogs] = await Promise.all(
+        BACKUP_COLLECTIONS.map(async (collectionName) => {
+            const snapshot = await getDocs(collection(db, "users", uid, collectionName));
+            return snapshot.docs.map((item) => ({ id: item.id, ...item.data() }));
+        })
+    );
+
+    return {
+        activities: activities as Activity[],
+        goals: goals as Goal[],
+        todos: todos as Todo[],
+        dailyLogs: dailyLogs as DailyLog[],
+    };
+}
+
+export function createDocumentId(uid: string, collectionName: BackupCollection): string {
+    return doc(collection(db, "users", uid, collectionName)).id;
+}
+
+// Runs the deletes of an import plan (with the deleted goals' history), then its writes.
+// Replacing also empties the archive, whose items would no longer match any goal.
+export async function applyImport(uid: string, plan: ImportPlan): Promise<void> {
+    const [archivedTodos, archivedGoals] =
+        plan.mode === "replace"
+            ? await Promise.all(
+                (["todos", "goals"] as const).map(async (collectionName) => {
+                    const snapshot = await getDocs(
+                        collection(db, "users", uid, ARCHIVE_COLLECTIONS[collectionName])
+                    );
+                    return snapshot.docs;
+                })
+            )
+            : [[], []];
+
+    await Promise.all([
+        ...plan.deletes
+            .filter((item) => item.collection === "goals")
+            .map((item) => purgeGoalHistory(uid, item.id)),
+        ...archivedGoals.map((goal) => purgeGoalHistory(uid, goal.id)),
+    ]);
+
+    const operations = [
+        ...[...archivedTodos, ...archivedGoals].map((item) => (batch: WriteBatch) =>
+            batch.delete(item.ref)
+        ),
+        ...plan.deletes.map((item) => (batch: WriteBatch) =>
+            batch.delete(doc(db, "users", uid, item.collection, item.id))
+        ),
+        ...plan.writes.map((item) => (batch: WriteBatch) =>
+            batch.set(doc(db, "users", uid, item.collection, item.id), item.data)
+        ),
+    ];
+    await commitInBatches(operations);
+}
+
+// Live updates
+export type LiveChange<T> = { type: "added" | "modified" | "removed"; item: T };
+
+export type LiveSnapshot<T> = {
+    // Every document matching the query, trashed ones included
+    items: T[];
+    changes: LiveChange<T>[];
+    // Served from the local cache while the connection is down or being set up
+    fromCache: boolean;
+    // Contains this browser's own writes that the server has not confirmed yet
+    hasPendingWrites: boolean;
+};
+
+export type LiveListener<T> = {
+    onNext: (snapshot: LiveSnapshot<T>) => void;
+    onError: (error: Error) => void;
+};
+
+// Metadata changes are included so the listener also hears when the data goes from
+// cached to confirmed by the server, which is how the connection state is told apart
+function subscribe<T>(q: Query, { onNext, onError }: LiveListener<T>): Unsubscribe {
+    return onSnapshot(
+        q,
+        { includeMetadataChanges: true },
+        (snapshot) => {
+            const toItem = (item: QueryDocumentSnapshot) => ({ id: item.id, ...item.data() }) as T;
+            onNext({
+                items: snapshot.docs.map(toItem),
+                changes: snapshot.docChanges().map((change) => ({
+                    type: change.type,
+                    item: toItem(change.doc),
+                })),
+                fromCache: snapshot.metadata.fromCache,
+                hasPendingWrites: snapshot.metadata.hasPendingWrites,
+            });
+        },
+        onError
+    );
+}
+
+export function subscribeToGoals(uid: string, listener: LiveListener<Goal>): Unsubscribe {
+    const goalsRef = collection(db, "users", uid, "goals");
+    return subscribe(query(goalsRef, orderBy("createdAt", "desc")), listener);
+}
+
+export function subscribeToActivities(uid: string, listener: LiveListener<Activity>): Unsubscribe {
+    const activitiesRef = collection(db, "users", uid, "activities");
+    return subscribe(query(activitiesRef, orderBy("createdAt", "desc")), listener);
+}
+
+// Todos created at or after `since`, i.e. the loaded pages of the list plus anything newer.
+// Bounded by time rather than a limit, so removals are real deletions and never todos
+// pushed out of the window.
+export function subscribeToTodosSince(
+    uid: string,
+    since: Timestamp,
+    listener: LiveListener<Todo>
+): Unsubscribe {
+    const todosRef = collection(db, "users", uid, "todos");
+    return subscribe(
+        query(todosRef, where("createdAt", ">=", since), orderBy("createdAt", "desc")),
+        listener
+    );
+}
+
+export function subscribeToDailyLogs(
+    uid: string,
+    startDate: string,
+    endDate: string,
+    listener: LiveListener<DailyLog>
+): Unsubscribe {
+    const logsRef = collection(db, "users", uid, "dailyLogs");
+    return subscribe(
+        query(
+            logsRef,
+            where("date", ">=", startDate),
+            where("date", "<=", endDate),
+            orderBy("date", "asc")
+        ),
+        listener
+    );
+}
+
+// Offline queue
+export type SyncCollection = "todos" | "goals" | "activities" | "dailyLogs";
+
+const SYNC_COLLECTIONS: SyncCollection[] = ["todos", "goals", "activities", "dailyLogs"];
+
+export type DocumentVersion = { collection: SyncCollection; data: DocumentData };
+
+// The last version of a document this browser received from the server, looked up by id
+// alone since ids are unique across collections. Null when it is not in the local cache.
+export async function getCachedVersion(uid: string, id: string): Promise<DocumentVersion | null> {
+    for (const collectionName of SYNC_COLLECTIONS) {
+        try {
+            const snapshot = await getDocFromCache(doc(db, "users", uid, collectionName, id));
+            if (snapshot.exists()) return { collection: collectionName, data: snapshot.data() };
+        } catch {
+            // Not cached in this collection
+        }
+    }
+    return null;
+}
+
+// The document as the server has it now; null once it has been deleted for good
+export async function getServerVersion(
+    uid: string,
+    collectionName: SyncCollection,
+    id: string
+): Promise<DocumentData | null> {
+    const snapshot = await getDocFromServer(doc(db, "users", uid, collectionName, id));
+    return snapshot.exists() ? snapshot.data() : null;
 }
@@ -0,0 +1,153 @@
+import { addDays, differenceInCalendarDays, format, parseISO, subDays } from "date-fns";
+import type { Goal, Milestone, Todo } from "@/types";
+import { getTodoCompletion, getTodoWeight, type GoalProgress } from "./goalProgress";
+import { getDescendantIds } from "./goalTree";
+
+export type ForecastStatus = "on_track" | "at_risk" | "behind";
+
+export type GoalForecast = {
+    status: ForecastStatus | null;
+    predictedFinish: string | null;
+    // Effort points completed per day over the recent window
+    ratePerDay: number;
+};
+
+export type MilestoneProgress = {
+    total: number;
+    done: number;
+    isOverdue: boolean;
+};
+
+const RATE_WINDOW_DAYS = 28;
+// A predicted finish within this many days past the target is "at risk" rather than "behind"
+const AT_RISK_GRACE_DAYS = 7;
+
+export function getMilestoneProgress(
+    milestone: Milestone,
+    todosById: Map<string, Todo>,
+    todayKey: string
+): MilestoneProgress {
+    const linked = milestone.todoIds
+        .map((todoId) => todosById.get(todoId))
+        .filter((todo): todo is Todo => !!todo);
+    const done = linked.filter((todo) => todo.isDone).length;
+    return {
+        total: linked.length,
+        done,
+        isOverdue: milestone.dueDate < todayKey && done < linked.length,
+    };
+}
+
+// Completion rate of the goal's linked todos: effort points completed per day within the
+// last RATE_WINDOW_DAYS, falling back to the whole goal lifetime for todos completed
+// before completion times were recorded.
+function getCompletionRate(goal: Goal, goalTodos: Todo[], today: Date): number {
+    const windowStart = subDays(today, RATE_WINDOW_DAYS);
+    const goalStart = goal.createdAt ? goal.createdAt.toDate() : windowStart;
+    const start = goalStart > windowStart ? goalStart : windowStart;
+    const windowDays = Math.max(1, differenceInCalendarDays(today, start));
+
+    const recentWeight = goalTodos
+        .filter((todo) => todo.isDone && todo.completedAt && todo.completedAt.toDate() >= start)
+        .reduce((total, todo) => total + getTodoWeight(todo), 0);
+    if (recentWeight > 0) return recentWeight / windowDays;
+
+    const hasCompletionTimes = goalTodos.some((todo) => todo.completedAt);
+    if (hasCompletionTimes) return 0;
+
+    const lifetimeDays = Math.max(1, differenceInCalendarDays(today, goalStart));
+    const completedWeight = goalTodos.reduce(
+        (total, todo) => total + getTodoWeight(todo) * getTodoCompletion(todo),
+        0
+    );
+    return completedWeight / lifetimeDays;
+}
+
+// Effort still open across the goals, from their stored todo totals so todos beyond the
+// loaded pages count too; goals without totals yet fall back to the loaded todos
+function getRemainingWeight(goals: Goal[], goalTodos: Todo[]): number {
+    return goals.reduce((total, goal) => {
+        if (goal.todoTotals) {
+            return total + goal.todoTotals.weight - goal.todoTotals.completedWeight;
+        }
+        return goalTodos
+            .filter((todo) => todo.goalId === goal.id)
+            .reduce((sum, todo) => sum + getTodoWeight(todo) * (1 - getTodoCompletion(todo)), total);
+    }, 0);
+}
+
+function toStatus(
+    predictedFinish: string | null,
+    targetDate: string | undefined,
+    todayKey: string
+): ForecastStatus | null {
+    if (!targetDate) return null;
+    if (targetDate < todayKey) return "behind";
+    if (!predictedFinish) return "at_risk";
+    if (predictedFinish <= targetDate) return "on_track";
+    const graceEnd = format(addDays(parseISO(targetDate), AT_RISK_GRACE_DAYS), "yyyy-MM-dd");
+    return predictedFinish <= graceEnd ? "at_risk" : "behind";
+}
+
+// Forecasts only todo-driven goals: manual and time-based goals have no todo completion rate
+export function forecastGoal(
+    goal: Goal,
+    todos: Todo[],
+    progress: GoalProgress,
+    todayKey: string,
+    subGoals: Goal[] = []
+): GoalForecast {
+    if (progress.percent >= 100) {
+        return { status: goal.targetDate ? "on_track" : null, predictedFinish: null, ratePerDay: 0 };
+    }
+    if (goal.progressMode && goal.progressMode !== "todos") {
+        return { status: null, predictedFinish: null, ratePerDay: 0 };
+    }
+
+    const today = parseISO(todayKey);
+    // A parent goal is forecast from its own todos plus those of its sub-goals
+    const goalIds = new Set([goal.id, ...subGoals.map((subGoal) => subGoal.id)]);
+    const goalTodos = todos.filter((todo) => todo.goalId && goalIds.has(todo.goalId));
+    const ratePerDay = getCompletionRate(goal, goalTodos, today);
+    const remainingWeight = getRemainingWeight([goal, ...subGoals], goalTodos);
+    const predictedFinish =
+        ratePerDay > 0 && remainingWeight > 0
+            ? format(addDays(today, Math.ceil(remainingWeight / ratePerDay)), "yyyy-MM-dd")
+            : null;
+
+    let status = toStatus(predictedFinish, goal.targetDate, todayKey);
+
+    // An overdue milestone means the plan is already slipping
+    if (status === "on_track" && goal.milestones?.length) {
+        const todosById = new Map(todos.map((todo) => [todo.id, todo]));
+        const hasOverdueMilestone = goal.milestones.some(
+            (milestone) => getMilestoneProgress(milestone, todosById, todayKey).isOverdue
+        );
+        if (hasOverdueMilestone) status = "at_risk";
+    }
+
+    return { status, predictedFinish, ratePerDay };
+}
+
+// `todos` may be just the loaded pages: the completion rate is estimated from them, while
+// the remaining effort comes from each goal's stored totals
+export function buildGoalForecastMap(
+    goals: Goal[],
+    todos: Todo[],
+    progressMap: Record<string, GoalProgress>,
+    todayKey: string
+): Record<string, GoalForecast> {
+    const forecastMap: Record<string, GoalForecast> = {};
+    goals.forEach((goal) => {
+        const progress = progressMap[goal.id] ?? { total: 0, done: 0, percent: 0 };
+        const subGoalIds = new Set(getDescendantIds(goals, goal.id));
+        forecastMap[goal.id] = forecastGoal(
+            goal,
+            todos,
+            progress,
+            todayKey,
+            goals.filter((item) => subGoalIds.has(item.id))
+        );
+    });
+    return forecastMap;
+}
@@ -1,4 +1,6 @@
-import type { Goal, Todo } from "@/types";
+import type { Goal, GoalTodoTotals, Todo } from "@/types";
+import type { TargetProgress } from "./activityTargets";
+import { buildGoalTree, type GoalTreeNode } from "./goalTree";
 
 export type GoalProgress = {
     total: number;
@@ -6,31 +8,161 @@ export type GoalProgress = {
     percent: number;
 };
 
-export function buildGoalProgressMap(goals: Goal[], todos: Todo[]): Record<string, GoalProgress> {
+// Fraction of a todo that is complete: 1 when done, otherwise the share of its
+// checklist items that are checked (0 for todos without a checklist)
+export function getTodoCompletion(todo: Todo): number {
+    if (todo.isDone) return 1;
+    if (!todo.checklist?.length) return 0;
+    const checked = todo.checklist.filter((item) => item.isDone).length;
+    return checked / todo.checklist.length;
+}
+
+// Effort points of a todo; todos without a valid weight count as 1 point
+export function getTodoWeight(todo: Todo): number {
+    return todo.weight !== undefined && Number.isFinite(todo.weight) && todo.weight > 0
+        ? todo.weight
+        : 1;
+}
+
+export function calculateTimePercent(trackedMinutes: number, targetMinutes?: number): number {
+    if (!targetMinutes || targetMinutes <= 0) return 0;
+    return Math.min(100, Math.round((trackedMinutes / targetMinutes) * 100));
+}
+
+// A recurring instance is superseded once its next occurrence exists; in "latest" mode
+// only the newest instance of each series counts, in "all" mode every instance does.
+function isSupersededOccurrence(todo: Todo, todoIds: Set<string>): boolean {
+    return !!todo.recurrence && !!todo.nextOccurrenceId && todoIds.has(todo.nextOccurrenceId);
+}
+
+// Weight of a sub-goal in its parent's "weighted" rollup; defaults to 1
+export function getRollupWeight(goal: Goal): number {
+    return goal.rollupWeight !== undefined && Number.isFinite(goal.rollupWeight) && goal.rollupWeight > 0
+        ? goal.rollupWeight
+        : 1;
+}
+
+// Archived todos are all done, so they add the same amount to a goal's total and done counts
+function getArchivedProgress(goal: Goal): { count: number; weight: number } {
+    const totals = goal.archivedTodos;
+    if (!totals) return { count: 0, weight: 0 };
+    if (goal.recurringProgress === "latest") {
+        return {
+            count: totals.count - totals.supersededCount,
+            weight: totals.weight - totals.supersededWeight,
+        };
+    }
+    return { count: totals.count, weight: totals.weight };
+}
+
+// Totals of one goal's own linked todos (`todos` may include other todos; they are
+// ignored). In "latest" mode only the newest instance of each recurring series counts.
+export function computeTodoTotals(goal: Goal, todos: Todo[]): GoalTodoTotals {
+    const todoIds = new Set(todos.map((todo) => todo.id));
+    const totals: GoalTodoTotals = { total: 0, done: 0, weight: 0, completedWeight: 0 };
+
+    todos.forEach((todo) => {
+        if (todo.goalId !== goal.id) return;
+        if (goal.recurringProgress === "latest" && isSupersededOccurrence(todo, todoIds)) return;
+        const weight = getTodoWeight(todo);
+        totals.total += 1;
+        if (todo.isDone) totals.done += 1;
+        totals.weight += weight;
+        totals.completedWeight += weight * getTodoCompletion(todo);
+    });
+
+    return totals;
+}
+
+// Single source of truth for goal percentages. Todo-driven goals use their stored
+// todoTotals plus archived todos, so the result does not depend on how many todos are
+// loaded. `trackedMinutes` maps activity ids to their total logged minutes and is only
+// needed for goals in "time" mode; `targetProgress` maps them to their progress toward
+// their time target and is only needed in "activityTarget" mode. Parent goals include
+// their sub-goals according to their rollupMode.
+export function buildGoalProgressMap(
+    goals: Goal[],
+    trackedMinutes: Record<string, number> = {},
+    targetProgress: Record<string, TargetProgress> = {}
+): Record<string, GoalProgress> {
     const progressMap: Record<string, GoalProgress> = {};
+    const weights: Record<string, { total: number; completed: number }> = {};
 
     goals.forEach((goal) => {
-        progressMap[goal.id] = { total: 0, done: 0, percent: 0 };
+        const totals = goal.todoTotals;
+        const archived = getArchivedProgress(goal);
+        progressMap[goal.id] = {
+            total: (totals?.total ?? 0) + archived.count,
+            done: (totals?.done ?? 0) + archived.count,
+            percent: 0,
+        };
+        weights[goal.id] = {
+            total: (totals?.weight ?? 0) + archived.weight,
+            completed: (totals?.completedWeight ?? 0) + archived.weight,
+        };
     });
 
-    todos.forEach((todo) => {
-        if (!todo.goalId) return;
-        const entry = progressMap[todo.goalId];
-        if (!entry) return;
-        entry.total += 1;
-        if (todo.isDone) {
-            entry.done += 1;
-        }
-    });
+    // Sub-goals are resolved before their parents; buildGoalTree has already broken any cycles
+    const resolve = (node: GoalTreeNode): { total: number; completed: number } => {
+        const { goal } = node;
+        const entry = progressMap[goal.id];
+        const subtreeWeights = { ...weights[goal.id] };
+        const childPercents: { percent: number; weight: number }[] = [];
+
+        node.children.forEach((child) => {
+            const childWeights = resolve(child);
+            const childEntry = progressMap[child.goal.id];
+            entry.total += childEntry.total;
+            entry.done += childEntry.done;
+            subtreeWeights.total += childWeights.total;
+            subtreeWeights.completed += childWeights.completed;
+            childPercents.push({ percent: childEntry.percent, weight: getRollupWeight(child.goal) });
+        });
 
-    Object.values(progressMap).forEach((entry) => {
-        if (entry.total === 0) {
-            entry.percent = 0;
-        } else {
-            entry.percent = Math.round((entry.done / entry.total) * 100);
+        switch (goal.progressMode) {
+            case "manual":
+                entry.percent = Math.max(0, Math.min(100, Math.round(goal.currentPercent)));
+                break;
+            case "time": {
+                // Falls back to the stored percentage until tracked minutes are loaded
+                const minutes = goal.trackedActivityId ? trackedMinutes[goal.trackedActivityId] : 0;
+                entry.percent =
+                    minutes === undefined
+                        ? Math.max(0, Math.min(100, Math.round(goal.currentPercent)))
+                        : calculateTimePercent(minutes, goal.targetMinutes);
+                break;
+            }
+            case "activityTarget": {
+                // Also falls back while loading, or when the activity has no target (anymore)
+                const target = goal.trackedActivityId ? targetProgress[goal.trackedActivityId] : undefined;
+                entry.percent = target
+                    ? target.percent
+                    : Math.max(0, Math.min(100, Math.round(goal.currentPercent)));
+                break;
+            }
+            default:
+                // Until its totals are first synced a goal shows its stored percentage
+                if (!goal.todoTotals && childPercents.length === 0) {
+                    entry.percent = Math.max(0, Math.min(100, Math.round(goal.currentPercent)));
+                } else if (goal.rollupMode === "weighted" && childPercents.length > 0) {
+                    const { total, completed } = weights[goal.id];
+                    if (total > 0) childPercents.push({ percent: (completed / total) * 100, weight: 1 });
+                    const weightSum = childPercents.reduce((sum, item) => sum + item.weight, 0);
+                    const weightedSum = childPercents.reduce(
+                        (sum, item) => sum + item.percent * item.weight,
+                        0
+                    );
+                    entry.percent = Math.round(weightedSum / weightSum);
+                } else {
+                    const { total, completed } = subtreeWeights;
+                    entry.percent = total === 0 ? 0 : Math.round((completed / total) * 100);
+                }
         }
-    });
+
+        return subtreeWeights;
+    };
+
+    buildGoalTree(goals).forEach(resolve);
 
     return progressMap;
 }
-
@@ -0,0 +1,182 @@
+import type { QueryClient } from "@tanstack/react-query";
+import { Timestamp } from "firebase/firestore";
+import {
+    getActivities,
+    getActivityMinutes,
+    getDailyLogs,
+    getGoalTodos,
+    saveProgressSnapshot,
+    updateGoalProgress,
+} from "./firestore";
+import { getTargetPeriodRange, getTargetProgress, type TargetProgress } from "./activityTargets";
+import {
+    buildGoalProgressMap,
+    calculateTimePercent,
+    computeTodoTotals,
+    type GoalProgress,
+} from "./goalProgress";
+import { toDateKey } from "./dueDates";
+import { getAncestorIds } from "./goalTree";
+import type { Activity, Goal, GoalTodoTotals } from "@/types";
+
+// Writes the goal's current percentage (plus freshly counted todo totals) and overwrites
+// today's progress snapshot. The cached goal's completedAt is kept in step so it is only
+// stamped once.
+async function persistProgress(
+    queryClient: QueryClient,
+    uid: string,
+    goal: Goal,
+    progress: GoalProgress,
+    todoTotals?: GoalTodoTotals
+) {
+    await Promise.all([
+        updateGoalProgress(uid, goal.id, progress.percent, {
+            wasComplete: !!goal.completedAt,
+            todoTotals,
+        }),
+        saveProgressSnapshot(uid, { goalId: goal.id, date: toDateKey(new Date()), ...progress }),
+    ]);
+    queryClient.setQueryData<Goal[]>(["goals", uid], (old) =>
+        old?.map((item) =>
+            item.id === goal.id
+                ? {
+                    ...item,
+                    completedAt:
+                        progress.percent >= 100 ? (item.completedAt ?? Timestamp.now()) : undefined,
+                }
+                : item
+        )
+    );
+    await queryClient.invalidateQueries({ queryKey: ["progressSnapshots", uid] });
+}
+
+// Progress of an activity toward its time target in the current period, or null when it
+// has none. Activities come from the cache, which already holds a target just edited.
+async function getActivityTargetProgress(
+    queryClient: QueryClient,
+    uid: string,
+    activityId: string
+): Promise<TargetProgress | null> {
+    const activities = queryClient.getQueryData<Activity[]>(["activities", uid]) ?? (await getActivities(uid));
+    const target = activities.find((activity) => activity.id === activityId)?.target;
+    if (!target) return null;
+
+    const { startDate, endDate } = getTargetPeriodRange(target.period, new Date());
+    const minutes = (await getDailyLogs(uid, startDate, endDate))
+        .filter((log) => log.activityId === activityId)
+        .reduce((sum, log) => sum + log.durationMinutes, 0);
+    return getTargetProgress(minutes, target);
+}
+
+async function refreshGoalProgress(
+    queryClient: QueryClient,
+    uid: string,
+    goalIds: (string | undefined)[]
+) {
+    const cachedGoals = queryClient.getQueryData<Goal[]>(["goals", uid]);
+    if (!cachedGoals) return;
+
+    const changedGoals = cachedGoals.filter((goal) => goalIds.includes(goal.id));
+    if (changedGoals.length === 0) return;
+
+    // Counted from the server, never from the loaded pages of the todo list
+    const recounted = new Map<string, GoalTodoTotals>();
+    await Promise.all(
+        changedGoals.map(async (goal) => {
+            recounted.set(goal.id, computeTodoTotals(goal, await getGoalTodos(uid, goal.id)));
+        })
+    );
+
+    // The cache may have changed while counting, so the totals go into its latest state
+    const goals = (queryClient.getQueryData<Goal[]>(["goals", uid]) ?? cachedGoals).map((goal) =>
+        recounted.has(goal.id) ? { ...goal, todoTotals: recounted.get(goal.id) } : goal
+    );
+    queryClient.setQueryData<Goal[]>(["goals", uid], goals);
+
+    const progressMap = buildGoalProgressMap(goals);
+
+    // A sub-goal's change also moves every goal above it
+    const affectedGoalIds = new Set<string>();
+    changedGoals.forEach((goal) => {
+        affectedGoalIds.add(goal.id);
+        getAncestorIds(goals, goal.id).forEach((ancestorId) => affectedGoalIds.add(ancestorId));
+    });
+
+    await Promise.all(
+        [...affectedGoalIds].map(async (goalId) => {
+            const goal = goals.find((item) => item.id === goalId);
+            if (!goal) return;
+            const todoTotals = recounted.get(goal.id);
+
+            switch (goal.progressMode) {
+                // The percentage stays as set; the totals still feed parent goals
+                case "manual":
+                    if (todoTotals) {
+                        await updateGoalProgress(uid, goal.id, goal.currentPercent, {
+                            wasComplete: !!goal.completedAt,
+                            todoTotals,
+                        });
+                    }
+                    return;
+                case "time": {
+                    const { trackedActivityId, targetMinutes } = goal;
+                    if (!trackedActivityId) return;
+                    const minutes = await getActivityMinutes(uid, trackedActivityId);
+                    await persistProgress(
+                        queryClient,
+                        uid,
+                        goal,
+                        { ...progressMap[goal.id], percent: calculateTimePercent(minutes, targetMinutes) },
+                        todoTotals
+                    );
+                    return;
+                }
+                case "activityTarget": {
+                    if (!goal.trackedActivityId) return;
+                    const target = await getActivityTargetProgress(queryClient, uid, goal.trackedActivityId);
+                    if (!target) return;
+                    await persistProgress(
+                        queryClient,
+                        uid,
+                        goal,
+                        { ...progressMap[goal.id], percent: target.percent },
+                        todoTotals
+                    );
+                    return;
+                }
+                default:
+                    await persistProgress(queryClient, uid, goal, progressMap[goal.id], todoTotals);
+            }
+        })
+    );
+}
+
+// Recounts the linked todos of the given goals on the server and persists their totals
+// and progress using the same rules the pages use (buildGoalProgressMap), so the stored
+// currentPercent never drifts from the UI. Each change is recorded in the goal's daily
+// progress history. Manual goals keep their currentPercent, which is the source of truth.
+export function syncGoalProgress(
+    queryClient: QueryClient,
+    uid: string,
+    goalIds: (string | undefined)[]
+) {
+    void refreshGoalProgress(queryClient, uid, goalIds).catch((err) =>
+        console.error("Error syncing goal progress:", err)
+    );
+}
+
+// Goals whose progress is driven by time logged on the given activity
+export function getGoalIdsTrackingActivity(
+    queryClient: QueryClient,
+    uid: string,
+    activityId: string
+): string[] {
+    const goals = queryClient.getQueryData<Goal[]>(["goals", uid]) ?? [];
+    return goals
+        .filter(
+            (goal) =>
+                (goal.progressMode === "time" || goal.progressMode === "activityTarget") &&
+                goal.trackedActivityId === activityId
+        )
+        .map((goal) => goal.id);
+}
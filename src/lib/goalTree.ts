@@ -0,0 +1,85 @@
+import type { Goal } from "@/types";
+
+export type GoalTreeNode = {
+    goal: Goal;
+    children: GoalTreeNode[];
+};
+
+// Parent of a goal as far as the tree is concerned: a missing parent makes the goal a root
+function getParentId(goal: Goal, goalsById: Map<string, Goal>): string | undefined {
+    return goal.parentGoalId && goalsById.has(goal.parentGoalId) ? goal.parentGoalId : undefined;
+}
+
+// Walks from the direct parent upwards, stopping at the first repeated goal so data
+// that already contains a cycle cannot loop forever
+function walkAncestors(
+    goalId: string,
+    goalsById: Map<string, Goal>
+): { ancestorIds: string[]; isOnCycle: boolean } {
+    const ancestorIds: string[] = [];
+    const seen = new Set<string>();
+    const goal = goalsById.get(goalId);
+    let parentId = goal ? getParentId(goal, goalsById) : undefined;
+
+    while (parentId && !seen.has(parentId)) {
+        if (parentId === goalId) return { ancestorIds, isOnCycle: true };
+        ancestorIds.push(parentId);
+        seen.add(parentId);
+        parentId = getParentId(goalsById.get(parentId)!, goalsById);
+    }
+
+    return { ancestorIds, isOnCycle: false };
+}
+
+export function getAncestorIds(goals: Goal[], goalId: string): string[] {
+    return walkAncestors(goalId, new Map(goals.map((goal) => [goal.id, goal]))).ancestorIds;
+}
+
+export function getDescendantIds(goals: Goal[], goalId: string): string[] {
+    const childrenByParent = new Map<string, string[]>();
+    goals.forEach((goal) => {
+        if (!goal.parentGoalId) return;
+        childrenByParent.set(goal.parentGoalId, [
+            ...(childrenByParent.get(goal.parentGoalId) ?? []),
+            goal.id,
+        ]);
+    });
+
+    const descendants: string[] = [];
+    const seen = new Set([goalId]);
+    const stack = [...(childrenByParent.get(goalId) ?? [])];
+    while (stack.length > 0) {
+        const childId = stack.pop()!;
+        if (seen.has(childId)) continue;
+        seen.add(childId);
+        descendants.push(childId);
+        stack.push(...(childrenByParent.get(childId) ?? []));
+    }
+
+    return descendants;
+}
+
+// A goal cannot be nested under itself or under one of its own sub-goals
+export function wouldCreateCycle(goals: Goal[], goalId: string, parentGoalId: string): boolean {
+    return parentGoalId === goalId || getDescendantIds(goals, goalId).includes(parentGoalId);
+}
+
+// Nests goals under their parents, keeping the input order among siblings. Goals whose
+// parent no longer exists, or that sit on a cycle, are shown at the top level.
+export function buildGoalTree(goals: Goal[]): GoalTreeNode[] {
+    const goalsById = new Map(goals.map((goal) => [goal.id, goal]));
+    const nodes = new Map(goals.map((goal) => [goal.id, { goal, children: [] as GoalTreeNode[] }]));
+    const roots: GoalTreeNode[] = [];
+
+    goals.forEach((goal) => {
+        const node = nodes.get(goal.id)!;
+        const parentId = getParentId(goal, goalsById);
+        if (!parentId || walkAncestors(goal.id, goalsById).isOnCycle) {
+            roots.push(node);
+        } else {
+            nodes.get(parentId)!.children.push(node);
+        }
+    });
+
+    return roots;
+}
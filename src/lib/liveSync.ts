@@ -0,0 +1,245 @@
+import { onlineManager, type QueryClient } from "@tanstack/react-query";
+import { Timestamp, type Unsubscribe } from "firebase/firestore";
+import { endOfMonth, format, parseISO, startOfMonth } from "date-fns";
+import {
+    subscribeToActivities,
+    subscribeToDailyLogs,
+    subscribeToGoals,
+    subscribeToTodosSince,
+    type LiveListener,
+    type LiveSnapshot,
+} from "./firestore";
+import { getCachedTodos, updateCachedTodos, type TodosCache } from "./todoCache";
+import type { Activity, DailyLog, Goal, Todo } from "@/types";
+
+export type LiveStatus = "live" | "reconnecting";
+
+// A listener that failed (e.g. a missing index) is retried after this long
+const RETRY_DELAY_MS = 10_000;
+
+type SnapshotMeta = Pick<LiveSnapshot<unknown>, "changes" | "fromCache" | "hasPendingWrites">;
+
+// One snapshot listener the cache currently needs. `key` changes whenever the listener
+// has to be replaced, e.g. when more todo pages load. Each snapshot comes with `apply`,
+// which writes it into the cache; `isFirst` marks the listener's first server snapshot.
+type LiveTarget = {
+    key: string;
+    listen: (
+        onSnapshot: (snapshot: SnapshotMeta, apply: (isFirst: boolean) => void) => void,
+        onError: (error: Error) => void
+    ) => Unsubscribe;
+};
+
+function withoutTrashed<T extends { deletedAt?: Timestamp }>(items: T[]): T[] {
+    return items.filter((item) => !item.deletedAt);
+}
+
+function createTarget<T>(
+    key: string,
+    start: (listener: LiveListener<T>) => Unsubscribe,
+    apply: (snapshot: LiveSnapshot<T>, isFirst: boolean) => void
+): LiveTarget {
+    return {
+        key,
+        listen: (onSnapshot, onError) =>
+            start({
+                onNext: (snapshot) => onSnapshot(snapshot, (isFirst) => apply(snapshot, isFirst)),
+                onError,
+            }),
+    };
+}
+
+// Replaces the todos inside the listener's window with the server's view of them: changed
+// todos are swapped in place, new ones join the top and missing ones were deleted or
+// archived elsewhere. Todos older than the window are left alone.
+function applyTodos(queryClient: QueryClient, uid: string, since: Timestamp, todos: Todo[]) {
+    const liveTodos = new Map(withoutTrashed(todos).map((todo) => [todo.id, todo]));
+    const isInWindow = (todo: Todo) => !!todo.createdAt && todo.createdAt.toMillis() >= since.toMillis();
+
+    updateCachedTodos(queryClient, uid, (old) => {
+        const cachedIds = new Set(old.map((todo) => todo.id));
+        const added = [...liveTodos.values()].filter((todo) => !cachedIds.has(todo.id));
+        const kept = old
+            .filter((todo) => liveTodos.has(todo.id) || !isInWindow(todo))
+            .map((todo) => liveTodos.get(todo.id) ?? todo);
+        return [...added, ...kept];
+    });
+}
+
+// The listeners the cache needs right now: goals and activities always, todos once the
+// list has loaded, and daily logs for each month that has been loaded
+function getTargets(queryClient: QueryClient, uid: string): LiveTarget[] {
+    const targets: LiveTarget[] = [
+        createTarget<Goal>(
+            "goals",
+            (listener) => subscribeToGoals(uid, listener),
+            ({ items }) => queryClient.setQueryData(["goals", uid], withoutTrashed(items))
+        ),
+        createTarget<Activity>(
+            "activities",
+            (listener) => subscribeToActivities(uid, listener),
+            ({ items }) => queryClient.setQueryData(["activities", uid], withoutTrashed(items))
+        ),
+    ];
+
+    if (queryClient.getQueryData(["todos", uid])) {
+        const createdTimes = getCachedTodos(queryClient, uid)
+            .filter((todo) => todo.createdAt)
+            .map((todo) => todo.createdAt.toMillis());
+        const since = Timestamp.fromMillis(createdTimes.length > 0 ? Math.min(...createdTimes) : 0);
+        targets.push(
+            createTarget<Todo>(
+                `todos:${since.toMillis()}`,
+                (listener) => subscribeToTodosSince(uid, since, listener),
+                ({ items }, isFirst) => {
+                    applyTodos(queryClient, uid, since, items);
+                    // The due list and the counts reach past the window, so they are refetched
+                    if (isFirst) return;
+                    queryClient.invalidateQueries({ queryKey: ["todos", uid, "due"] });
+                    queryClient.invalidateQueries({ queryKey: ["todos", uid, "counts"] });
+                }
+            )
+        );
+    }
+
+    queryClient
+        .getQueryCache()
+        .findAll({ queryKey: ["dailyLogs", uid] })
+        .filter((query) => query.state.data !== undefined)
+        .forEach((query) => {
+            const monthKey = query.queryKey[2] as string;
+            targets.push(
+                createTarget<DailyLog>(
+                    `dailyLogs:${monthKey}`,
+                    (listener) => {
+                        const month = parseISO(`${monthKey}-01`);
+                        return subscribeToDailyLogs(
+                            uid,
+                            format(startOfMonth(month), "yyyy-MM-dd"),
+                            format(endOfMonth(month), "yyyy-MM-dd"),
+                            listener
+                        );
+                    },
+                    ({ items }, isFirst) => {
+                        queryClient.setQueryData(query.queryKey, withoutTrashed(items));
+                        if (!isFirst) queryClient.invalidateQueries({ queryKey: ["trackedMinutes", uid] });
+                    }
+                )
+            );
+        });
+
+    return targets;
+}
+
+// What getTargets depends on besides the always-on goals and activities: how many todo
+// pages and which months of daily logs are loaded
+function getLoadedKey(queryClient: QueryClient, uid: string): string {
+    const todoPages = queryClient.getQueryData<TodosCache>(["todos", uid])?.pages.length ?? 0;
+    const logMonths = queryClient
+        .getQueryCache()
+        .findAll({ queryKey: ["dailyLogs", uid] })
+        .filter((query) => query.state.data !== undefined)
+        .map((query) => query.queryKey[2] as string);
+    return [todoPages, ...logMonths].join(",");
+}
+
+// Keeps the React Query cache in step with Firestore while the app is open, so changes
+// made in other tabs or on other devices show up without a reload. Listeners follow the
+// cache: they start when a query first has data and are replaced when it grows.
+//
+// Snapshots never fight the optimistic updates: cached snapshots (offline), snapshots with
+// this browser's unconfirmed writes and anything arriving while a mutation runs are
+// skipped, since the mutation's own rollback or invalidation settles the cache. The next
+// confirmed snapshot carries the full state, so nothing is lost by skipping.
+//
+// Returns a function that stops every listener.
+export function startLiveSync(
+    queryClient: QueryClient,
+    uid: string,
+    onStatus: (status: LiveStatus) => void
+): () => void {
+    const active = new Map<string, Unsubscribe>();
+    const statuses = new Map<string, LiveStatus>();
+    const retryAt = new Map<string, number>();
+    let status: LiveStatus | null = null;
+    let loadedKey = "";
+    let isStopped = false;
+
+    const reportStatus = () => {
+        const next: LiveStatus =
+            onlineManager.isOnline() && statuses.size > 0 && [...statuses.values()].every((item) => item === "live")
+                ? "live"
+                : "reconnecting";
+        if (next === status) return;
+        status = next;
+        onStatus(next);
+    };
+
+    const stop = (key: string) => {
+        active.get(key)?.();
+        active.delete(key);
+        statuses.delete(key);
+    };
+
+    const reconcile = () => {
+        if (isStopped) return;
+        loadedKey = getLoadedKey(queryClient, uid);
+        const targets = getTargets(queryClient, uid);
+        const wanted = new Set(targets.map((target) => target.key));
+        [...statuses.keys()].filter((key) => !wanted.has(key)).forEach(stop);
+
+        targets.forEach((target) => {
+            if (active.has(target.key) || (retryAt.get(target.key) ?? 0) > Date.now()) return;
+
+            let isFirst = true;
+            statuses.set(target.key, "reconnecting");
+            active.set(
+                target.key,
+                target.listen(
+                    (snapshot, apply) => {
+                        statuses.set(target.key, snapshot.fromCache ? "reconnecting" : "live");
+                        reportStatus();
+
+                        if (snapshot.fromCache || snapshot.hasPendingWrites) return;
+                        if (queryClient.isMutating() === 0 && (isFirst || snapshot.changes.length > 0)) {
+                            apply(isFirst);
+                        }
+                        isFirst = false;
+                    },
+                    (error) => {
+                        console.error(`Live updates for ${target.key} stopped:`, error);
+                        stop(target.key);
+                        statuses.set(target.key, "reconnecting");
+                        reportStatus();
+                        retryAt.set(target.key, Date.now() + RETRY_DELAY_MS);
+                        setTimeout(reconcile, RETRY_DELAY_MS);
+                    }
+                )
+            );
+        });
+    };
+
+    reconcile();
+    // Most cache writes (the listeners' own included) leave the listeners as they are, so
+    // data updates only reconcile when they change which todo pages or log months are loaded
+    const unsubscribeCache = queryClient.getQueryCache().subscribe((event) => {
+        if (event.type === "added" || event.type === "removed") {
+            reconcile();
+        } else if (
+            event.type === "updated" &&
+            event.action.type === "success" &&
+            ["todos", "dailyLogs"].includes(event.query.queryKey[0] as string) &&
+            getLoadedKey(queryClient, uid) !== loadedKey
+        ) {
+            reconcile();
+        }
+    });
+    const unsubscribeOnline = onlineManager.subscribe(reportStatus);
+
+    return () => {
+        isStopped = true;
+        unsubscribeCache();
+        unsubscribeOnline();
+        [...active.keys()].forEach(stop);
+    };
+}
@@ -0,0 +1,237 @@
+import { format, isValid, parse } from "date-fns";
+import type { Activity, DailyLog } from "@/types";
+
+// Columns of an imported file that become a daily log; only notes may be missing
+export type LogCsvField = "date" | "activity" | "duration" | "notes";
+
+export const LOG_CSV_FIELDS: LogCsvField[] = ["date", "activity", "duration", "notes"];
+
+export const LOG_CSV_FIELD_LABELS: Record<LogCsvField, string> = {
+    date: "Date",
+    activity: "Activity",
+    duration: "Duration",
+    notes: "Notes",
+};
+
+// Index of the file column each field is read from
+export type LogCsvMapping = Record<LogCsvField, number | null>;
+
+export type LogImportEntry = Pick<DailyLog, "activityName" | "date" | "durationMinutes" | "notes"> & {
+    // Unset when the activity is created by the import
+    activityId?: string;
+};
+
+// `line` counts the file's non-blank rows, header included
+export type LogImportRow =
+    | { line: number; status: "new" | "duplicate"; entry: LogImportEntry }
+    | { line: number; status: "invalid"; reason: string };
+
+export type LogImportPlan = {
+    rows: LogImportRow[];
+    // Activities the import creates, spelled as in the first row that names them
+    newActivityNames: string[];
+};
+
+// Header names other time trackers use for each field, compared in lower case
+const HEADER_ALIASES: Record<LogCsvField, string[]> = {
+    date: ["date", "day", "start date"],
+    activity: ["activity", "activity name", "project", "task", "category"],
+    duration: ["duration", "duration (minutes)", "minutes", "time"],
+    notes: ["notes", "note", "description", "comment"],
+};
+
+// Day-first dates use dots, month-first ones slashes, as spreadsheets usually export them
+const DATE_FORMATS = ["yyyy-MM-dd", "yyyy/M/d", "M/d/yyyy", "d.M.yyyy"];
+
+// Activities are matched by name, ignoring case and surrounding spaces
+export function getActivityKey(name: string): string {
+    return name.trim().toLowerCase();
+}
+
+function toCsvCell(value: string | number): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatLogsCsv(logs: DailyLog[]): string {
+    const rows = [...logs]
+        .sort((a, b) => a.date.localeCompare(b.date) || a.activityName.localeCompare(b.activityName))
+        .map((log) => [log.date, log.activityName, log.durationMinutes, log.notes ?? ""]);
+    return [["Date", "Activity", "Duration (minutes)", "Notes"], ...rows]
+        .map((row) => row.map(toCsvCell).join(","))
+        .join("\r\n");
+}
+
+export function getLogsCsvFileName(startDate: string, endDate: string): string {
+    return `daily-logs-${startDate}-to-${endDate}.csv`;
+}
+
+// Splits CSV text into rows of cells. Quoted cells may hold commas, line breaks and
+// doubled quotes; blank lines are skipped.
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let isQuoted = false;
+
+    const endRow = () => {
+        row.push(cell);
+        if (row.some((value) => value.trim() !== "")) rows.push(row);
+        row = [];
+        cell = "";
+    };
+
+    const input = text.replace(/^\uFEFF/, "");
+    for (let index = 0; index < input.length; index++) {
+        const char = input[index];
+        if (isQuoted) {
+            if (char === '"' && input[index + 1] === '"') {
+                cell += '"';
+                index++;
+            } else if (char === '"') {
+                isQuoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            isQuoted = true;
+        } else if (char === ",") {
+            row.push(cell);
+            cell = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && input[index + 1] === "\n") index++;
+            endRow();
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== "" || row.length > 0) endRow();
+
+    return rows;
+}
+
+// Minutes in "90", "1:30", "1:30:00", "1h 30m", "1.5h", "2 hours" or "45 min"; null when
+// the text is not a positive duration
+export function parseDuration(value: string): number | null {
+    const text = value.trim().toLowerCase();
+    let minutes: number | null = null;
+
+    const clock = text.match(/^(\d+):([0-5]\d)(?::([0-5]\d))?$/);
+    if (clock) {
+        minutes = Number(clock[1]) * 60 + Number(clock[2]) + Number(clock[3] ?? 0) / 60;
+    } else if (/^\d+(\.\d+)?$/.test(text)) {
+        minutes = Number(text);
+    } else {
+        const unitPattern = /(\d+(?:\.\d+)?)\s*(hours?|hrs?|h|minutes?|mins?|m)(?![a-z])/g;
+        const parts = [...text.matchAll(unitPattern)];
+        if (parts.length > 0 && text.replace(unitPattern, "").trim() === "") {
+            minutes = parts.reduce(
+                (total, [, amount, unit]) => total + Number(amount) * (unit.startsWith("h") ? 60 : 1),
+                0
+            );
+        }
+    }
+
+    if (minutes === null) return null;
+    const rounded = Math.round(minutes);
+    return rounded > 0 ? rounded : null;
+}
+
+// A yyyy-MM-dd key for dates in any of DATE_FORMATS; a time after the date is ignored
+export function parseLogDate(value: string): string | null {
+    const text = value.trim().split(/[T ]/)[0];
+    for (const dateFormat of DATE_FORMATS) {
+        const date = parse(text, dateFormat, new Date());
+        if (isValid(date) && date.getFullYear() >= 1900) return format(date, "yyyy-MM-dd");
+    }
+    return null;
+}
+
+export function guessLogCsvMapping(header: string[]): LogCsvMapping {
+    const names = header.map((name) => name.trim().toLowerCase());
+    return Object.fromEntries(
+        LOG_CSV_FIELDS.map((field) => {
+            const index = names.findIndex((name) => HEADER_ALIASES[field].includes(name));
+            return [field, index === -1 ? null : index];
+        })
+    ) as LogCsvMapping;
+}
+
+// Reads the rows after the header through the mapping. Rows that cannot become a log are
+// kept as invalid, with the reason, so the preview can list them.
+export function readLogRows(rows: string[][], mapping: LogCsvMapping): LogImportRow[] {
+    return rows.map((row, index): LogImportRow => {
+        const line = index + 2;
+        const read = (field: LogCsvField) => {
+            const column = mapping[field];
+            return column === null ? "" : (row[column] ?? "").trim();
+        };
+
+        const date = parseLogDate(read("date"));
+        if (!date) return { line, status: "invalid", reason: `Unknown date "${read("date")}"` };
+        const activityName = read("activity");
+        if (!activityName) return { line, status: "invalid", reason: "No activity" };
+        const durationMinutes = parseDuration(read("duration"));
+        if (!durationMinutes) {
+            return { line, status: "invalid", reason: `Unknown duration "${read("duration")}"` };
+        }
+
+        const notes = read("notes");
+        return {
+            line,
+            status: "new",
+            entry: { activityName, date, durationMinutes, ...(notes ? { notes } : {}) },
+        };
+    });
+}
+
+// The dates the valid rows span, to load the logs they could duplicate
+export function getLogRowsDateRange(rows: LogImportRow[]): { startDate: string; endDate: string } | null {
+    const dates = rows
+        .flatMap((row) => (row.status === "invalid" ? [] : [row.entry.date]))
+        .sort();
+    return dates.length > 0 ? { startDate: dates[0], endDate: dates[dates.length - 1] } : null;
+}
+
+function getDuplicateKey(log: Pick<DailyLog, "activityName" | "date" | "durationMinutes" | "notes">) {
+    return [log.date, getActivityKey(log.activityName), log.durationMinutes, log.notes?.trim() ?? ""].join("|");
+}
+
+// Links every valid row to an existing activity (or a new one) and marks rows already
+// logged, either in `existingLogs` or further up the file. A duplicate has the same date,
+// activity, duration and notes.
+export function planLogImport(
+    rows: LogImportRow[],
+    existingLogs: DailyLog[],
+    activities: Activity[]
+): LogImportPlan {
+    const activityByKey = new Map(activities.map((activity) => [getActivityKey(activity.name), activity]));
+    const newActivitySpellings = new Map<string, string>();
+    const seenKeys = new Set(existingLogs.map(getDuplicateKey));
+
+    const plannedRows = rows.map((row): LogImportRow => {
+        if (row.status === "invalid") return row;
+
+        const activityKey = getActivityKey(row.entry.activityName);
+        const activity = activityByKey.get(activityKey);
+        if (!activity && !newActivitySpellings.has(activityKey)) {
+            newActivitySpellings.set(activityKey, row.entry.activityName);
+        }
+        const entry: LogImportEntry = activity
+            ? { ...row.entry, activityId: activity.id, activityName: activity.name }
+            : { ...row.entry, activityName: newActivitySpellings.get(activityKey)! };
+
+        const key = getDuplicateKey(entry);
+        const status = seenKeys.has(key) ? "duplicate" : "new";
+        seenKeys.add(key);
+        return { line: row.line, status, entry };
+    });
+
+    // Only activities with a row left to import are created
+    const newActivityNames = new Set(
+        plannedRows.flatMap((row) =>
+            row.status === "new" && !row.entry.activityId ? [row.entry.activityName] : []
+        )
+    );
+    return { rows: plannedRows, newActivityNames: [...newActivityNames] };
+}
@@ -0,0 +1,200 @@
+import { onlineManager, type Mutation, type QueryClient } from "@tanstack/react-query";
+import { disableNetwork, enableNetwork, type DocumentData } from "firebase/firestore";
+import { auth, db } from "./firebase";
+import { getCachedVersion, getServerVersion, type DocumentVersion } from "./firestore";
+
+declare module "@tanstack/react-query" {
+    interface Register {
+        mutationMeta: {
+            // Ids of the existing documents a mutation edits, so a queued edit can be
+            // badged and checked for conflicts once the connection is back
+            syncTargets?: (variables: never) => string[];
+        };
+    }
+}
+
+export type SyncConflict = {
+    id: string;
+    title: string;
+    // "deleted": the document is gone; "trashed": it was moved to the trash (the edit
+    // still applies to it there); "changed": it was edited elsewhere
+    type: "deleted" | "trashed" | "changed";
+};
+
+type QueuedEdit = { id: string; version: DocumentVersion };
+
+// Versions of the documents each paused mutation edits, as last seen from the server
+const queuedEdits = new Map<number, Promise<QueuedEdit[]>>();
+const conflictListeners = new Set<(conflicts: SyncConflict[]) => void>();
+const networkListeners = new Set<() => void>();
+let isSimulatedOffline = false;
+
+function getSyncTargets(mutation: Mutation): string[] {
+    const syncTargets = mutation.meta?.syncTargets as ((variables: unknown) => string[]) | undefined;
+    return syncTargets ? syncTargets(mutation.state.variables) : [];
+}
+
+// Ids to badge while a mutation waits in the queue: the documents it edits plus the
+// temporary ids of the todos it added optimistically
+export function getPendingIds(mutation: Mutation): string[] {
+    const context = mutation.state.context as { tempId?: string; tempIds?: string[] } | undefined;
+    return [
+        ...getSyncTargets(mutation),
+        ...(context?.tempId ? [context.tempId] : []),
+        ...(context?.tempIds ?? []),
+    ];
+}
+
+function getTitle(data: DocumentData): string {
+    return data.title ?? data.name ?? data.activityName ?? "An item";
+}
+
+// Timestamps serialize to their seconds and nanoseconds, and keys are sorted so field
+// order does not matter
+function toComparable(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(toComparable);
+    if (value && typeof value === "object") {
+        const json = "toJSON" in value ? (value as { toJSON: () => unknown }).toJSON() : value;
+        return Object.fromEntries(
+            Object.entries(json as Record<string, unknown>)
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([key, item]) => [key, toComparable(item)])
+        );
+    }
+    return value;
+}
+
+function isSameVersion(a: DocumentData, b: DocumentData): boolean {
+    return JSON.stringify(toComparable(a)) === JSON.stringify(toComparable(b));
+}
+
+function captureQueuedEdits(mutation: Mutation) {
+    const uid = auth.currentUser?.uid;
+    const ids = getSyncTargets(mutation);
+    if (!uid || ids.length === 0 || queuedEdits.has(mutation.mutationId)) return;
+
+    queuedEdits.set(
+        mutation.mutationId,
+        Promise.all(
+            ids.map(async (id) => {
+                const version = await getCachedVersion(uid, id);
+                return version ? { id, version } : null;
+            })
+        ).then((edits) => edits.filter((edit): edit is QueuedEdit => !!edit))
+    );
+}
+
+// Compares every queued edit's document with the server before the queue is replayed.
+// Queued edits are still applied (a deleted document makes the edit fail and roll back);
+// the check only tells the user what happened.
+async function findConflicts(queryClient: QueryClient): Promise<SyncConflict[]> {
+    const uid = auth.currentUser?.uid;
+    if (!uid) return [];
+
+    const pausedIds = new Set(
+        queryClient
+            .getMutationCache()
+            .getAll()
+            .filter((mutation) => mutation.state.isPaused)
+            .map((mutation) => mutation.mutationId)
+    );
+    const edits = (
+        await Promise.all(
+            [...queuedEdits.entries()]
+                .filter(([mutationId]) => pausedIds.has(mutationId))
+                .map(([, edits]) => edits)
+        )
+    ).flat();
+
+    const checked = new Set<string>();
+    const conflicts = await Promise.all(
+        edits.map(async ({ id, version }): Promise<SyncConflict | null> => {
+            if (checked.has(id)) return null;
+            checked.add(id);
+            const current = await getServerVersion(uid, version.collection, id);
+            if (!current) {
+                return { id, title: getTitle(version.data), type: "deleted" };
+            }
+            if (current.deletedAt && !version.data.deletedAt) {
+                return { id, title: getTitle(current), type: "trashed" };
+            }
+            if (!isSameVersion(current, version.data)) {
+                return { id, title: getTitle(current), type: "changed" };
+            }
+            return null;
+        })
+    );
+    return conflicts.filter((conflict): conflict is SyncConflict => !!conflict);
+}
+
+export function isNetworkSimulatedOff(): boolean {
+    return isSimulatedOffline;
+}
+
+// Cuts Firestore off from the network (e.g. against the emulator) to try out offline mode
+export async function setNetworkSimulatedOff(off: boolean) {
+    isSimulatedOffline = off;
+    await (off ? disableNetwork(db) : enableNetwork(db));
+    networkListeners.forEach((listener) => listener());
+}
+
+export function subscribeToConflicts(listener: (conflicts: SyncConflict[]) => void): () => void {
+    conflictListeners.add(listener);
+    return () => conflictListeners.delete(listener);
+}
+
+// Mutations made while offline pause after their optimistic update and wait in the
+// mutation cache; that is the queue. The online state fed to React Query combines the
+// browser's and the simulated one, and going back online first checks the queued edits
+// for conflicts, then lets React Query replay the queue.
+export function startOfflineQueue(queryClient: QueryClient) {
+    onlineManager.setEventListener((setOnline) => {
+        let isCurrent = true;
+        const update = async () => {
+            if (!navigator.onLine || isSimulatedOffline) {
+                setOnline(false);
+                return;
+            }
+            if (onlineManager.isOnline()) return;
+            try {
+                const conflicts = await findConflicts(queryClient);
+                if (conflicts.length > 0) conflictListeners.forEach((listener) => listener(conflicts));
+            } catch (err) {
+                console.error("Error checking queued changes:", err);
+            }
+            if (isCurrent && navigator.onLine && !isSimulatedOffline) setOnline(true);
+        };
+        const handleChange = () => void update();
+
+        window.addEventListener("online", handleChange);
+        window.addEventListener("offline", handleChange);
+        networkListeners.add(handleChange);
+        handleChange();
+        return () => {
+            isCurrent = false;
+            window.removeEventListener("online", handleChange);
+            window.removeEventListener("offline", handleChange);
+            networkListeners.delete(handleChange);
+        };
+    });
+
+    queryClient.getMutationCache().subscribe((event) => {
+        if (event.type === "updated" && event.action.type === "pause") {
+            captureQueuedEdits(event.mutation);
+        } else if (
+            event.type === "removed" ||
+            (event.type === "updated" && (event.action.type === "success" || event.action.type === "error"))
+        ) {
+            queuedEdits.delete(event.mutation.mutationId);
+        }
+    });
+
+    // Queued changes only live in this tab, so closing it with a non-empty queue asks first
+    window.addEventListener("beforeunload", (event) => {
+        const hasQueue = queryClient
+            .getMutationCache()
+            .getAll()
+            .some((mutation) => mutation.state.isPaused);
+        if (hasQueue) event.preventDefault();
+    });
+}
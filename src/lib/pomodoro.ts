@@ -0,0 +1,114 @@
+import type { DailyLog, PomodoroSettings } from "@/types";
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+    workMinutes: 25,
+    shortBreakMinutes: 5,
+    longBreakMinutes: 15,
+    longBreakEvery: 4,
+};
+
+// Inputs of the focus settings form, with the range each value is kept in
+export const POMODORO_SETTING_FIELDS: {
+    key: keyof PomodoroSettings;
+    label: string;
+    min: number;
+    max: number;
+}[] = [
+    { key: "workMinutes", label: "Work (minutes)", min: 1, max: 120 },
+    { key: "shortBreakMinutes", label: "Short break (minutes)", min: 1, max: 60 },
+    { key: "longBreakMinutes", label: "Long break (minutes)", min: 1, max: 120 },
+    { key: "longBreakEvery", label: "Long break every (work intervals)", min: 2, max: 12 },
+];
+
+export type FocusPhase = "work" | "shortBreak" | "longBreak";
+
+export const FOCUS_PHASE_LABELS: Record<FocusPhase, string> = {
+    work: "Focus",
+    shortBreak: "Short break",
+    longBreak: "Long break",
+};
+
+// A focus mode session, kept in localStorage so it survives reloads on this device. Times
+// are epoch milliseconds.
+export type FocusSession = {
+    activityId: string;
+    activityName: string;
+    todoId?: string;
+    todoTitle?: string;
+    phase: FocusPhase;
+    phaseMinutes: number;
+    // Work intervals finished so far
+    completedWork: number;
+    // When the phase ends; null while paused
+    endsAt: number | null;
+    // Time left in the phase when it was paused
+    remainingMs: number;
+};
+
+export type FocusTarget = Pick<FocusSession, "activityId" | "activityName" | "todoId" | "todoTitle">;
+
+function startPhase(
+    session: Omit<FocusSession, "phase" | "phaseMinutes" | "endsAt" | "remainingMs">,
+    phase: FocusPhase,
+    settings: PomodoroSettings,
+    now: number
+): FocusSession {
+    const phaseMinutes = {
+        work: settings.workMinutes,
+        shortBreak: settings.shortBreakMinutes,
+        longBreak: settings.longBreakMinutes,
+    }[phase];
+    const remainingMs = phaseMinutes * 60_000;
+    return { ...session, phase, phaseMinutes, endsAt: now + remainingMs, remainingMs };
+}
+
+export function startFocusSession(target: FocusTarget, settings: PomodoroSettings, now: number): FocusSession {
+    return startPhase({ ...target, completedWork: 0 }, "work", settings, now);
+}
+
+export function getRemainingMs(session: FocusSession, now: number): number {
+    return session.endsAt === null ? session.remainingMs : Math.max(0, session.endsAt - now);
+}
+
+export function pauseFocusSession(session: FocusSession, now: number): FocusSession {
+    return session.endsAt === null
+        ? session
+        : { ...session, endsAt: null, remainingMs: getRemainingMs(session, now) };
+}
+
+export function resumeFocusSession(session: FocusSession, now: number): FocusSession {
+    return session.endsAt === null ? { ...session, endsAt: now + session.remainingMs } : session;
+}
+
+// The phase after the current one, started `now`. `isFinished` says whether the current
+// phase ran to the end; a skipped work interval does not count toward the long break.
+export function getNextFocusPhase(
+    session: FocusSession,
+    settings: PomodoroSettings,
+    now: number,
+    isFinished: boolean
+): FocusSession {
+    if (session.phase !== "work") return startPhase(session, "work", settings, now);
+
+    const completedWork = session.completedWork + (isFinished ? 1 : 0);
+    const isLongBreak = completedWork > 0 && completedWork % settings.longBreakEvery === 0;
+    return startPhase({ ...session, completedWork }, isLongBreak ? "longBreak" : "shortBreak", settings, now);
+}
+
+// Finished work intervals per yyyy-MM-dd date
+export function countPomodorosByDate(logs: DailyLog[]): Record<string, number> {
+    return logs.reduce<Record<string, number>>((counts, log) => {
+        if (log.isPomodoro) counts[log.date] = (counts[log.date] ?? 0) + 1;
+        return counts;
+    }, {});
+}
+
+// Keeps each value whole and inside its field's range
+export function clampPomodoroSettings(settings: PomodoroSettings): PomodoroSettings {
+    return Object.fromEntries(
+        POMODORO_SETTING_FIELDS.map(({ key, min, max }) => [
+            key,
+            Math.min(max, Math.max(min, Math.round(settings[key]) || min)),
+        ])
+    ) as unknown as PomodoroSettings;
+}
@@ -0,0 +1,123 @@
+import { differenceInCalendarDays, eachDayOfInterval, endOfDay, subDays } from "date-fns";
+import type { Goal, ProgressSnapshot, Todo } from "@/types";
+import { toDateKey } from "./dueDates";
+import { getTodoWeight } from "./goalProgress";
+
+export type ProgressPoint = {
+    date: string;
+    percent: number;
+};
+
+const MAX_HISTORY_DAYS = 90;
+
+// Reconstructs a todo-driven goal's daily completion percentage from when its todos were
+// created and completed. Checklist progress has no history, so only finished todos count;
+// todos completed before completion times were recorded count from their creation day.
+export function buildProgressHistory(goal: Goal, goalTodos: Todo[], today: Date): ProgressPoint[] {
+    const goalStart = goal.createdAt ? goal.createdAt.toDate() : today;
+    const start =
+        differenceInCalendarDays(today, goalStart) > MAX_HISTORY_DAYS
+            ? subDays(today, MAX_HISTORY_DAYS)
+            : goalStart;
+
+    return eachDayOfInterval({ start, end: today }).map((day) => {
+        const dayEnd = endOfDay(day);
+        let total = 0;
+        let completed = 0;
+
+        goalTodos.forEach((todo) => {
+            const createdAt = todo.createdAt ? todo.createdAt.toDate() : goalStart;
+            if (createdAt > dayEnd) return;
+
+            const weight = getTodoWeight(todo);
+            total += weight;
+            if (!todo.isDone) return;
+            const completedAt = todo.completedAt ? todo.completedAt.toDate() : createdAt;
+            if (completedAt <= dayEnd) completed += weight;
+        });
+
+        return {
+            date: toDateKey(day),
+            percent: total > 0 ? Math.round((completed / total) * 100) : 0,
+        };
+    });
+}
+
+export type BurnUpPoint = {
+    date: string;
+    total: number;
+    done: number;
+};
+
+export function getHistoryDateKeys(days: number, today: Date): string[] {
+    return eachDayOfInterval({ start: subDays(today, days - 1), end: today }).map(toDateKey);
+}
+
+// Snapshots are only written on days a goal changes, so each goal keeps its last
+// recorded value until the next snapshot. Days before a goal's first snapshot are null.
+function carryForward(
+    snapshots: ProgressSnapshot[],
+    goalIds: string[],
+    dateKeys: string[]
+): Record<string, (ProgressSnapshot | null)[]> {
+    const byGoal: Record<string, (ProgressSnapshot | null)[]> = {};
+
+    goalIds.forEach((goalId) => {
+        const goalSnapshots = snapshots
+            .filter((snapshot) => snapshot.goalId === goalId)
+            .sort((a, b) => a.date.localeCompare(b.date));
+        let index = 0;
+        let current: ProgressSnapshot | null = null;
+
+        byGoal[goalId] = dateKeys.map((date) => {
+            while (index < goalSnapshots.length && goalSnapshots[index].date <= date) {
+                current = goalSnapshots[index];
+                index += 1;
+            }
+            return current;
+        });
+    });
+
+    return byGoal;
+}
+
+// Scope (total todos) and completed todos per day, summed across the given goals
+export function buildBurnUpSeries(
+    snapshots: ProgressSnapshot[],
+    goalIds: string[],
+    dateKeys: string[]
+): BurnUpPoint[] {
+    const byGoal = carryForward(snapshots, goalIds, dateKeys);
+
+    return dateKeys.map((date, dayIndex) =>
+        goalIds.reduce<BurnUpPoint>(
+            (point, goalId) => {
+                const snapshot = byGoal[goalId][dayIndex];
+                if (!snapshot) return point;
+                return {
+                    date,
+                    total: point.total + snapshot.total,
+                    done: point.done + snapshot.done,
+                };
+            },
+            { date, total: 0, done: 0 }
+        )
+    );
+}
+
+// One row per day with each goal's percentage keyed by goal id, for comparing goals
+export function buildComparisonSeries(
+    snapshots: ProgressSnapshot[],
+    goalIds: string[],
+    dateKeys: string[]
+): Array<{ date: string } & Record<string, number | string | null>> {
+    const byGoal = carryForward(snapshots, goalIds, dateKeys);
+
+    return dateKeys.map((date, dayIndex) => {
+        const row: { date: string } & Record<string, number | string | null> = { date };
+        goalIds.forEach((goalId) => {
+            row[goalId] = byGoal[goalId][dayIndex]?.percent ?? null;
+        });
+        return row;
+    });
+}
@@ -0,0 +1,31 @@
+import { createSyncStoragePersister } from "@tanstack/query-sync-storage-persister";
+import { DocumentSnapshot, Timestamp } from "firebase/firestore";
+
+const QUERY_CACHE_STORAGE_KEY = "goals-todo-query-cache";
+const TIMESTAMP_JSON_TYPE = "firestore/timestamp/1.0";
+
+// Cached data is shown again right after a reload, before (or without) the network
+export const QUERY_CACHE_MAX_AGE = 24 * 60 * 60_000;
+
+// Timestamps are stored in their JSON form and revived. Page cursors are document
+// snapshots that cannot be stored, so they are dropped; the next refetch brings them back.
+function serialize(data: unknown): string {
+    return JSON.stringify(data, function (this: Record<string, unknown>, key, value) {
+        return this[key] instanceof DocumentSnapshot ? null : value;
+    });
+}
+
+function deserialize(cached: string) {
+    return JSON.parse(cached, (_key, value) =>
+        value && typeof value === "object" && value.type === TIMESTAMP_JSON_TYPE
+            ? Timestamp.fromJSON(value)
+            : value
+    );
+}
+
+export const queryPersister = createSyncStoragePersister({
+    storage: window.localStorage,
+    key: QUERY_CACHE_STORAGE_KEY,
+    serialize,
+    deserialize,
+});
@@ -0,0 +1,312 @@
+import { addDays, addWeeks, nextMonday, startOfDay } from "date-fns";
+import type { Goal, TodoPriority } from "@/types";
+import { toDateKey } from "./dueDates";
+import { normalizeTag } from "./todoFilters";
+
+export type QuickAddTokenType = "date" | "time" | "priority" | "tag" | "goal";
+
+// A recognised token; `start`/`end` are offsets into the parsed text
+export interface QuickAddToken {
+    type: QuickAddTokenType;
+    start: number;
+    end: number;
+}
+
+export interface ParsedQuickAdd {
+    title: string;
+    dueDate?: string;
+    // "HH:mm", 24-hour
+    dueTime?: string;
+    priority?: TodoPriority;
+    tags: string[];
+    goalId?: string;
+    tokens: QuickAddToken[];
+}
+
+type GoalRef = Pick<Goal, "id" | "title">;
+
+type Candidate = QuickAddToken & { apply: (result: ParsedQuickAdd) => void };
+
+type Rule = {
+    type: Exclude<QuickAddTokenType, "goal">;
+    pattern: string;
+    // Returns the setter for a match, or null when the match is not a valid value
+    resolve: (match: RegExpExecArray, today: Date) => ((result: ParsedQuickAdd) => void) | null;
+};
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const MONTHS = [
+    "jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec",
+];
+const MONTH_PATTERN =
+    "jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?";
+const DATE_PREFIX = "(?:(?:on|due|by)\\s+)?";
+
+const PRIORITY_WORDS: Record<string, TodoPriority> = {
+    urgent: 1,
+    high: 1,
+    medium: 2,
+    med: 2,
+    low: 3,
+};
+
+// Tokens must stand on their own: "#tag" inside a URL or "3pm" inside a word is title text
+const TOKEN_START = "(?<=^|[\\s,(])";
+const TOKEN_END = "(?=$|[\\s,.;:!?)])";
+
+const setDate = (date: Date) => (result: ParsedQuickAdd) => {
+    result.dueDate = toDateKey(date);
+};
+
+const setTime = (hours: number, minutes: number) => (result: ParsedQuickAdd) => {
+    result.dueTime = `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+};
+
+// Month/day without a year means the next such date, so "jan 5" typed in December is next year
+function resolveMonthDay(monthName: string, day: number, today: Date): Date | null {
+    const month = MONTHS.indexOf(monthName.slice(0, 3).toLowerCase());
+    let date = new Date(today.getFullYear(), month, day);
+    if (date.getMonth() !== month) return null;
+    if (date < startOfDay(today)) date = new Date(today.getFullYear() + 1, month, day);
+    return date;
+}
+
+const RULES: Rule[] = [
+    {
+        type: "tag",
+        pattern: "#([\\p{L}\\p{N}_-]+)",
+        resolve: (match) => {
+            const tag = normalizeTag(match[1]);
+            return (result) => {
+                if (!result.tags.includes(tag)) result.tags.push(tag);
+            };
+        },
+    },
+    {
+        type: "priority",
+        pattern: "!(?:p?([1-4])|(urgent|high|medium|med|low))",
+        resolve: (match) => {
+            const priority = match[1]
+                ? (Number(match[1]) as TodoPriority)
+                : PRIORITY_WORDS[match[2].toLowerCase()];
+            return (result) => {
+                result.priority = priority;
+            };
+        },
+    },
+    {
+        type: "time",
+        pattern: "(?:at\\s+)?(?:(\\d{1,2})(?::([0-5]\\d))?\\s?(am|pm)|([01]?\\d|2[0-3]):([0-5]\\d)|(noon|midnight))",
+        resolve: (match) => {
+            if (match[6]) return setTime(match[6].toLowerCase() === "noon" ? 12 : 0, 0);
+            if (match[4]) return setTime(Number(match[4]), Number(match[5]));
+
+            const hours = Number(match[1]);
+            if (hours < 1 || hours > 12) return null;
+            const isPm = match[3].toLowerCase() === "pm";
+            return setTime((hours % 12) + (isPm ? 12 : 0), Number(match[2] ?? 0));
+        },
+    },
+    {
+        type: "date",
+        pattern: `${DATE_PREFIX}(\\d{4})-(\\d{2})-(\\d{2})`,
+        resolve: (match) => {
+            const month = Number(match[2]) - 1;
+            const date = new Date(Number(match[1]), month, Number(match[3]));
+            return date.getMonth() === month ? setDate(date) : null;
+        },
+    },
+    {
+        type: "date",
+        pattern: "(?:(?:due|by)\\s+)?(today|tonight|tomorrow|tmrw|tmr)",
+        resolve: (match, today) => {
+            const isToday = ["today", "tonight"].includes(match[1].toLowerCase());
+            return setDate(isToday ? today : addDays(today, 1));
+        },
+    },
+    {
+        type: "date",
+        pattern: "in\\s+(\\d{1,3})\\s+(days?|weeks?)",
+        resolve: (match, today) => {
+            const amount = Number(match[1]);
+            return setDate(
+                match[2].toLowerCase().startsWith("week")
+                    ? addWeeks(today, amount)
+                    : addDays(today, amount)
+            );
+        },
+    },
+    {
+        type: "date",
+        pattern: "next\\s+week",
+        resolve: (_match, today) => setDate(nextMonday(today)),
+    },
+    {
+        // A weekday is always the next one to come, never today
+        type: "date",
+        pattern: `${DATE_PREFIX}(?:next\\s+)?(${WEEKDAYS.join("|")})`,
+        resolve: (match, today) => {
+            const weekday = WEEKDAYS.indexOf(match[1].toLowerCase());
+            const offset = (weekday - today.getDay() + 7) % 7 || 7;
+            return setDate(addDays(today, offset));
+        },
+    },
+    {
+        type: "date",
+        pattern: `${DATE_PREFIX}(?:(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?|(\\d{1,2})(?:st|nd|rd|th)?\\s+(${MONTH_PATTERN}))`,
+        resolve: (match, today) => {
+            const date = match[1]
+                ? resolveMonthDay(match[1], Number(match[2]), today)
+                : resolveMonthDay(match[4], Number(match[3]), today);
+            return date ? setDate(date) : null;
+        },
+    },
+];
+
+function normalizeName(text: string): string {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+function isSubsequence(query: string, text: string): boolean {
+    let index = 0;
+    for (const char of text) {
+        if (char === query[index]) index += 1;
+        if (index === query.length) return true;
+    }
+    return false;
+}
+
+// Higher is better; 0 means the goal does not match the query at all
+function scoreGoal(query: string, title: string): number {
+    const normalizedQuery = normalizeName(query);
+    const normalizedTitle = normalizeName(title);
+    if (!normalizedQuery) return 0;
+    if (normalizedTitle === normalizedQuery) return 5;
+    if (normalizedTitle.startsWith(normalizedQuery)) return 4;
+    if (title.toLowerCase().split(/\s+/).some((word) => normalizeName(word).startsWith(normalizedQuery))) {
+        return 3;
+    }
+    if (normalizedTitle.includes(normalizedQuery)) return 2;
+    if (isSubsequence(normalizedQuery, normalizedTitle)) return 1;
+    return 0;
+}
+
+// "@Goal Name" matches a full goal title (spaces included) when possible; otherwise the
+// single word after "@" is fuzzy-matched and the best-scoring, shortest title wins
+export function matchGoal(
+    text: string,
+    goals: GoalRef[]
+): { goal: GoalRef; length: number } | null {
+    const lowerText = text.toLowerCase();
+    const fullMatch = goals
+        .filter((goal) => {
+            const title = goal.title.toLowerCase();
+            return title && lowerText.startsWith(title) && new RegExp(`^${TOKEN_END}`).test(text.slice(title.length));
+        })
+        .sort((a, b) => b.title.length - a.title.length)[0];
+    if (fullMatch) return { goal: fullMatch, length: fullMatch.title.length };
+
+    const word = text.match(/^[^\s,;:!?()]+/)?.[0];
+    if (!word) return null;
+
+    let best: { goal: GoalRef; score: number } | null = null;
+    for (const goal of goals) {
+        const score = scoreGoal(word, goal.title);
+        if (
+            score > 0 &&
+            (!best || score > best.score || (score === best.score && goal.title.length < best.goal.title.length))
+        ) {
+            best = { goal, score };
+        }
+    }
+    return best ? { goal: best.goal, length: word.length } : null;
+}
+
+function findGoalCandidates(text: string, goals: GoalRef[]): Candidate[] {
+    const candidates: Candidate[] = [];
+    const pattern = new RegExp(`${TOKEN_START}@`, "g");
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text))) {
+        const found = matchGoal(text.slice(match.index + 1), goals);
+        if (!found) continue;
+        candidates.push({
+            type: "goal",
+            start: match.index,
+            end: match.index + 1 + found.length,
+            apply: (result) => {
+                result.goalId = found.goal.id;
+            },
+        });
+    }
+    return candidates;
+}
+
+// Pulls due date, time, priority, tags and a goal reference out of free text typed into
+// quick add, e.g. "Call bank tomorrow 3pm #finance !high @Health". Pure: `today` is
+// passed in. Only the first date, time, priority and goal count; later ones stay in the
+// title. A time without a date means today.
+export function parseQuickAdd(text: string, goals: GoalRef[], today: Date): ParsedQuickAdd {
+    const candidates: Candidate[] = findGoalCandidates(text, goals);
+
+    for (const rule of RULES) {
+        const pattern = new RegExp(`${TOKEN_START}(?:${rule.pattern})${TOKEN_END}`, "giu");
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(text))) {
+            const apply = rule.resolve(match, today);
+            if (apply) {
+                candidates.push({
+                    type: rule.type,
+                    start: match.index,
+                    end: match.index + match[0].length,
+                    apply,
+                });
+            }
+        }
+    }
+
+    // Earliest first; at the same position the longer match wins
+    candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+
+    const result: ParsedQuickAdd = { title: "", tags: [], tokens: [] };
+    const seenTypes = new Set<QuickAddTokenType>();
+    let lastEnd = 0;
+
+    for (const candidate of candidates) {
+        if (candidate.start < lastEnd) continue;
+        if (candidate.type !== "tag" && seenTypes.has(candidate.type)) continue;
+        seenTypes.add(candidate.type);
+        candidate.apply(result);
+        result.tokens.push({ type: candidate.type, start: candidate.start, end: candidate.end });
+        lastEnd = candidate.end;
+    }
+
+    if (result.dueTime && !result.dueDate) result.dueDate = toDateKey(today);
+
+    let title = "";
+    let cursor = 0;
+    for (const token of result.tokens) {
+        title += `${text.slice(cursor, token.start)} `;
+        cursor = token.end;
+    }
+    title += text.slice(cursor);
+    result.title = title.replace(/\s+/g, " ").replace(/^[\s,;]+|[\s,;]+$/g, "");
+
+    return result;
+}
+
+// Splits the text into plain and token segments for highlighting
+export function splitByTokens(
+    text: string,
+    tokens: QuickAddToken[]
+): { text: string; type?: QuickAddTokenType }[] {
+    const segments: { text: string; type?: QuickAddTokenType }[] = [];
+    let cursor = 0;
+    for (const token of tokens) {
+        if (token.start > cursor) segments.push({ text: text.slice(cursor, token.start) });
+        segments.push({ text: text.slice(token.start, token.end), type: token.type });
+        cursor = token.end;
+    }
+    if (cursor < text.length) segments.push({ text: text.slice(cursor) });
+    return segments;
+}
@@ -0,0 +1,66 @@
+import { addDays, addMonths, format, getDaysInMonth, parseISO, setDate, startOfMonth } from "date-fns";
+import type { RecurrenceRule } from "@/types";
+
+const WEEKDAY_SHORT = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function toKey(date: Date): string {
+    return format(date, "yyyy-MM-dd");
+}
+
+// Months shorter than the rule's day fall back to their last day (e.g. "day 31" in February)
+function monthlyDate(month: Date, dayOfMonth: number): Date {
+    const day = Math.min(Math.max(1, dayOfMonth), getDaysInMonth(month));
+    return setDate(startOfMonth(month), day);
+}
+
+// Returns the first occurrence strictly after `fromKey` ("yyyy-MM-dd")
+export function getNextOccurrence(rule: RecurrenceRule, fromKey: string): string {
+    const from = parseISO(fromKey);
+
+    switch (rule.type) {
+        case "daily":
+            return toKey(addDays(from, 1));
+        case "weekdays": {
+            let next = addDays(from, 1);
+            while (next.getDay() === 0 || next.getDay() === 6) {
+                next = addDays(next, 1);
+            }
+            return toKey(next);
+        }
+        case "interval":
+            return toKey(addDays(from, Math.max(1, Math.round(rule.everyDays))));
+        case "weekly": {
+            if (rule.weekdays.length === 0) return toKey(addDays(from, 7));
+            let next = addDays(from, 1);
+            while (!rule.weekdays.includes(next.getDay())) {
+                next = addDays(next, 1);
+            }
+            return toKey(next);
+        }
+        case "monthly": {
+            const thisMonth = monthlyDate(from, rule.dayOfMonth);
+            if (thisMonth > from) return toKey(thisMonth);
+            return toKey(monthlyDate(addMonths(startOfMonth(from), 1), rule.dayOfMonth));
+        }
+    }
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+    switch (rule.type) {
+        case "daily":
+            return "Every day";
+        case "weekdays":
+            return "Every weekday";
+        case "interval":
+            return rule.everyDays === 1 ? "Every day" : `Every ${rule.everyDays} days`;
+        case "weekly":
+            return rule.weekdays.length === 0
+                ? "Every week"
+                : `Weekly on ${[...rule.weekdays]
+                      .sort((a, b) => a - b)
+                      .map((day) => WEEKDAY_SHORT[day])
+                      .join(", ")}`;
+        case "monthly":
+            return `Monthly on day ${rule.dayOfMonth}`;
+    }
+}
@@ -0,0 +1,136 @@
+import type { Timestamp } from "firebase/firestore";
+import type { Goal, Todo } from "@/types";
+
+export type TodoSortMode = "manual" | "created" | "due" | "priority";
+export type GoalSortMode = "manual" | "created" | "target";
+
+export type SortKeyUpdate = { id: string; sortKey: number };
+
+export const TODO_SORT_LABELS: Record<TodoSortMode, string> = {
+    manual: "Manual order",
+    created: "Newest first",
+    due: "Due date",
+    priority: "Priority",
+};
+
+export const GOAL_SORT_LABELS: Record<GoalSortMode, string> = {
+    manual: "Manual order",
+    created: "Newest first",
+    target: "Target date",
+};
+
+type Sortable = { id: string; sortKey?: number; createdAt?: Timestamp };
+
+// Gap between keys when a list is renumbered
+const REBALANCE_SPACING = 1024;
+
+// Items that were never reordered fall back to their creation time, newest first, so the
+// manual order starts out identical to the "created" order
+export function getSortKey(item: Sortable): number {
+    if (item.sortKey !== undefined && Number.isFinite(item.sortKey)) return item.sortKey;
+    return item.createdAt ? -item.createdAt.toMillis() : 0;
+}
+
+function compareCreatedDesc(a: Sortable, b: Sortable): number {
+    return (b.createdAt?.toMillis() ?? 0) - (a.createdAt?.toMillis() ?? 0);
+}
+
+export function compareBySortKey(a: Sortable, b: Sortable): number {
+    return getSortKey(a) - getSortKey(b) || compareCreatedDesc(a, b);
+}
+
+export function sortTodos(todos: Todo[], mode: TodoSortMode): Todo[] {
+    const sorted = [...todos];
+    switch (mode) {
+        case "created":
+            return sorted.sort(compareCreatedDesc);
+        // Undated and unprioritised todos go last; ties keep the manual order
+        case "due":
+            return sorted.sort(
+                (a, b) =>
+                    (a.dueDate ?? "9999-12-31").localeCompare(b.dueDate ?? "9999-12-31") ||
+                    (a.dueTime ?? "99:99").localeCompare(b.dueTime ?? "99:99") ||
+                    compareBySortKey(a, b)
+            );
+        case "priority":
+            return sorted.sort(
+                (a, b) => (a.priority ?? 5) - (b.priority ?? 5) || compareBySortKey(a, b)
+            );
+        default:
+            return sorted.sort(compareBySortKey);
+    }
+}
+
+export function sortGoals(goals: Goal[], mode: GoalSortMode): Goal[] {
+    const sorted = [...goals];
+    switch (mode) {
+        case "created":
+            return sorted.sort(compareCreatedDesc);
+        case "target":
+            return sorted.sort(
+                (a, b) =>
+                    (a.targetDate ?? "9999-12-31").localeCompare(b.targetDate ?? "9999-12-31") ||
+                    compareBySortKey(a, b)
+            );
+        default:
+            return sorted.sort(compareBySortKey);
+    }
+}
+
+// Sort keys to write when `movedId` is dropped between `prevId` and `nextId` (either may be
+// missing at the ends of the list). `items` is the full list in manual order, so items
+// hidden by a filter keep their place. Usually only the moved item changes; when there is
+// no room left between its neighbours the whole list is renumbered.
+export function getReorderUpdates(
+    items: Sortable[],
+    movedId: string,
+    prevId?: string,
+    nextId?: string
+): SortKeyUpdate[] {
+    const byId = new Map(items.map((item) => [item.id, item]));
+    const prevKey = prevId && byId.has(prevId) ? getSortKey(byId.get(prevId)!) : undefined;
+    const nextKey = nextId && byId.has(nextId) ? getSortKey(byId.get(nextId)!) : undefined;
+
+    let sortKey: number;
+    if (prevKey !== undefined && nextKey !== undefined) {
+        sortKey = (prevKey + nextKey) / 2;
+    } else if (prevKey !== undefined) {
+        sortKey = prevKey + REBALANCE_SPACING;
+    } else if (nextKey !== undefined) {
+        sortKey = nextKey - REBALANCE_SPACING;
+    } else {
+        return [];
+    }
+
+    const hasRoom =
+        (prevKey === undefined || sortKey > prevKey) && (nextKey === undefined || sortKey < nextKey);
+    if (hasRoom) return [{ id: movedId, sortKey }];
+
+    const reordered = [...items].sort(compareBySortKey).filter((item) => item.id !== movedId);
+    const insertAt = prevId ? reordered.findIndex((item) => item.id === prevId) + 1 : 0;
+    reordered.splice(insertAt, 0, byId.get(movedId)!);
+
+    return reordered
+        .map((item, index) => ({ id: item.id, sortKey: (index + 1) * REBALANCE_SPACING }))
+        .filter(({ id, sortKey: key }) => byId.get(id)!.sortKey !== key);
+}
+
+// Moving `movedId` to position `toIndex` of the visible list, which shows a subset of
+// `items` in manual order
+export function getMoveUpdates(
+    items: Sortable[],
+    visibleIds: string[],
+    movedId: string,
+    toIndex: number
+): SortKeyUpdate[] {
+    const remaining = visibleIds.filter((id) => id !== movedId);
+    return getReorderUpdates(items, movedId, remaining[toIndex - 1], remaining[toIndex]);
+}
+
+export function applySortKeyUpdates<T extends { id: string; sortKey?: number }>(
+    items: T[],
+    updates: SortKeyUpdate[]
+): T[] {
+    const keys = new Map(updates.map((update) => [update.id, update.sortKey]));
+    return items.map((item) => (keys.has(item.id) ? { ...item, sortKey: keys.get(item.id) } : item));
+}
@@ -0,0 +1,66 @@
+import { addDays, startOfDay } from "date-fns";
+import { Timestamp } from "firebase/firestore";
+import { toDateKey } from "@/lib/dueDates";
+import type { Activity, ActivityTimer } from "@/types";
+
+export function startTimer(activity: Pick<Activity, "id" | "name">, now: Date): ActivityTimer {
+    return {
+        activityId: activity.id,
+        activityName: activity.name,
+        runs: [],
+        runningSince: Timestamp.fromDate(now),
+    };
+}
+
+export function pauseTimer(timer: ActivityTimer, now: Date): ActivityTimer {
+    const { runningSince, ...paused } = timer;
+    if (!runningSince) return timer;
+    return { ...paused, runs: [...timer.runs, { start: runningSince, end: Timestamp.fromDate(now) }] };
+}
+
+export function resumeTimer(timer: ActivityTimer, now: Date): ActivityTimer {
+    return timer.runningSince ? timer : { ...timer, runningSince: Timestamp.fromDate(now) };
+}
+
+// Finished runs plus the current one, which ends `now`
+function getRuns(timer: ActivityTimer, now: Date): { start: Date; end: Date }[] {
+    const runs = timer.runs.map((run) => ({ start: run.start.toDate(), end: run.end.toDate() }));
+    return timer.runningSince ? [...runs, { start: timer.runningSince.toDate(), end: now }] : runs;
+}
+
+export function getElapsedMs(timer: ActivityTimer, now: Date): number {
+    return getRuns(timer, now).reduce(
+        (total, run) => total + Math.max(0, run.end.getTime() - run.start.getTime()),
+        0
+    );
+}
+
+// Whole minutes per yyyy-MM-dd date, in date order, for the logs a stopped timer creates.
+// Runs that cross midnight are split at it; dates that round to zero minutes are left out.
+export function splitTimerByDay(timer: ActivityTimer, now: Date): { date: string; minutes: number }[] {
+    const msByDate = new Map<string, number>();
+    for (const run of getRuns(timer, now)) {
+        let cursor = run.start;
+        while (cursor < run.end) {
+            const nextMidnight = addDays(startOfDay(cursor), 1);
+            const end = run.end < nextMidnight ? run.end : nextMidnight;
+            const date = toDateKey(cursor);
+            msByDate.set(date, (msByDate.get(date) ?? 0) + end.getTime() - cursor.getTime());
+            cursor = end;
+        }
+    }
+
+    return [...msByDate]
+        .map(([date, ms]) => ({ date, minutes: Math.round(ms / 60_000) }))
+        .filter((part) => part.minutes > 0)
+        .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// "4:05" under an hour, "1:04:05" from then on
+export function formatElapsed(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = String(totalSeconds % 60).padStart(2, "0");
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`;
+}
@@ -0,0 +1,84 @@
+import type { InfiniteData, QueryClient, QueryKey } from "@tanstack/react-query";
+import type { QueryDocumentSnapshot } from "firebase/firestore";
+import type { Page } from "./firestore";
+import type { Todo } from "@/types";
+
+export const TODO_PAGE_SIZE = 50;
+
+// ["todos", uid] holds the paginated list; ["todos", uid, "goal", goalId] holds every
+// todo linked to one goal. They share the prefix with the due list and the server-side
+// counts, so a single invalidate or cancel covers all of them.
+export type TodosCache = InfiniteData<Page<Todo>, QueryDocumentSnapshot | null>;
+
+export type TodoCacheSnapshot = [QueryKey, TodosCache | Todo[] | undefined][];
+
+function isListKey(queryKey: QueryKey): boolean {
+    return queryKey.length === 2;
+}
+
+function isGoalTodosKey(queryKey: QueryKey): boolean {
+    return queryKey[2] === "goal";
+}
+
+// Loaded todos of the paginated list, in page order
+export function getCachedTodos(queryClient: QueryClient, uid: string): Todo[] {
+    const cache = queryClient.getQueryData<TodosCache>(["todos", uid]);
+    return cache?.pages.flatMap((page) => page.items) ?? [];
+}
+
+// Finds a todo in any cached list, including goal lists reaching past the loaded pages
+export function findCachedTodo(queryClient: QueryClient, uid: string, todoId: string): Todo | undefined {
+    for (const [, data] of snapshotTodoCaches(queryClient, uid)) {
+        const todos = Array.isArray(data) ? data : data?.pages.flatMap((page) => page.items);
+        const todo = todos?.find((item) => item.id === todoId);
+        if (todo) return todo;
+    }
+    return undefined;
+}
+
+// The paginated list and the goal lists; the due list and counts are simply refetched
+export function snapshotTodoCaches(queryClient: QueryClient, uid: string): TodoCacheSnapshot {
+    return queryClient
+        .getQueriesData<TodosCache | Todo[]>({ queryKey: ["todos", uid] })
+        .filter(([queryKey]) => isListKey(queryKey) || isGoalTodosKey(queryKey));
+}
+
+export function restoreTodoCaches(queryClient: QueryClient, snapshot: TodoCacheSnapshot) {
+    snapshot.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+}
+
+export async function cancelTodoQueries(queryClient: QueryClient, uid: string) {
+    await queryClient.cancelQueries({ queryKey: ["todos", uid] });
+}
+
+// Applies an optimistic update to every cached todo list. `update` sees each list as one
+// array; paginated todos stay on the page they were on and new todos join the first page,
+// and goal lists keep only the todos still linked to their goal.
+export function updateCachedTodos(
+    queryClient: QueryClient,
+    uid: string,
+    update: (todos: Todo[]) => Todo[]
+) {
+    snapshotTodoCaches(queryClient, uid).forEach(([queryKey, data]) => {
+        if (!data) return;
+
+        if (Array.isArray(data)) {
+            const goalId = queryKey[3];
+            queryClient.setQueryData<Todo[]>(
+                queryKey,
+                update(data).filter((todo) => todo.goalId === goalId)
+            );
+            return;
+        }
+
+        const pageIndexById = new Map<string, number>();
+        data.pages.forEach((page, index) =>
+            page.items.forEach((todo) => pageIndexById.set(todo.id, index))
+        );
+        const pages = data.pages.map((page) => ({ ...page, items: [] as Todo[] }));
+        update(data.pages.flatMap((page) => page.items)).forEach((todo) => {
+            pages[pageIndexById.get(todo.id) ?? 0].items.push(todo);
+        });
+        queryClient.setQueryData<TodosCache>(queryKey, { ...data, pages });
+    });
+}
@@ -0,0 +1,86 @@
+import type { Todo, TodoDueFilter, TodoFilter, TodoPriority } from "@/types";
+import { getDueStatus } from "./dueDates";
+
+export const NO_GOAL_FILTER = "no-goal";
+
+export const PRIORITIES: TodoPriority[] = [1, 2, 3, 4];
+
+// Badge and chip colors per priority
+export const PRIORITY_STYLES: Record<TodoPriority, string> = {
+    1: "border-destructive/30 bg-destructive/10 text-destructive",
+    2: "border-orange-300/50 bg-orange-500/10 text-orange-600 dark:text-orange-400",
+    3: "border-primary/30 bg-primary/10 text-primary",
+    4: "border-border bg-muted text-muted-foreground",
+};
+
+export const DUE_FILTER_LABELS: Record<TodoDueFilter, string> = {
+    overdue: "Overdue",
+    today: "Due today",
+    upcoming: "Upcoming",
+    no_date: "No due date",
+};
+
+// Tags are compared case-insensitively and stored without a leading "#"
+export function normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#+/, "").toLowerCase();
+}
+
+export function parseTags(text: string): string[] {
+    return [...new Set(text.split(/[,\s]+/).map(normalizeTag).filter(Boolean))];
+}
+
+export function collectTags(todos: Todo[]): string[] {
+    return [...new Set(todos.flatMap((todo) => todo.tags ?? []))].sort();
+}
+
+export function isFilterEmpty(filter: TodoFilter): boolean {
+    return (
+        !filter.status &&
+        !filter.goalIds?.length &&
+        !filter.tags?.length &&
+        !filter.priorities?.length &&
+        !filter.due
+    );
+}
+
+export function matchesTodoFilter(todo: Todo, filter: TodoFilter, todayKey: string): boolean {
+    if (filter.status === "pending" && todo.isDone) return false;
+    if (filter.status === "done" && !todo.isDone) return false;
+
+    if (filter.goalIds?.length) {
+        const goalKey = todo.goalId ?? NO_GOAL_FILTER;
+        if (!filter.goalIds.includes(goalKey)) return false;
+    }
+
+    if (filter.tags?.length) {
+        const tags = todo.tags ?? [];
+        if (!filter.tags.every((tag) => tags.includes(tag))) return false;
+    }
+
+    if (filter.priorities?.length) {
+        if (!todo.priority || !filter.priorities.includes(todo.priority)) return false;
+    }
+
+    switch (filter.due) {
+        case "no_date":
+            return !todo.dueDate;
+        case "upcoming":
+            return !todo.isDone && getDueStatus(todo, todayKey) === "upcoming";
+        case "overdue":
+        case "today":
+            return getDueStatus(todo, todayKey) === filter.due;
+        default:
+            return true;
+    }
+}
+
+// Drops empty criteria so saved smart lists only store what was actually chosen
+export function compactFilter(filter: TodoFilter): TodoFilter {
+    const compacted: TodoFilter = {};
+    if (filter.status) compacted.status = filter.status;
+    if (filter.goalIds?.length) compacted.goalIds = filter.goalIds;
+    if (filter.tags?.length) compacted.tags = filter.tags;
+    if (filter.priorities?.length) compacted.priorities = filter.priorities;
+    if (filter.due) compacted.due = filter.due;
+    return compacted;
+}
@@ -0,0 +1,16 @@
+import type { Todo, TodoStatus } from "@/types";
+
+export const TODO_STATUSES: TodoStatus[] = ["backlog", "in_progress", "done"];
+
+export const TODO_STATUS_LABELS: Record<TodoStatus, string> = {
+    backlog: "Backlog",
+    in_progress: "In progress",
+    done: "Done",
+};
+
+// isDone stays the source of truth for completion, so a stale "done" status on a
+// reopened todo (or a missing status on an old one) still lands in the right column
+export function getTodoStatus(todo: Todo): TodoStatus {
+    if (todo.isDone) return "done";
+    return todo.status === "in_progress" ? "in_progress" : "backlog";
+}
@@ -0,0 +1,17 @@
+import { differenceInCalendarDays } from "date-fns";
+import type { Timestamp } from "firebase/firestore";
+import type { TrashCollection } from "@/types";
+
+// Trashed items are permanently deleted after this many days
+export const TRASH_RETENTION_DAYS = 30;
+
+export const TRASH_LABELS: Record<TrashCollection, string> = {
+    goals: "Goals",
+    todos: "Todos",
+    activities: "Activities",
+    dailyLogs: "Daily logs",
+};
+
+export function getDaysUntilPurge(deletedAt: Timestamp, now: Date): number {
+    return Math.max(0, TRASH_RETENTION_DAYS - differenceInCalendarDays(now, deletedAt.toDate()));
+}
@@ -0,0 +1,310 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Archive, ArchiveRestore, ArrowLeft, Check, Merge, Tags, Trash2 } from "lucide-react";
+import {
+    Button,
+    Card,
+    CardContent,
+    Input,
+    Label,
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+    Skeleton,
+} from "@/components/ui";
+import {
+    useActivities,
+    useArchiveActivity,
+    useDeleteActivity,
+    useMergeActivity,
+    useUpdateActivity,
+} from "@/hooks/useDailyTracker";
+import { ACTIVITY_COLORS, getActivityColor } from "@/lib/activities";
+import { TARGET_PERIODS, TARGET_PERIOD_LABELS } from "@/lib/activityTargets";
+import { cn } from "@/lib/utils";
+import type { Activity, TargetPeriod } from "@/types";
+
+// Select value for an activity without a time target (Radix selects cannot use "")
+const NO_TARGET = "none";
+
+function ActivityRow({ activity }: { activity: Activity }) {
+    const [name, setName] = useState(activity.name);
+    const updateActivity = useUpdateActivity();
+    const archiveActivity = useArchiveActivity();
+    const deleteActivity = useDeleteActivity();
+    const color = getActivityColor(activity);
+    const isArchived = !!activity.archivedAt;
+    const [targetPeriod, setTargetPeriod] = useState<TargetPeriod | typeof NO_TARGET>(
+        activity.target?.period ?? NO_TARGET
+    );
+    const [targetHours, setTargetHours] = useState(
+        activity.target ? String(activity.target.minutes / 60) : ""
+    );
+
+    const saveName = () => {
+        const trimmed = name.trim();
+        if (!trimmed || trimmed === activity.name) {
+            setName(activity.name);
+            return;
+        }
+        updateActivity.mutate({ activityId: activity.id, updates: { name: trimmed } });
+    };
+
+    // Saved once both a period and a positive number of hours are set
+    const saveTarget = (period: TargetPeriod | typeof NO_TARGET, hours: string) => {
+        if (period === NO_TARGET) {
+            setTargetHours("");
+            if (activity.target) {
+                updateActivity.mutate({ activityId: activity.id, updates: { target: undefined } });
+            }
+            return;
+        }
+        const minutes = Math.round(Number(hours) * 60);
+        if (!hours || !Number.isFinite(minutes) || minutes <= 0) return;
+        if (activity.target?.period === period && activity.target.minutes === minutes) return;
+        updateActivity.mutate({ activityId: activity.id, updates: { target: { period, minutes } } });
+    };
+
+    return (
+        <div
+            className={cn(
+                "space-y-3 rounded-xl border border-border p-4",
+                isArchived && "bg-muted/40"
+            )}
+        >
+            <div className="flex items-center gap-3">
+                <span className="h-3 w-3 shrink-0 rounded-full" style={{ backgroundColor: color }} />
+                <Input
+                    value={name}
+                    onChange={(event) => setName(event.target.value)}
+                    onBlur={saveName}
+                    onKeyDown={(event) => {
+                        if (event.key === "Enter") event.currentTarget.blur();
+                        if (event.key === "Escape") setName(activity.name);
+                    }}
+                    aria-label="Activity name"
+                    className="flex-1"
+                />
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() =>
+                        archiveActivity.mutate({ activityId: activity.id, isArchived: !isArchived })
+                    }
+                    aria-label={isArchived ? "Unarchive activity" : "Archive activity"}
+                    title={isArchived ? "Unarchive" : "Archive"}
+                >
+                    {isArchived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                </Button>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    onClick={() => deleteActivity.mutate(activity.id)}
+                    aria-label="Delete activity"
+                >
+                    <Trash2 className="w-4 h-4" />
+                </Button>
+            </div>
+            <div className="flex flex-wrap gap-2 pl-6" role="radiogroup" aria-label="Color">
+                {ACTIVITY_COLORS.map((option) => (
+                    <button
+                        key={option}
+                        type="button"
+                        role="radio"
+                        aria-checked={option === color}
+                        aria-label={option}
+                        onClick={() =>
+                            updateActivity.mutate({ activityId: activity.id, updates: { color: option } })
+                        }
+                        className="flex h-6 w-6 items-center justify-center rounded-full transition-transform hover:scale-110 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                        style={{ backgroundColor: option }}
+                    >
+                        {option === color && <Check className="h-3.5 w-3.5 text-white" />}
+                    </button>
+                ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-2 pl-6">
+                <Label htmlFor={`target-${activity.id}`} className="text-sm text-muted-foreground">
+                    Time target
+                </Label>
+                <Input
+                    id={`target-${activity.id}`}
+                    type="number"
+                    min={0.25}
+                    step={0.25}
+                    value={targetHours}
+                    onChange={(event) => setTargetHours(event.target.value)}
+                    onBlur={() => saveTarget(targetPeriod, targetHours)}
+                    onKeyDown={(event) => {
+                        if (event.key === "Enter") event.currentTarget.blur();
+                    }}
+                    disabled={targetPeriod === NO_TARGET}
+                    placeholder="Hours"
+                    className="w-24"
+                />
+                <Select
+                    value={targetPeriod}
+                    onValueChange={(value) => {
+                        const period = value as TargetPeriod | typeof NO_TARGET;
+                        setTargetPeriod(period);
+                        saveTarget(period, targetHours);
+                    }}
+                >
+                    <SelectTrigger className="w-36" aria-label="Target period">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={NO_TARGET}>No target</SelectItem>
+                        {TARGET_PERIODS.map((period) => (
+                            <SelectItem key={period} value={period}>
+                                hours {TARGET_PERIOD_LABELS[period]}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+        </div>
+    );
+}
+
+function MergeActivitiesCard({ activities }: { activities: Activity[] }) {
+    const [sourceId, setSourceId] = useState("");
+    const [targetId, setTargetId] = useState("");
+    const mergeActivity = useMergeActivity();
+    const target = activities.find((activity) => activity.id === targetId);
+
+    const handleMerge = () => {
+        if (!target || sourceId === targetId) return;
+        mergeActivity.mutate(
+            { sourceId, target },
+            {
+                onSuccess: () => {
+                    setSourceId("");
+                    setTargetId("");
+                },
+            }
+        );
+    };
+
+    return (
+        <Card>
+            <CardContent className="p-6 space-y-4">
+                <div>
+                    <h2 className="text-lg font-semibold text-foreground">Merge duplicates</h2>
+                    <p className="text-sm text-muted-foreground">
+                        Moves every log of the first activity to the second one, along with goals that
+                        track it, then deletes the first activity.
+                    </p>
+                </div>
+                <div className="grid gap-3 sm:grid-cols-[1fr_1fr_auto] sm:items-center">
+                    <Select value={sourceId} onValueChange={setSourceId}>
+                        <SelectTrigger aria-label="Activity to merge">
+                            <SelectValue placeholder="Merge this activity..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {activities.map((activity) => (
+                                <SelectItem key={activity.id} value={activity.id}>
+                                    {activity.name}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Select value={targetId} onValueChange={setTargetId}>
+                        <SelectTrigger aria-label="Activity to keep">
+                            <SelectValue placeholder="...into this one" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {activities
+                                .filter((activity) => activity.id !== sourceId)
+                                .map((activity) => (
+                                    <SelectItem key={activity.id} value={activity.id}>
+                                        {activity.name}
+                                    </SelectItem>
+                                ))}
+                        </SelectContent>
+                    </Select>
+                    <Button
+                        onClick={handleMerge}
+                        disabled={!sourceId || !target || sourceId === targetId || mergeActivity.isPending}
+                    >
+                        <Merge className="w-4 h-4" />
+                        Merge
+                    </Button>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
+
+export function ActivitiesPage() {
+    const { data: activities, isLoading } = useActivities();
+    const sorted = [...(activities ?? [])].sort((a, b) => a.name.localeCompare(b.name));
+    const active = sorted.filter((activity) => !activity.archivedAt);
+    const archived = sorted.filter((activity) => activity.archivedAt);
+
+    return (
+        <div className="space-y-8">
+            <div>
+                <Link
+                    to="/daily"
+                    className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-primary"
+                >
+                    <ArrowLeft className="w-4 h-4" />
+                    Daily Tracker
+                </Link>
+                <h1 className="text-3xl font-bold text-foreground mt-2">Manage activities</h1>
+                <p className="text-muted-foreground mt-1">
+                    Rename, recolor, set time targets for, archive or merge the activities you log time on
+                </p>
+            </div>
+
+            {isLoading ? (
+                <div className="space-y-3">
+                    {[1, 2, 3].map((item) => (
+                        <Skeleton key={item} className="h-24" />
+                    ))}
+                </div>
+            ) : sorted.length === 0 ? (
+                <Card className="p-12">
+                    <div className="text-center">
+                        <div className="w-16 h-16 rounded-2xl bg-muted flex items-center justify-center mx-auto mb-4">
+                            <Tags className="w-8 h-8 text-muted-foreground" />
+                        </div>
+                        <h3 className="text-lg font-semibold text-foreground mb-2">No activities yet</h3>
+                        <p className="text-muted-foreground">
+                            Activities you create in the Daily Tracker show up here.
+                        </p>
+                    </div>
+                </Card>
+            ) : (
+                <>
+                    {/* Rows are keyed by name too, so a rename from elsewhere resets the field */}
+                    <div className="space-y-3">
+                        {active.map((activity) => (
+                            <ActivityRow key={`${activity.id}:${activity.name}`} activity={activity} />
+                        ))}
+                    </div>
+
+                    {archived.length > 0 && (
+                        <div className="space-y-3">
+                            <div>
+                                <h2 className="text-lg font-semibold text-foreground">Archived</h2>
+                                <p className="text-sm text-muted-foreground">
+                                    Hidden when logging time; their logs still count in reports and goals.
+                                </p>
+                            </div>
+                            {archived.map((activity) => (
+                                <ActivityRow key={`${activity.id}:${activity.name}`} activity={activity} />
+                            ))}
+                        </div>
+                    )}
+
+                    {sorted.length > 1 && <MergeActivitiesCard activities={sorted} />}
+                </>
+            )}
+        </div>
+    );
+}
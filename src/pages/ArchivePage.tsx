@@ -0,0 +1,145 @@
+import { useDeferredValue, useState } from "react";
+import { format } from "date-fns";
+import { Archive, ArchiveRestore, Search } from "lucide-react";
+import { useArchiveCounts, useArchivedItems, useUnarchiveItem } from "@/hooks/useArchive";
+import {
+    Button,
+    Card,
+    CardContent,
+    Input,
+    Skeleton,
+    Tabs,
+    TabsContent,
+    TabsList,
+    TabsTrigger,
+} from "@/components/ui";
+import { ARCHIVE_LABELS } from "@/lib/archive";
+import type { ArchiveCollection, Goal, Todo } from "@/types";
+
+function ArchiveList({ collection, search }: { collection: ArchiveCollection; search: string }) {
+    const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useArchivedItems<
+        Todo | Goal
+    >(collection, search);
+    const unarchiveItem = useUnarchiveItem();
+
+    if (isLoading) {
+        return (
+            <div className="space-y-2">
+                {[1, 2, 3].map((i) => (
+                    <Skeleton key={i} className="h-16" />
+                ))}
+            </div>
+        );
+    }
+
+    const items = data?.pages.flatMap((page) => page.items) ?? [];
+
+    if (items.length === 0) {
+        return (
+            <Card className="p-12">
+                <div className="text-center">
+                    <div className="w-16 h-16 rounded-2xl bg-muted flex items-center justify-center mx-auto mb-4">
+                        <Archive className="w-8 h-8 text-muted-foreground" />
+                    </div>
+                    <h3 className="text-lg font-semibold text-foreground mb-2">
+                        {search ? "No matches" : "Nothing archived yet"}
+                    </h3>
+                    <p className="text-muted-foreground">
+                        {search
+                            ? "Search matches the start of archived titles."
+                            : `Archived ${ARCHIVE_LABELS[collection].toLowerCase()} show up here.`}
+                    </p>
+                </div>
+            </Card>
+        );
+    }
+
+    return (
+        <Card>
+            <CardContent className="space-y-2 p-4">
+                {items.map((item) => (
+                    <div
+                        key={item.id}
+                        className="flex items-center justify-between gap-3 rounded-xl border border-border p-3"
+                    >
+                        <div className="min-w-0">
+                            <p className="truncate text-foreground">{item.title}</p>
+                            <p className="text-xs text-muted-foreground">
+                                {item.completedAt && `Completed ${format(item.completedAt.toDate(), "MMM d, yyyy")} · `}
+                                {item.archivedAt && `Archived ${format(item.archivedAt.toDate(), "MMM d, yyyy")}`}
+                            </p>
+                        </div>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            className="shrink-0"
+                            onClick={() => unarchiveItem.mutate({ collection, id: item.id })}
+                        >
+                            <ArchiveRestore className="w-4 h-4 mr-2" />
+                            Unarchive
+                        </Button>
+                    </div>
+                ))}
+
+                {hasNextPage && (
+                    <div className="flex justify-center pt-2">
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => fetchNextPage()}
+                            disabled={isFetchingNextPage}
+                        >
+                            {isFetchingNextPage ? "Loading..." : "Load more"}
+                        </Button>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
+
+export function ArchivePage() {
+    const [collection, setCollection] = useState<ArchiveCollection>("todos");
+    const [search, setSearch] = useState("");
+    const deferredSearch = useDeferredValue(search.trim());
+    const { data: counts } = useArchiveCounts();
+
+    return (
+        <div className="space-y-8">
+            <div>
+                <h1 className="text-3xl font-bold text-foreground">Archive</h1>
+                <p className="text-muted-foreground mt-1">
+                    Completed todos and goals you have put away. They still count toward goal progress
+                    and your stats.
+                </p>
+            </div>
+
+            <Tabs value={collection} onValueChange={(value) => setCollection(value as ArchiveCollection)}>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                    <TabsList>
+                        {(Object.keys(ARCHIVE_LABELS) as ArchiveCollection[]).map((key) => (
+                            <TabsTrigger key={key} value={key}>
+                                {ARCHIVE_LABELS[key]}
+                                {counts && ` (${counts[key]})`}
+                            </TabsTrigger>
+                        ))}
+                    </TabsList>
+                    <div className="relative w-full sm:w-64">
+                        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                        <Input
+                            value={search}
+                            onChange={(event) => setSearch(event.target.value)}
+                            placeholder="Search titles"
+                            aria-label="Search archive"
+                            className="pl-9"
+                        />
+                    </div>
+                </div>
+
+                <TabsContent value={collection} className="mt-6">
+                    <ArchiveList collection={collection} search={deferredSearch} />
+                </TabsContent>
+            </Tabs>
+        </div>
+    );
+}
@@ -9,7 +9,8 @@ import {
     subDays,
 } from "date-fns";
 import { Bar, BarChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
-import { CalendarDays, ChevronLeft, ChevronRight, Trash2, Plus, X } from "lucide-react";
+import { Link } from "react-router-dom";
+import { CalendarDays, ChevronLeft, ChevronRight, Trash2, Plus, X, Settings2 } from "lucide-react";
 import {
     Button,
     Card,
@@ -27,10 +28,16 @@ import {
     useAddActivity,
     useAddDailyLog,
     useDailyLogs,
+    useDeleteActivity,
     useDeleteDailyLog,
     useUpdateDailyLog,
 } from "@/hooks/useDailyTracker";
+import { ActivityTimerCard } from "@/components/tracker/ActivityTimerCard";
+import { TargetRingsCard } from "@/components/tracker/TargetRingsCard";
+import { LogCsvCard } from "@/components/tracker/LogCsvCard";
 import { cn } from "@/lib/utils";
+import { getActivityColor, getSelectableActivities } from "@/lib/activities";
+import { getDailyTargetMinutes } from "@/lib/activityTargets";
 import type { DailyLog } from "@/types";
 
 const PRESET_ACTIVITIES = [
@@ -57,6 +64,7 @@ export function DailyTrackerPage() {
     const { data: dailyLogs, isLoading: logsLoading } = useDailyLogs({ month });
     const addDailyLog = useAddDailyLog();
     const addActivity = useAddActivity();
+    const deleteActivity = useDeleteActivity();
     const deleteDailyLog = useDeleteDailyLog();
     const updateDailyLog = useUpdateDailyLog();
 
@@ -103,8 +111,9 @@ export function DailyTrackerPage() {
         // User asked for "Last selection" memory, but for now let's just ensure we don't start empty if possible
         // But if we want to show "Select activity" placeholder to prompt action, we might skip this.
         // However, user said "Dropdown default activity automatically first time".
-        if (!selectedActivityId && activities && activities.length > 0) {
-            setSelectedActivityId(activities[0].id);
+        const selectable = getSelectableActivities(activities ?? []);
+        if (!selectedActivityId && selectable.length > 0) {
+            setSelectedActivityId(selectable[0].id);
         }
     }, [activities, selectedActivityId]);
 
@@ -125,6 +134,17 @@ export function DailyTrackerPage() {
         }, {});
     }, [activities]);
 
+    const activityById = useMemo(
+        () => new Map((activities ?? []).map((activity) => [activity.id, activity])),
+        [activities]
+    );
+
+    // Archived activities are only offered while already selected
+    const selectableActivities = useMemo(
+        () => getSelectableActivities(activities ?? [], selectedActivityId),
+        [activities, selectedActivityId]
+    );
+
     const todayKey = format(new Date(), "yyyy-MM-dd");
 
     const todayLogs = useMemo(() => {
@@ -143,19 +163,40 @@ export function DailyTrackerPage() {
         [month]
     );
 
+    // One stacked bar segment per activity with time in the month, in the activity's color.
+    // Logs of deleted activities still show under their stored name.
+    const chartSeries = useMemo(() => {
+        const series = new Map<string, { id: string; name: string; color: string }>();
+        reportLogs.forEach((log) => {
+            if (series.has(log.activityId)) return;
+            const activity = activityById.get(log.activityId);
+            series.set(log.activityId, {
+                id: log.activityId,
+                name: activity?.name ?? log.activityName,
+                color: getActivityColor({ id: log.activityId, color: activity?.color }),
+            });
+        });
+        return [...series.values()];
+    }, [reportLogs, activityById]);
+
     const monthlyChartData = useMemo(() => {
         return monthDays.map((day) => {
             const dayKey = format(day, "yyyy-MM-dd");
-            const totalMinutes = reportLogs
+            const minutesByActivity = reportLogs
                 .filter((log) => log.date === dayKey)
-                .reduce((sum, log) => sum + log.durationMinutes, 0);
+                .reduce<Record<string, number>>((acc, log) => {
+                    acc[log.activityId] = (acc[log.activityId] ?? 0) + log.durationMinutes;
+                    return acc;
+                }, {});
             return {
                 date: format(day, "d"),
-                totalMinutes,
+                ...minutesByActivity,
             };
         });
     }, [monthDays, reportLogs]);
 
+    const reportActivity = activityById.get(reportActivityId);
+
     const totalMinutes = useMemo(
         () => reportLogs.reduce((sum, log) => sum + log.durationMinutes, 0),
         [reportLogs]
@@ -178,17 +219,43 @@ export function DailyTrackerPage() {
         0
     );
 
+    // Days in a row, up to today, on which the target was met: every reported activity that
+    // has a time target reached its daily share of it. Without targets any log counts.
+    const targetedActivities = useMemo(
+        () =>
+            (activities ?? []).filter(
+                (activity) =>
+                    activity.target &&
+                    !activity.archivedAt &&
+                    (reportActivityId === "all" || activity.id === reportActivityId)
+            ),
+        [activities, reportActivityId]
+    );
+
     const streakCount = useMemo(() => {
         if (reportLogs.length === 0) return 0;
-        const loggedDates = new Set(reportLogs.map((log) => log.date));
+        const minutesByDate = reportLogs.reduce<Record<string, Record<string, number>>>((acc, log) => {
+            const day = acc[log.date] ?? {};
+            day[log.activityId] = (day[log.activityId] ?? 0) + log.durationMinutes;
+            acc[log.date] = day;
+            return acc;
+        }, {});
+        const isMet = (dateKey: string) => {
+            const minutes = minutesByDate[dateKey];
+            if (!minutes) return false;
+            return targetedActivities.every(
+                (activity) => (minutes[activity.id] ?? 0) >= getDailyTargetMinutes(activity.target!, dateKey)
+            );
+        };
+
         let streak = 0;
         let cursor = parseISO(todayKey);
-        while (loggedDates.has(format(cursor, "yyyy-MM-dd"))) {
+        while (isMet(format(cursor, "yyyy-MM-dd"))) {
             streak += 1;
             cursor = subDays(cursor, 1);
         }
         return streak;
-    }, [reportLogs, todayKey]);
+    }, [reportLogs, targetedActivities, todayKey]);
 
     const handleAddLog = () => {
         if (!selectedActivityId || !durationMinutes) return;
@@ -216,13 +283,25 @@ export function DailyTrackerPage() {
 
     return (
         <div className="space-y-8">
-            <div>
-                <h1 className="text-3xl font-bold text-foreground">Daily Tracker</h1>
-                <p className="text-muted-foreground mt-1">
-                    Log recurring activities and review monthly insights
-                </p>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold text-foreground">Daily Tracker</h1>
+                    <p className="text-muted-foreground mt-1">
+                        Log recurring activities and review monthly insights
+                    </p>
+                </div>
+                <Button variant="outline" asChild>
+                    <Link to="/daily/activities">
+                        <Settings2 className="w-4 h-4" />
+                        Manage activities
+                    </Link>
+                </Button>
             </div>
 
+            <ActivityTimerCard activities={activities ?? []} />
+
+            <TargetRingsCard activities={activities ?? []} />
+
             <Card>
                 <CardContent className="p-6 space-y-4">
                     <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
@@ -260,52 +339,68 @@ export function DailyTrackerPage() {
                                     </Button>
                                 </div>
                             ) : (
-                                <Select
-                                    value={selectedActivityId}
-                                    onValueChange={handleActivityChange}
-                                >
-                                    <SelectTrigger>
-                                        <SelectValue placeholder="Select or create activity" />
-                                    </SelectTrigger>
-                                    <SelectContent className="max-h-[300px]">
-                                        <SelectItem value="custom_new" className="text-primary font-medium focus:bg-primary/10 cursor-pointer">
-                                            <div className="flex items-center gap-2">
-                                                <Plus className="w-4 h-4" />
-                                                Create custom activity...
-                                            </div>
-                                        </SelectItem>
-
-                                        {activities && activities.length > 0 && (
-                                            <>
-                                                <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground mt-2">
-                                                    Your Activities
-                                                </div>
-                                                {activities.map((activity) => (
-                                                    <SelectItem key={activity.id} value={activity.id}>
-                                                        {activity.name}
-                                                    </SelectItem>
-                                                ))}
-                                            </>
-                                        )}
-
-                                        {PRESET_ACTIVITIES.map((group) => (
-                                            <div key={group.category}>
-                                                <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground mt-2 border-t border-border">
-                                                    {group.category}
+                                <div className="flex gap-2">
+                                    <Select
+                                        value={selectedActivityId}
+                                        onValueChange={handleActivityChange}
+                                    >
+                                        <SelectTrigger>
+                                            <SelectValue placeholder="Select or create activity" />
+                                        </SelectTrigger>
+                                        <SelectContent className="max-h-[300px]">
+                                            <SelectItem value="custom_new" className="text-primary font-medium focus:bg-primary/10 cursor-pointer">
+                                                <div className="flex items-center gap-2">
+                                                    <Plus className="w-4 h-4" />
+                                                    Create custom activity...
                                                 </div>
-                                                {group.items.map((item) => {
-                                                    // Hide if user already has this activity
-                                                    if (activities?.some((a) => a.name === item)) return null;
-                                                    return (
-                                                        <SelectItem key={item} value={`preset:${item}`}>
-                                                            {item}
+                                            </SelectItem>
+
+                                            {selectableActivities.length > 0 && (
+                                                <>
+                                                    <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground mt-2">
+                                                        Your Activities
+                                                    </div>
+                                                    {selectableActivities.map((activity) => (
+                                                        <SelectItem key={activity.id} value={activity.id}>
+                                                            {activity.name}
                                                         </SelectItem>
-                                                    );
-                                                })}
-                                            </div>
-                                        ))}
-                                    </SelectContent>
-                                </Select>
+                                                    ))}
+                                                </>
+                                            )}
+
+                                            {PRESET_ACTIVITIES.map((group) => (
+                                                <div key={group.category}>
+                                                    <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground mt-2 border-t border-border">
+                                                        {group.category}
+                                                    </div>
+                                                    {group.items.map((item) => {
+                                                        // Hide if user already has this activity
+                                                        if (activities?.some((a) => a.name === item)) return null;
+                                                        return (
+                                                            <SelectItem key={item} value={`preset:${item}`}>
+                                                                {item}
+                                                            </SelectItem>
+                                                        );
+                                                    })}
+                                                </div>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    {selectedActivityId && (
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            className="shrink-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                                            onClick={() => {
+                                                deleteActivity.mutate(selectedActivityId);
+                                                setSelectedActivityId("");
+                                            }}
+                                            aria-label="Delete activity"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </Button>
+                                    )}
+                                </div>
                             )}
                         </div>
 
@@ -416,6 +511,10 @@ export function DailyTrackerPage() {
                                 <TodayLogRow
                                     key={log.id}
                                     log={log}
+                                    color={getActivityColor({
+                                        id: log.activityId,
+                                        color: activityById.get(log.activityId)?.color,
+                                    })}
                                     onDelete={() =>
                                         deleteDailyLog.mutate({ logId: log.id, date: log.date })
                                     }
@@ -500,7 +599,9 @@ export function DailyTrackerPage() {
                         </Card>
                         <Card className="border border-border shadow-none">
                             <CardContent className="p-4">
-                                <p className="text-sm text-muted-foreground">Current streak</p>
+                                <p className="text-sm text-muted-foreground">
+                                    {targetedActivities.length > 0 ? "Target met streak" : "Current streak"}
+                                </p>
                                 <p className="text-2xl font-semibold text-foreground">
                                     {streakCount} days
                                 </p>
@@ -534,11 +635,20 @@ export function DailyTrackerPage() {
                                                     color: "var(--color-card-foreground)",
                                                 }}
                                             />
-                                            <Bar
-                                                dataKey="totalMinutes"
-                                                fill="var(--color-primary)"
-                                                radius={[6, 6, 0, 0]}
-                                            />
+                                            {chartSeries.map((series, index) => (
+                                                <Bar
+                                                    key={series.id}
+                                                    dataKey={series.id}
+                                                    name={series.name}
+                                                    stackId="minutes"
+                                                    fill={series.color}
+                                                    radius={
+                                                        index === chartSeries.length - 1
+                                                            ? [6, 6, 0, 0]
+                                                            : [0, 0, 0, 0]
+                                                    }
+                                                />
+                                            ))}
                                         </BarChart>
                                     </ResponsiveContainer>
                                 </div>
@@ -561,12 +671,16 @@ export function DailyTrackerPage() {
                                         <div className="h-2 rounded-full bg-muted">
                                             <div
                                                 className={cn(
-                                                    "h-2 rounded-full bg-primary transition-all"
+                                                    "h-2 rounded-full transition-all",
+                                                    !reportActivity && "bg-primary"
                                                 )}
                                                 style={{
                                                     width: totalMinutes
                                                         ? `${(value / totalMinutes) * 100}%`
                                                         : "0%",
+                                                    backgroundColor: reportActivity
+                                                        ? getActivityColor(reportActivity)
+                                                        : undefined,
                                                 }}
                                             />
                                         </div>
@@ -577,16 +691,20 @@ export function DailyTrackerPage() {
                     </div>
                 </CardContent>
             </Card>
+
+            <LogCsvCard month={month} activities={activities ?? []} />
         </div>
     );
 }
 
 function TodayLogRow({
     log,
+    color,
     onDelete,
     onUpdate,
 }: {
     log: DailyLog;
+    color: string;
     onDelete: () => void;
     onUpdate: (updates: Partial<Pick<DailyLog, "durationMinutes" | "notes">>) => void;
 }) {
@@ -615,7 +733,10 @@ function TodayLogRow({
     return (
         <div className="flex flex-col gap-3 rounded-xl border border-border bg-card/60 p-4 sm:flex-row sm:items-center">
             <div className="flex-1 space-y-2">
-                <p className="text-sm font-medium text-foreground">{log.activityName}</p>
+                <p className="flex items-center gap-2 text-sm font-medium text-foreground">
+                    <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: color }} />
+                    {log.activityName}
+                </p>
                 <div className="flex flex-wrap gap-3">
                     <Input
                         type="number"
@@ -10,11 +10,19 @@ import {
     ResponsiveContainer,
     Tooltip,
 } from "recharts";
-import { Target, CheckSquare, TrendingUp, Trophy } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { useNavigate } from "react-router-dom";
+import { Target, CheckSquare, TrendingUp, Trophy, CalendarClock } from "lucide-react";
 import { useGoals } from "@/hooks/useGoals";
-import { useTodos } from "@/hooks/useTodos";
+import { useDueTodos, useTodoCounts, useTodos } from "@/hooks/useTodos";
 import { Card, CardContent, CardHeader, CardTitle, Skeleton } from "@/components/ui";
-import { buildGoalProgressMap } from "@/lib/goalProgress";
+import { useGoalProgress } from "@/hooks/useGoalProgress";
+import { useArchiveCounts } from "@/hooks/useArchive";
+import { countOverdue, toDateKey } from "@/lib/dueDates";
+import { buildGoalForecastMap } from "@/lib/goalForecast";
+import { ForecastBadge } from "@/components/goals/ForecastBadge";
+import { BurnUpCard } from "@/components/dashboard/BurnUpCard";
+import { PomodoroCard } from "@/components/dashboard/PomodoroCard";
 
 const CHART_COLORS = {
     notStarted: "#94a3b8",
@@ -24,47 +32,57 @@ const CHART_COLORS = {
 
 export function DashboardPage() {
     const { data: goals, isLoading: goalsLoading } = useGoals();
-    const { data: todos, isLoading: todosLoading } = useTodos();
+    const { data: todos } = useTodos();
+    const { data: todoCounts, isLoading: todosLoading } = useTodoCounts();
+    const { data: dueTodos } = useDueTodos();
 
-    const goalProgressMap = useMemo(() => {
-        if (!goals || !todos) return {};
-        return buildGoalProgressMap(goals, todos);
-    }, [goals, todos]);
+    const { data: archiveCounts } = useArchiveCounts();
+
+    const { progressMap: goalProgressMap } = useGoalProgress();
+    const navigate = useNavigate();
 
     // Calculate stats
     const stats = useMemo(() => {
-        if (!goals || !todos) return null;
+        if (!goals || !todoCounts) return null;
 
-        const progressValues = goals.map(
-            (goal) => goalProgressMap[goal.id]?.percent ?? 0
-        );
+        // Archived items are completed and no longer loaded, but still count in the totals
+        const archivedGoals = archiveCounts?.goals ?? 0;
+        const archivedTodos = archiveCounts?.todos ?? 0;
+
+        const progressValues = [
+            ...goals.map((goal) => goalProgressMap[goal.id]?.percent ?? 0),
+            ...Array<number>(archivedGoals).fill(100),
+        ];
         const notStarted = progressValues.filter((percent) => percent === 0).length;
         const inProgress = progressValues.filter(
             (percent) => percent > 0 && percent < 100
         ).length;
         const completed = progressValues.filter((percent) => percent === 100).length;
 
-        const pendingTodos = todos.filter((t) => !t.isDone).length;
-        const completedTodos = todos.filter((t) => t.isDone).length;
+        // Counted on the server, so todos beyond the loaded pages are included
+        const pendingTodos = todoCounts.total - todoCounts.done;
+        const completedTodos = todoCounts.done + archivedTodos;
+        const overdueTodos = countOverdue(dueTodos ?? [], toDateKey(new Date()));
 
         const avgProgress =
-            goals.length > 0
+            progressValues.length > 0
                 ? Math.round(
-                    progressValues.reduce((sum, percent) => sum + percent, 0) / goals.length
+                    progressValues.reduce((sum, percent) => sum + percent, 0) / progressValues.length
                 )
                 : 0;
 
         return {
-            totalGoals: goals.length,
+            totalGoals: progressValues.length,
             notStarted,
             inProgress,
             completed,
-            totalTodos: todos.length,
+            totalTodos: todoCounts.total + archivedTodos,
             pendingTodos,
             completedTodos,
+            overdueTodos,
             avgProgress,
         };
-    }, [goals, todos, goalProgressMap]);
+    }, [goals, todoCounts, dueTodos, goalProgressMap, archiveCounts]);
 
     // Pie chart data
     const pieData = useMemo(() => {
@@ -87,11 +105,27 @@ export function DashboardPage() {
             )
             .slice(0, 5)
             .map((g) => ({
+                id: g.id,
                 name: g.title.length > 15 ? g.title.substring(0, 15) + "..." : g.title,
                 progress: goalProgressMap[g.id]?.percent ?? 0,
             }));
     }, [goals, goalProgressMap]);
 
+    // Forecast widget: goals with a target date, soonest first
+    const forecastData = useMemo(() => {
+        if (!goals || !todos) return [];
+        const forecastMap = buildGoalForecastMap(
+            goals,
+            todos,
+            goalProgressMap,
+            toDateKey(new Date())
+        );
+        return goals
+            .filter((goal) => goal.targetDate)
+            .sort((a, b) => a.targetDate!.localeCompare(b.targetDate!))
+            .map((goal) => ({ goal, forecast: forecastMap[goal.id] }));
+    }, [goals, todos, goalProgressMap]);
+
     const isLoading = goalsLoading || todosLoading;
 
     if (isLoading) {
@@ -106,7 +140,8 @@ export function DashboardPage() {
                         <Skeleton key={i} className="h-32" />
                     ))}
                 </div>
-                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
+                    <Skeleton className="h-80" />
                     <Skeleton className="h-80" />
                     <Skeleton className="h-80" />
                 </div>
@@ -152,6 +187,11 @@ export function DashboardPage() {
                                 <p className="text-3xl font-bold text-foreground mt-1">
                                     {stats?.pendingTodos || 0}
                                 </p>
+                                {!!stats?.overdueTodos && (
+                                    <p className="text-xs font-medium text-destructive mt-1">
+                                        {stats.overdueTodos} overdue
+                                    </p>
+                                )}
                             </div>
                             <div className="w-12 h-12 rounded-xl bg-secondary/10 flex items-center justify-center">
                                 <CheckSquare className="w-6 h-6 text-secondary" />
@@ -196,7 +236,7 @@ export function DashboardPage() {
             </div>
 
             {/* Charts */}
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
                 {/* Pie Chart */}
                 <Card>
                     <CardHeader>
@@ -287,6 +327,8 @@ export function DashboardPage() {
                                             dataKey="progress"
                                             fill="url(#barGradient)"
                                             radius={[0, 4, 4, 0]}
+                                            cursor="pointer"
+                                            onClick={(_, index) => navigate(`/goals/${barData[index].id}`)}
                                         />
                                         <defs>
                                             <linearGradient id="barGradient" x1="0" y1="0" x2="1" y2="0">
@@ -308,6 +350,51 @@ export function DashboardPage() {
                         )}
                     </CardContent>
                 </Card>
+
+                {/* Forecast */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Goal Forecast</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        {forecastData.length > 0 ? (
+                            <div className="h-64 overflow-y-auto space-y-3 pr-1">
+                                {forecastData.map(({ goal, forecast }) => (
+                                    <div
+                                        key={goal.id}
+                                        className="rounded-lg border border-border p-3 space-y-1"
+                                    >
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span className="text-sm font-medium text-foreground truncate">
+                                                {goal.title}
+                                            </span>
+                                            <ForecastBadge status={forecast?.status ?? null} />
+                                        </div>
+                                        <p className="text-xs text-muted-foreground">
+                                            Target {format(parseISO(goal.targetDate!), "MMM d")}
+                                            {forecast?.predictedFinish
+                                                ? ` · Predicted ${format(parseISO(forecast.predictedFinish), "MMM d")}`
+                                                : ""}
+                                        </p>
+                                    </div>
+                                ))}
+                            </div>
+                        ) : (
+                            <div className="h-64 flex items-center justify-center text-muted-foreground">
+                                <div className="text-center">
+                                    <CalendarClock className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                                    <p>Set a target date on a goal to see its forecast.</p>
+                                </div>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+
+                {/* Progress history */}
+                {goals && goals.length > 0 && <BurnUpCard goals={goals} />}
+
+                {/* Focus mode */}
+                <PomodoroCard />
             </div>
         </div>
     );
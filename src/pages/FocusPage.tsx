@@ -0,0 +1,221 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, CheckCircle2, Pause, Play, Settings2, SkipForward, Square } from "lucide-react";
+import {
+    Button,
+    Card,
+    CardContent,
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    Label,
+    Progress,
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui";
+import { FocusSettings } from "@/components/settings/FocusSettings";
+import { useActivities } from "@/hooks/useDailyTracker";
+import { useFocusSession } from "@/hooks/usePomodoro";
+import { useTodos } from "@/hooks/useTodos";
+import { getSelectableActivities } from "@/lib/activities";
+import { FOCUS_PHASE_LABELS } from "@/lib/pomodoro";
+import { formatElapsed } from "@/lib/timer";
+import { cn } from "@/lib/utils";
+
+// Select value for running without a todo (Radix selects cannot use "")
+const NO_TODO = "none";
+
+// Full-screen pomodoro view: pick an activity and optionally a todo, then work through
+// work/break cycles until the session is ended
+export function FocusPage() {
+    const { data: activities } = useActivities();
+    const { data: todos } = useTodos();
+    const focus = useFocusSession();
+    const { session, settings, remainingMs } = focus;
+    const [activityId, setActivityId] = useState("");
+    const [todoId, setTodoId] = useState(NO_TODO);
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+    const activity = activities?.find((item) => item.id === activityId);
+    const todo = todos?.find((item) => item.id === todoId);
+    const openTodos = (todos ?? []).filter((item) => !item.isDone);
+    const phaseMs = session ? session.phaseMinutes * 60_000 : 0;
+    const countdown = formatElapsed(remainingMs);
+
+    useEffect(() => {
+        if (!session) return;
+        const previousTitle = document.title;
+        document.title = `${countdown} · ${FOCUS_PHASE_LABELS[session.phase]}`;
+        return () => {
+            document.title = previousTitle;
+        };
+    }, [session, countdown]);
+
+    const handleStart = () => {
+        if (!activity) return;
+        focus.start({
+            activityId: activity.id,
+            activityName: activity.name,
+            ...(todo ? { todoId: todo.id, todoTitle: todo.title } : {}),
+        });
+    };
+
+    return (
+        <div className="min-h-screen bg-background flex flex-col">
+            <div className="flex items-center justify-between p-6">
+                <Link
+                    to="/daily"
+                    className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-primary"
+                >
+                    <ArrowLeft className="w-4 h-4" />
+                    Daily Tracker
+                </Link>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setIsSettingsOpen(true)}
+                    aria-label="Focus settings"
+                >
+                    <Settings2 className="w-4 h-4" />
+                </Button>
+            </div>
+
+            <div className="flex flex-1 items-center justify-center p-6">
+                {session ? (
+                    <div className="w-full max-w-xl space-y-8 text-center">
+                        <div className="space-y-2">
+                            <p
+                                className={cn(
+                                    "text-sm font-semibold uppercase tracking-wider",
+                                    session.phase === "work" ? "text-primary" : "text-emerald-500"
+                                )}
+                            >
+                                {FOCUS_PHASE_LABELS[session.phase]}
+                                {session.endsAt === null && " · paused"}
+                            </p>
+                            <p className="text-7xl sm:text-8xl font-bold tabular-nums text-foreground">
+                                {countdown}
+                            </p>
+                            <p className="text-muted-foreground">
+                                {session.activityName}
+                                {session.todoTitle && ` · ${session.todoTitle}`}
+                            </p>
+                        </div>
+
+                        <Progress value={phaseMs > 0 ? ((phaseMs - remainingMs) / phaseMs) * 100 : 0} />
+
+                        <p className="text-sm text-muted-foreground">
+                            {session.completedWork} pomodoro{session.completedWork === 1 ? "" : "s"} this
+                            session · long break every {settings.longBreakEvery}
+                        </p>
+
+                        <div className="flex flex-wrap justify-center gap-2">
+                            {session.endsAt === null ? (
+                                <Button size="lg" onClick={focus.resume}>
+                                    <Play className="w-4 h-4" />
+                                    Resume
+                                </Button>
+                            ) : (
+                                <Button size="lg" onClick={focus.pause}>
+                                    <Pause className="w-4 h-4" />
+                                    Pause
+                                </Button>
+                            )}
+                            <Button size="lg" variant="outline" onClick={focus.skip}>
+                                <SkipForward className="w-4 h-4" />
+                                {session.phase === "work" ? "Skip to break" : "Skip break"}
+                            </Button>
+                            <Button size="lg" variant="ghost" onClick={() => focus.end({ completeTodo: false })}>
+                                <Square className="w-4 h-4" />
+                                End session
+                            </Button>
+                            {session.todoId && (
+                                <Button
+                                    size="lg"
+                                    variant="ghost"
+                                    onClick={() => focus.end({ completeTodo: true })}
+                                >
+                                    <CheckCircle2 className="w-4 h-4" />
+                                    End and mark todo done
+                                </Button>
+                            )}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                            Finished work intervals are logged to the Daily Tracker. Skipped ones are not.
+                        </p>
+                    </div>
+                ) : (
+                    <Card className="w-full max-w-md">
+                        <CardContent className="p-6 space-y-4">
+                            <div>
+                                <h1 className="text-2xl font-bold text-foreground">Focus mode</h1>
+                                <p className="text-sm text-muted-foreground">
+                                    {settings.workMinutes} min work, {settings.shortBreakMinutes} min
+                                    breaks, a {settings.longBreakMinutes} min break every{" "}
+                                    {settings.longBreakEvery} intervals
+                                </p>
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="focus-activity">Activity</Label>
+                                <Select value={activityId} onValueChange={setActivityId}>
+                                    <SelectTrigger id="focus-activity">
+                                        <SelectValue placeholder="Log the time on..." />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {getSelectableActivities(activities ?? []).map((item) => (
+                                            <SelectItem key={item.id} value={item.id}>
+                                                {item.name}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                {activities?.length === 0 && (
+                                    <p className="text-xs text-muted-foreground">
+                                        Create an activity in the Daily Tracker first.
+                                    </p>
+                                )}
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="focus-todo">Todo</Label>
+                                <Select value={todoId} onValueChange={setTodoId}>
+                                    <SelectTrigger id="focus-todo">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={NO_TODO}>No todo</SelectItem>
+                                        {openTodos.map((item) => (
+                                            <SelectItem key={item.id} value={item.id}>
+                                                {item.title}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <Button className="w-full" size="lg" onClick={handleStart} disabled={!activity}>
+                                <Play className="w-4 h-4" />
+                                Start focusing
+                            </Button>
+                        </CardContent>
+                    </Card>
+                )}
+            </div>
+
+            <Dialog open={isSettingsOpen} onOpenChange={setIsSettingsOpen}>
+                <DialogContent className="sm:max-w-[500px]">
+                    <DialogHeader>
+                        <DialogTitle>Focus settings</DialogTitle>
+                        <DialogDescription>
+                            New lengths apply from the next work interval or break.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <FocusSettings />
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
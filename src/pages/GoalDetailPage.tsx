@@ -0,0 +1,384 @@
+import { useMemo, useState, type FormEvent } from "react";
+import { Link, useParams } from "react-router-dom";
+import {
+    LineChart,
+    Line,
+    XAxis,
+    YAxis,
+    ResponsiveContainer,
+    Tooltip,
+} from "recharts";
+import { format, parseISO } from "date-fns";
+import {
+    ArrowLeft,
+    CalendarClock,
+    CheckCircle2,
+    Circle,
+    History,
+    Link as LinkIcon,
+    Plus,
+    RotateCcw,
+    Trash2,
+    TrendingUp,
+    Unlink,
+} from "lucide-react";
+import { useGoals, useGoalEvents, useUpdateGoal } from "@/hooks/useGoals";
+import { useTodos, useGoalTodos, useAddTodo, useToggleTodo, useDeleteTodo } from "@/hooks/useTodos";
+import { useGoalProgress } from "@/hooks/useGoalProgress";
+import { ForecastBadge } from "@/components/goals/ForecastBadge";
+import {
+    Button,
+    Card,
+    CardContent,
+    CardHeader,
+    CardTitle,
+    Input,
+    Label,
+    Progress,
+    Skeleton,
+} from "@/components/ui";
+import { cn } from "@/lib/utils";
+import { getDueStatus, toDateKey } from "@/lib/dueDates";
+import { buildGoalForecastMap } from "@/lib/goalForecast";
+import { buildProgressHistory } from "@/lib/progressHistory";
+import type { GoalEventType } from "@/types";
+
+const EVENT_LABELS: Record<GoalEventType, { label: string; icon: typeof Plus; className: string }> = {
+    todo_created: { label: "Todo added", icon: Plus, className: "text-primary" },
+    todo_completed: { label: "Todo completed", icon: CheckCircle2, className: "text-success" },
+    todo_reopened: { label: "Todo reopened", icon: RotateCcw, className: "text-muted-foreground" },
+    todo_deleted: { label: "Todo deleted", icon: Trash2, className: "text-destructive" },
+    todo_linked: { label: "Todo linked", icon: LinkIcon, className: "text-primary" },
+    todo_unlinked: { label: "Todo unlinked", icon: Unlink, className: "text-muted-foreground" },
+};
+
+export function GoalDetailPage() {
+    const { goalId } = useParams<{ goalId: string }>();
+    const [newTodoTitle, setNewTodoTitle] = useState("");
+
+    const { data: goals, isLoading: goalsLoading } = useGoals();
+    const { data: todos } = useTodos();
+    const { data: goalTodos = [], isLoading: todosLoading } = useGoalTodos(goalId);
+    const { data: events, isLoading: eventsLoading } = useGoalEvents(goalId);
+    const { progressMap } = useGoalProgress();
+    const updateGoal = useUpdateGoal();
+    const addTodo = useAddTodo();
+    const toggleTodo = useToggleTodo();
+    const deleteTodo = useDeleteTodo();
+
+    const goal = goals?.find((g) => g.id === goalId);
+    const todayKey = toDateKey(new Date());
+
+    // All of this goal's todos, plus whatever sub-goal todos the list has loaded
+    const forecast = useMemo(() => {
+        if (!goal || !goals) return undefined;
+        const goalTodoIds = new Set(goalTodos.map((todo) => todo.id));
+        const forecastTodos = [
+            ...goalTodos,
+            ...(todos ?? []).filter((todo) => !goalTodoIds.has(todo.id)),
+        ];
+        return buildGoalForecastMap(goals, forecastTodos, progressMap, todayKey)[goal.id];
+    }, [goal, goals, goalTodos, todos, progressMap, todayKey]);
+
+    // Reconstructed history only exists for goals driven by their todos
+    const historyData = useMemo(() => {
+        if (!goal || (goal.progressMode ?? "todos") !== "todos") return [];
+        return buildProgressHistory(goal, goalTodos, new Date()).map((point) => ({
+            ...point,
+            label: format(parseISO(point.date), "MMM d"),
+        }));
+    }, [goal, goalTodos]);
+
+    const handleAddTodo = (e: FormEvent) => {
+        e.preventDefault();
+        const title = newTodoTitle.trim();
+        if (!title || !goalId) return;
+        addTodo.mutate({ title, goalId });
+        setNewTodoTitle("");
+    };
+
+    if (goalsLoading || todosLoading) {
+        return (
+            <div className="space-y-6">
+                <Skeleton className="h-5 w-24" />
+                <Skeleton className="h-10 w-64" />
+                <Skeleton className="h-32" />
+                <div className="grid gap-6 lg:grid-cols-2">
+                    <Skeleton className="h-72" />
+                    <Skeleton className="h-72" />
+                </div>
+            </div>
+        );
+    }
+
+    if (!goal) {
+        return (
+            <div className="space-y-6">
+                <BackLink />
+                <Card>
+                    <CardContent className="p-12 text-center">
+                        <h3 className="text-lg font-medium text-foreground mb-2">Goal not found</h3>
+                        <p className="text-muted-foreground">
+                            It may have been deleted. Head back to your goals to pick another one.
+                        </p>
+                    </CardContent>
+                </Card>
+            </div>
+        );
+    }
+
+    const progress = progressMap[goal.id] ?? { total: 0, done: 0, percent: 0 };
+
+    return (
+        <div className="space-y-8">
+            {/* Header */}
+            <div className="space-y-2">
+                <BackLink />
+                <h1 className="text-3xl font-bold text-foreground">{goal.title}</h1>
+                <div className="flex flex-wrap items-center gap-1.5">
+                    <ForecastBadge status={forecast?.status ?? null} />
+                </div>
+            </div>
+
+            {/* Progress + target date */}
+            <Card>
+                <CardContent className="p-6 space-y-4">
+                    <div className="flex items-center justify-between">
+                        <span className="text-sm text-muted-foreground">Progress</span>
+                        <span
+                            className={cn(
+                                "text-lg font-bold",
+                                progress.percent === 100 ? "text-success" : "text-primary"
+                            )}
+                        >
+                            {progress.percent}%
+                        </span>
+                    </div>
+                    <Progress value={progress.percent} />
+                    <div className="flex flex-wrap items-end justify-between gap-4">
+                        <p className="text-xs text-muted-foreground">
+                            {progress.done}/{progress.total} todos completed
+                        </p>
+                        <div className="flex flex-wrap items-end gap-4">
+                            {forecast?.predictedFinish && (
+                                <p className="text-xs text-muted-foreground">
+                                    Predicted finish{" "}
+                                    {format(parseISO(forecast.predictedFinish), "MMM d, yyyy")}
+                                </p>
+                            )}
+                            <div className="space-y-1">
+                                <Label htmlFor="goal-target-date" className="text-xs">
+                                    Target date
+                                </Label>
+                                <Input
+                                    id="goal-target-date"
+                                    type="date"
+                                    className="w-40"
+                                    value={goal.targetDate ?? ""}
+                                    onChange={(e) =>
+                                        updateGoal.mutate({
+                                            goalId: goal.id,
+                                            updates: { targetDate: e.target.value || undefined },
+                                        })
+                                    }
+                                />
+                            </div>
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+                {/* Linked todos */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Todos</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <form onSubmit={handleAddTodo} className="flex gap-2">
+                            <Input
+                                placeholder="Add a todo to this goal..."
+                                value={newTodoTitle}
+                                onChange={(e) => setNewTodoTitle(e.target.value)}
+                                maxLength={200}
+                            />
+                            <Button type="submit" disabled={!newTodoTitle.trim() || addTodo.isPending}>
+                                <Plus className="w-4 h-4" />
+                            </Button>
+                        </form>
+
+                        {goalTodos.length > 0 ? (
+                            <div className="space-y-2">
+                                {goalTodos.map((todo) => {
+                                    const dueStatus = getDueStatus(todo, todayKey);
+                                    return (
+                                        <div
+                                            key={todo.id}
+                                            className={cn(
+                                                "group flex items-center gap-3 p-3 rounded-xl border border-border bg-card",
+                                                todo.isDone && "bg-muted/50"
+                                            )}
+                                        >
+                                            <button
+                                                type="button"
+                                                onClick={() =>
+                                                    toggleTodo.mutate({ todoId: todo.id, isDone: !todo.isDone })
+                                                }
+                                                aria-label={todo.isDone ? "Mark as pending" : "Mark as done"}
+                                                className="shrink-0"
+                                            >
+                                                {todo.isDone ? (
+                                                    <CheckCircle2 className="w-5 h-5 text-success" />
+                                                ) : (
+                                                    <Circle className="w-5 h-5 text-muted-foreground hover:text-primary" />
+                                                )}
+                                            </button>
+                                            <div className="flex-1 min-w-0">
+                                                <p
+                                                    className={cn(
+                                                        "text-sm text-foreground truncate",
+                                                        todo.isDone && "line-through text-muted-foreground"
+                                                    )}
+                                                >
+                                                    {todo.title}
+                                                </p>
+                                                {todo.dueDate && (
+                                                    <p
+                                                        className={cn(
+                                                            "flex items-center gap-1 text-xs",
+                                                            dueStatus === "overdue"
+                                                                ? "text-destructive"
+                                                                : "text-muted-foreground"
+                                                        )}
+                                                    >
+                                                        <CalendarClock className="w-3 h-3" />
+                                                        {format(parseISO(todo.dueDate), "MMM d")}
+                                                    </p>
+                                                )}
+                                            </div>
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                                                onClick={() => deleteTodo.mutate(todo.id)}
+                                                disabled={deleteTodo.isPending && deleteTodo.variables === todo.id}
+                                                aria-label="Delete todo"
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </Button>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        ) : (
+                            <p className="py-8 text-center text-sm text-muted-foreground">
+                                No todos linked to this goal yet.
+                            </p>
+                        )}
+                    </CardContent>
+                </Card>
+
+                {/* Progress over time */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Progress Over Time</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        {historyData.length > 1 ? (
+                            <div className="h-64">
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <LineChart data={historyData}>
+                                        <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
+                                        <YAxis domain={[0, 100]} width={36} tick={{ fontSize: 12 }} />
+                                        <Tooltip
+                                            contentStyle={{
+                                                backgroundColor: "var(--color-card)",
+                                                border: "1px solid var(--color-border)",
+                                                borderRadius: "8px",
+                                                color: "var(--color-card-foreground)",
+                                            }}
+                                            itemStyle={{ color: "var(--color-card-foreground)" }}
+                                            formatter={(value) => [`${value}%`, "Progress"]}
+                                        />
+                                        <Line
+                                            type="stepAfter"
+                                            dataKey="percent"
+                                            stroke="#8b5cf6"
+                                            strokeWidth={2}
+                                            dot={false}
+                                        />
+                                    </LineChart>
+                                </ResponsiveContainer>
+                            </div>
+                        ) : (
+                            <div className="h-64 flex items-center justify-center text-muted-foreground">
+                                <div className="text-center">
+                                    <TrendingUp className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                                    <p>
+                                        {(goal.progressMode ?? "todos") === "todos"
+                                            ? "Check back tomorrow to see your progress trend."
+                                            : "Progress history is only available for goals tracked by todos."}
+                                    </p>
+                                </div>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+
+            {/* Timeline */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Timeline</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    {eventsLoading ? (
+                        <div className="space-y-3">
+                            {[1, 2, 3].map((i) => (
+                                <Skeleton key={i} className="h-10" />
+                            ))}
+                        </div>
+                    ) : events && events.length > 0 ? (
+                        <ol className="relative space-y-4 border-l border-border pl-6">
+                            {events.map((event) => {
+                                const { label, icon: Icon, className } = EVENT_LABELS[event.type];
+                                return (
+                                    <li key={event.id} className="relative">
+                                        <span className="absolute -left-[35px] flex h-6 w-6 items-center justify-center rounded-full border border-border bg-card">
+                                            <Icon className={cn("w-3 h-3", className)} />
+                                        </span>
+                                        <p className="text-sm text-foreground">
+                                            {label}: <span className="font-medium">{event.todoTitle}</span>
+                                        </p>
+                                        {event.createdAt && (
+                                            <p className="text-xs text-muted-foreground">
+                                                {format(event.createdAt.toDate(), "MMM d, yyyy · h:mm a")}
+                                            </p>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ol>
+                    ) : (
+                        <div className="py-8 text-center text-muted-foreground">
+                            <History className="w-10 h-10 mx-auto mb-3 opacity-50" />
+                            <p>Activity on this goal's todos will show up here.</p>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
+
+function BackLink() {
+    return (
+        <Link
+            to="/goals"
+            className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+        >
+            <ArrowLeft className="w-4 h-4" />
+            All goals
+        </Link>
+    );
+}
@@ -1,14 +1,43 @@
-import { useMemo, useState } from "react";
+import { useMemo, useState, type ReactNode } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Plus, Trash2, Target, Sparkles } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { Link } from "react-router-dom";
+import {
+    Plus,
+    Trash2,
+    Target,
+    Sparkles,
+    Repeat,
+    Settings2,
+    CalendarClock,
+    Flag,
+    Check,
+    ChevronDown,
+    ChevronRight,
+    ListTree,
+    GripVertical,
+    ArrowDownUp,
+    Archive,
+} from "lucide-react";
 import {
     useGoals,
     useAddGoal,
+    useUpdateGoal,
     useDeleteGoal,
+    useReorderGoals,
 } from "@/hooks/useGoals";
-import { useTodos } from "@/hooks/useTodos";
+import { useGoalTodos, useLinkedTodos, useTodos } from "@/hooks/useTodos";
+import { useArchiveGoal } from "@/hooks/useArchive";
+import { useGoalProgress } from "@/hooks/useGoalProgress";
+import { useActivities } from "@/hooks/useDailyTracker";
+import { useSortableList } from "@/hooks/useSortableList";
+import { usePendingSyncIds } from "@/hooks/useOfflineQueue";
+import { GoalSettingsDialog } from "@/components/goals/GoalSettingsDialog";
+import { ForecastBadge } from "@/components/goals/ForecastBadge";
+import { DeleteGoalDialog } from "@/components/goals/DeleteGoalDialog";
+import { PendingSyncBadge } from "@/components/sync/PendingSyncBadge";
 import {
     Button,
     Card,
@@ -22,10 +51,20 @@ import {
     DialogTrigger,
     DialogFooter,
     DialogClose,
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
     Skeleton,
 } from "@/components/ui";
 import { cn } from "@/lib/utils";
-import { buildGoalProgressMap } from "@/lib/goalProgress";
+import { toDateKey } from "@/lib/dueDates";
+import { CURRENT_PERIOD_LABELS, formatTargetMinutes } from "@/lib/activityTargets";
+import { buildGoalForecastMap, getMilestoneProgress } from "@/lib/goalForecast";
+import { buildGoalTree, type GoalTreeNode } from "@/lib/goalTree";
+import { GOAL_SORT_LABELS, getMoveUpdates, sortGoals, type GoalSortMode } from "@/lib/sortKeys";
+import type { Goal, RecurringProgressMode } from "@/types";
 
 const goalSchema = z.object({
     title: z.string().min(1, "Title is required").max(100, "Title is too long"),
@@ -33,17 +72,131 @@ const goalSchema = z.object({
 
 type GoalForm = z.infer<typeof goalSchema>;
 
+const NO_PARENT = "none";
+const SORT_STORAGE_KEY = "goals-todo-goal-sort";
+
 export function GoalsPage() {
     const [isOpen, setIsOpen] = useState(false);
+    const [settingsGoalId, setSettingsGoalId] = useState<string | null>(null);
+    const [deletingGoalId, setDeletingGoalId] = useState<string | null>(null);
+    const [newGoalParentId, setNewGoalParentId] = useState(NO_PARENT);
+    const [collapsedGoalIds, setCollapsedGoalIds] = useState<Set<string>>(new Set());
+    const [sortMode, setSortMode] = useState<GoalSortMode>(
+        () => (localStorage.getItem(SORT_STORAGE_KEY) as GoalSortMode) || "manual"
+    );
     const { data: goals, isLoading: goalsLoading } = useGoals();
     const { data: todos, isLoading: todosLoading } = useTodos();
     const addGoal = useAddGoal();
+    const updateGoal = useUpdateGoal();
     const deleteGoal = useDeleteGoal();
+    const archiveGoal = useArchiveGoal();
+    const reorderGoals = useReorderGoals();
+
+    const handleSortModeChange = (mode: GoalSortMode) => {
+        setSortMode(mode);
+        localStorage.setItem(SORT_STORAGE_KEY, mode);
+    };
+
+    // Goals are reordered among their siblings only
+    const { getItemProps, getHandleProps } = useSortableList((goalId, toIndex, ids) => {
+        if (!goals) return;
+        const updates = getMoveUpdates(goals, ids, goalId, toIndex);
+        if (updates.length > 0) reorderGoals.mutate(updates);
+    });
+    const isManualSort = sortMode === "manual";
+
+    const { progressMap, trackedMinutes, targetProgress } = useGoalProgress();
+    const { data: activities } = useActivities();
+    const pendingSyncIds = usePendingSyncIds();
+    const settingsGoal = goals?.find((goal) => goal.id === settingsGoalId);
+    const deletingGoal = goals?.find((goal) => goal.id === deletingGoalId);
+    const todayKey = toDateKey(new Date());
 
-    const progressMap = useMemo(() => {
+    const forecastMap = useMemo(() => {
         if (!goals || !todos) return {};
-        return buildGoalProgressMap(goals, todos);
-    }, [goals, todos]);
+        return buildGoalForecastMap(goals, todos, progressMap, todayKey);
+    }, [goals, todos, progressMap, todayKey]);
+
+    const goalTree = useMemo(
+        () => buildGoalTree(sortGoals(goals ?? [], sortMode)),
+        [goals, sortMode]
+    );
+
+    const toggleCollapsed = (goalId: string) => {
+        setCollapsedGoalIds((prev) => {
+            const next = new Set(prev);
+            if (next.has(goalId)) {
+                next.delete(goalId);
+            } else {
+                next.add(goalId);
+            }
+            return next;
+        });
+    };
+
+    const openNewGoalDialog = (parentGoalId: string) => {
+        setNewGoalParentId(parentGoalId);
+        setIsOpen(true);
+    };
+
+    // Milestones track specific todos, which may not be among the loaded pages
+    const milestoneGoalIds = useMemo(
+        () => (goals ?? []).filter((goal) => goal.milestones?.length).map((goal) => goal.id),
+        [goals]
+    );
+    const linkedTodos = useLinkedTodos(milestoneGoalIds);
+    const todosById = useMemo(
+        () => new Map([...(todos ?? []), ...linkedTodos].map((todo) => [todo.id, todo])),
+        [todos, linkedTodos]
+    );
+    const { data: deletingGoalTodos } = useGoalTodos(deletingGoal?.id);
+
+    const activityNameMap = useMemo(() => {
+        if (!activities) return {};
+        return activities.reduce<Record<string, string>>((acc, activity) => {
+            acc[activity.id] = activity.name;
+            return acc;
+        }, {});
+    }, [activities]);
+
+    const getProgressSource = (goal: Goal) => {
+        if (goal.progressMode === "manual") return "Progress set manually";
+        if (goal.progressMode === "time") {
+            const activityName = goal.trackedActivityId
+                ? activityNameMap[goal.trackedActivityId]
+                : undefined;
+            return `Progress from time logged on ${activityName ?? "an activity"}`;
+        }
+        if (goal.progressMode === "activityTarget") {
+            const activityName = goal.trackedActivityId
+                ? activityNameMap[goal.trackedActivityId]
+                : undefined;
+            return `Progress toward the ${activityName ?? "activity"} target`;
+        }
+        return "Progress updates from linked todos";
+    };
+
+    const getProgressDetail = (goal: Goal, progress: { done: number; total: number }) => {
+        if (goal.progressMode === "time") {
+            const minutes = goal.trackedActivityId ? trackedMinutes[goal.trackedActivityId] ?? 0 : 0;
+            return `${formatHours(minutes)} of ${formatHours(goal.targetMinutes ?? 0)} tracked`;
+        }
+        if (goal.progressMode === "activityTarget") {
+            const target = activities?.find((activity) => activity.id === goal.trackedActivityId)?.target;
+            if (!target) return "The activity has no time target";
+            const minutes = targetProgress[goal.trackedActivityId!]?.minutes ?? 0;
+            return `${formatTargetMinutes(minutes)} of ${formatTargetMinutes(target.minutes)} ${CURRENT_PERIOD_LABELS[target.period]}`;
+        }
+        return `${progress.done}/${progress.total} todos completed`;
+    };
+
+    const goalsWithRecurringTodos = useMemo(() => {
+        return new Set(
+            [...todosById.values()]
+                .filter((todo) => todo.recurrence && todo.goalId)
+                .map((todo) => todo.goalId!)
+        );
+    }, [todosById]);
 
     const {
         register,
@@ -55,7 +208,10 @@ export function GoalsPage() {
     });
 
     const onSubmit = (data: GoalForm) => {
-        addGoal.mutate(data.title);
+        addGoal.mutate({
+            title: data.title,
+            parentGoalId: newGoalParentId === NO_PARENT ? undefined : newGoalParentId,
+        });
         reset();
         setIsOpen(false);
     };
@@ -105,6 +261,262 @@ export function GoalsPage() {
         );
     }
 
+    const renderGoalNodes = (nodes: GoalTreeNode[]): ReactNode => {
+        const siblingIds = nodes.map((node) => node.goal.id);
+        return nodes.map((node) => renderGoalNode(node, siblingIds));
+    };
+
+    const renderGoalNode = ({ goal, children }: GoalTreeNode, siblingIds: string[]): ReactNode => {
+        const progress = progressMap[goal.id] ?? {
+            total: 0,
+            done: 0,
+            percent: 0,
+        };
+        const isCollapsed = collapsedGoalIds.has(goal.id);
+        return (
+            <div key={goal.id} className="space-y-4">
+                <Card
+                    {...(isManualSort ? getItemProps(goal.id, siblingIds) : {})}
+                    className={cn(
+                        "transition-all duration-300",
+                        progress.percent === 100 &&
+                        "ring-2 ring-success/50 bg-success/5",
+                        "data-[drag-over=true]:border-primary data-[drag-over=true]:ring-2 data-[drag-over=true]:ring-primary/30 data-[dragging=true]:opacity-50"
+                    )}
+                >
+                    <CardContent className="p-6">
+                        <div className="flex items-start justify-between mb-4">
+                            <div className="flex items-center gap-3">
+                                {isManualSort && (
+                                    <span
+                                        {...getHandleProps(goal.id, siblingIds)}
+                                        className="-ml-2 cursor-grab rounded text-muted-foreground/60 hover:text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring active:cursor-grabbing"
+                                    >
+                                        <GripVertical className="w-4 h-4" />
+                                    </span>
+                                )}
+                                {children.length > 0 && (
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="-ml-2 h-8 w-8"
+                                        onClick={() => toggleCollapsed(goal.id)}
+                                        aria-label={isCollapsed ? "Expand sub-goals" : "Collapse sub-goals"}
+                                    >
+                                        {isCollapsed ? (
+                                            <ChevronRight className="w-4 h-4" />
+                                        ) : (
+                                            <ChevronDown className="w-4 h-4" />
+                                        )}
+                                    </Button>
+                                )}
+                                <div
+                                    className={cn(
+                                        "w-10 h-10 rounded-xl flex items-center justify-center",
+                                        progress.percent === 100
+                                            ? "bg-success/10"
+                                            : "bg-primary/10"
+                                    )}
+                                >
+                                    {progress.percent === 100 ? (
+                                        <Sparkles className="w-5 h-5 text-success" />
+                                    ) : (
+                                        <Target className="w-5 h-5 text-primary" />
+                                    )}
+                                </div>
+                                <div>
+                                    <h3 className="font-semibold text-foreground">
+                                        <Link
+                                            to={`/goals/${goal.id}`}
+                                            className="hover:text-primary transition-colors"
+                                        >
+                                            {goal.title}
+                                        </Link>
+                                    </h3>
+                                    <div className="flex flex-wrap items-center gap-1.5">
+                                        {getStatusBadge(progress.percent)}
+                                        <ForecastBadge status={forecastMap[goal.id]?.status ?? null} />
+                                        {pendingSyncIds.has(goal.id) && <PendingSyncBadge />}
+                                        {children.length > 0 && (
+                                            <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+                                                <ListTree className="w-3 h-3" />
+                                                {children.length} sub-goal{children.length === 1 ? "" : "s"}
+                                            </span>
+                                        )}
+                                    </div>
+                                </div>
+                            </div>
+                            <div className="flex items-center gap-1">
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => openNewGoalDialog(goal.id)}
+                                    aria-label="Add sub-goal"
+                                >
+                                    <Plus className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => setSettingsGoalId(goal.id)}
+                                    aria-label="Goal settings"
+                                >
+                                    <Settings2 className="w-4 h-4" />
+                                </Button>
+                                {progress.percent === 100 && (
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => archiveGoal.mutate(goal.id)}
+                                        aria-label="Archive goal"
+                                    >
+                                        <Archive className="w-4 h-4" />
+                                    </Button>
+                                )}
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                                    onClick={() => setDeletingGoalId(goal.id)}
+                                    disabled={
+                                        deleteGoal.isPending && deleteGoal.variables?.goalId === goal.id
+                                    }
+                                    aria-label="Delete goal"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </Button>
+                            </div>
+                        </div>
+
+                        <div className="space-y-3">
+                            <div className="flex items-center justify-between">
+                                <span className="text-sm text-muted-foreground">
+                                    Progress
+                                </span>
+                                <span
+                                    className={cn(
+                                        "text-lg font-bold",
+                                        getProgressColor(progress.percent)
+                                    )}
+                                >
+                                    {progress.percent}%
+                                </span>
+                            </div>
+                            <Progress value={progress.percent} />
+                            {goal.progressMode === "manual" && (
+                                <ManualProgressSlider
+                                    key={goal.currentPercent}
+                                    value={progress.percent}
+                                    onCommit={(percent) =>
+                                        updateGoal.mutate({
+                                            goalId: goal.id,
+                                            updates: { currentPercent: percent },
+                                        })
+                                    }
+                                />
+                            )}
+                            <div className="flex items-center justify-between text-xs text-muted-foreground pt-2">
+                                <span>
+                                    {getProgressDetail(goal, progress)}
+                                </span>
+                                <span>{getProgressSource(goal)}</span>
+                            </div>
+                            {(goal.targetDate || forecastMap[goal.id]?.predictedFinish) && (
+                                <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                                    <CalendarClock className="w-3 h-3" />
+                                    {goal.targetDate && (
+                                        <span>
+                                            Target {format(parseISO(goal.targetDate), "MMM d, yyyy")}
+                                        </span>
+                                    )}
+                                    {forecastMap[goal.id]?.predictedFinish && (
+                                        <span>
+                                            Predicted finish{" "}
+                                            {format(
+                                                parseISO(forecastMap[goal.id].predictedFinish!),
+                                                "MMM d, yyyy"
+                                            )}
+                                        </span>
+                                    )}
+                                </div>
+                            )}
+                            {goal.milestones && goal.milestones.length > 0 && (
+                                <div className="space-y-1 pt-1">
+                                    {[...goal.milestones]
+                                        .sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+                                        .map((milestone) => {
+                                            const milestoneProgress = getMilestoneProgress(
+                                                milestone,
+                                                todosById,
+                                                todayKey
+                                            );
+                                            const isComplete =
+                                                milestoneProgress.total > 0 &&
+                                                milestoneProgress.done === milestoneProgress.total;
+                                            return (
+                                                <div
+                                                    key={milestone.id}
+                                                    className={cn(
+                                                        "flex items-center gap-2 text-xs",
+                                                        milestoneProgress.isOverdue
+                                                            ? "text-destructive"
+                                                            : "text-muted-foreground"
+                                                    )}
+                                                >
+                                                    {isComplete ? (
+                                                        <Check className="w-3 h-3 text-success" />
+                                                    ) : (
+                                                        <Flag className="w-3 h-3" />
+                                                    )}
+                                                    <span className="flex-1 truncate text-foreground">
+                                                        {milestone.title}
+                                                    </span>
+                                                    <span>
+                                                        {milestoneProgress.done}/{milestoneProgress.total}
+                                                    </span>
+                                                    <span>{format(parseISO(milestone.dueDate), "MMM d")}</span>
+                                                </div>
+                                            );
+                                        })}
+                                </div>
+                            )}
+                            {goalsWithRecurringTodos.has(goal.id) && (
+                                <div className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
+                                    <Repeat className="w-3 h-3" />
+                                    <span>Recurring todos count</span>
+                                    <Select
+                                        value={goal.recurringProgress ?? "all"}
+                                        onValueChange={(value) =>
+                                            updateGoal.mutate({
+                                                goalId: goal.id,
+                                                updates: {
+                                                    recurringProgress: value as RecurringProgressMode,
+                                                },
+                                            })
+                                        }
+                                    >
+                                        <SelectTrigger className="h-8 w-40 text-xs">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="all">All instances</SelectItem>
+                                            <SelectItem value="latest">Latest instance</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            )}
+                        </div>
+                    </CardContent>
+                </Card>
+                {children.length > 0 && !isCollapsed && (
+                    <div className="grid gap-4 ml-5 pl-4 sm:pl-6 border-l-2 border-border">
+                        {renderGoalNodes(children)}
+                    </div>
+                )}
+            </div>
+        );
+    };
+
     return (
         <div className="space-y-8">
             {/* Header */}
@@ -115,126 +527,103 @@ export function GoalsPage() {
                         Track your progress towards your objectives
                     </p>
                 </div>
-                <Dialog open={isOpen} onOpenChange={setIsOpen}>
-                    <DialogTrigger asChild>
-                        <Button>
-                            <Plus className="w-4 h-4 mr-2" />
-                            Add Goal
-                        </Button>
-                    </DialogTrigger>
-                    <DialogContent>
-                        <DialogHeader>
-                            <DialogTitle>Create New Goal</DialogTitle>
-                        </DialogHeader>
-                        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-                            <div>
-                                <Input
-                                    placeholder="Enter your goal title..."
-                                    {...register("title")}
-                                    autoFocus
-                                />
-                                {errors.title && (
-                                    <p className="text-sm text-destructive mt-1">
-                                        {errors.title.message}
-                                    </p>
+                <div className="flex items-center gap-2">
+                    <ArrowDownUp className="w-4 h-4 text-muted-foreground" />
+                    <Select
+                        value={sortMode}
+                        onValueChange={(value) => handleSortModeChange(value as GoalSortMode)}
+                    >
+                        <SelectTrigger className="w-40" aria-label="Sort goals">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {(Object.keys(GOAL_SORT_LABELS) as GoalSortMode[]).map((mode) => (
+                                <SelectItem key={mode} value={mode}>
+                                    {GOAL_SORT_LABELS[mode]}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+                        <DialogTrigger asChild>
+                            <Button onClick={() => setNewGoalParentId(NO_PARENT)}>
+                                <Plus className="w-4 h-4 mr-2" />
+                                Add Goal
+                            </Button>
+                        </DialogTrigger>
+                        <DialogContent>
+                            <DialogHeader>
+                                <DialogTitle>Create New Goal</DialogTitle>
+                            </DialogHeader>
+                            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                                <div>
+                                    <Input
+                                        placeholder="Enter your goal title..."
+                                        {...register("title")}
+                                        autoFocus
+                                    />
+                                    {errors.title && (
+                                        <p className="text-sm text-destructive mt-1">
+                                            {errors.title.message}
+                                        </p>
+                                    )}
+                                </div>
+                                {goals && goals.length > 0 && (
+                                    <Select value={newGoalParentId} onValueChange={setNewGoalParentId}>
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value={NO_PARENT}>Top-level goal</SelectItem>
+                                            {goals.map((goal) => (
+                                                <SelectItem key={goal.id} value={goal.id}>
+                                                    Sub-goal of {goal.title}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
                                 )}
-                            </div>
-                            <DialogFooter>
-                                <DialogClose asChild>
-                                    <Button type="button" variant="ghost">
-                                        Cancel
+                                <DialogFooter>
+                                    <DialogClose asChild>
+                                        <Button type="button" variant="ghost">
+                                            Cancel
+                                        </Button>
+                                    </DialogClose>
+                                    <Button type="submit" disabled={isSubmitting || addGoal.isPending}>
+                                        {addGoal.isPending ? "Creating..." : "Create Goal"}
                                     </Button>
-                                </DialogClose>
-                                <Button type="submit" disabled={isSubmitting || addGoal.isPending}>
-                                    {addGoal.isPending ? "Creating..." : "Create Goal"}
-                                </Button>
-                            </DialogFooter>
-                        </form>
-                    </DialogContent>
-                </Dialog>
+                                </DialogFooter>
+                            </form>
+                        </DialogContent>
+                    </Dialog>
+                </div>
             </div>
 
+            {settingsGoal && (
+                <GoalSettingsDialog
+                    key={settingsGoal.id}
+                    goal={settingsGoal}
+                    currentPercent={progressMap[settingsGoal.id]?.percent ?? 0}
+                    open
+                    onOpenChange={(open) => !open && setSettingsGoalId(null)}
+                />
+            )}
+
+            {deletingGoal && (
+                <DeleteGoalDialog
+                    key={deletingGoal.id}
+                    goal={deletingGoal}
+                    goals={goals ?? []}
+                    linkedTodoCount={deletingGoalTodos?.length ?? 0}
+                    open
+                    onOpenChange={(open) => !open && setDeletingGoalId(null)}
+                />
+            )}
+
             {/* Goals Grid */}
             {goals && goals.length > 0 ? (
                 <div className="grid gap-4">
-                    {goals.map((goal) => {
-                        const progress = progressMap[goal.id] ?? {
-                            total: 0,
-                            done: 0,
-                            percent: 0,
-                        };
-                        return (
-                        <Card
-                            key={goal.id}
-                            className={cn(
-                                "transition-all duration-300",
-                                progress.percent === 100 &&
-                                "ring-2 ring-success/50 bg-success/5"
-                            )}
-                        >
-                            <CardContent className="p-6">
-                                <div className="flex items-start justify-between mb-4">
-                                    <div className="flex items-center gap-3">
-                                        <div
-                                            className={cn(
-                                                "w-10 h-10 rounded-xl flex items-center justify-center",
-                                                progress.percent === 100
-                                                    ? "bg-success/10"
-                                                    : "bg-primary/10"
-                                            )}
-                                        >
-                                            {progress.percent === 100 ? (
-                                                <Sparkles className="w-5 h-5 text-success" />
-                                            ) : (
-                                                <Target className="w-5 h-5 text-primary" />
-                                            )}
-                                        </div>
-                                        <div>
-                                            <h3 className="font-semibold text-foreground">
-                                                {goal.title}
-                                            </h3>
-                                            {getStatusBadge(progress.percent)}
-                                        </div>
-                                    </div>
-                                    <Button
-                                        variant="ghost"
-                                        size="icon"
-                                        className="text-destructive hover:text-destructive hover:bg-destructive/10"
-                                        onClick={() => deleteGoal.mutate(goal.id)}
-                                        disabled={
-                                            deleteGoal.isPending && deleteGoal.variables === goal.id
-                                        }
-                                    >
-                                        <Trash2 className="w-4 h-4" />
-                                    </Button>
-                                </div>
-
-                                <div className="space-y-3">
-                                    <div className="flex items-center justify-between">
-                                        <span className="text-sm text-muted-foreground">
-                                            Progress
-                                        </span>
-                                        <span
-                                            className={cn(
-                                                "text-lg font-bold",
-                                                getProgressColor(progress.percent)
-                                            )}
-                                        >
-                                            {progress.percent}%
-                                        </span>
-                                    </div>
-                                    <Progress value={progress.percent} />
-                                    <div className="flex items-center justify-between text-xs text-muted-foreground pt-2">
-                                        <span>
-                                            {progress.done}/{progress.total} todos completed
-                                        </span>
-                                        <span>Progress updates from linked todos</span>
-                                    </div>
-                                </div>
-                            </CardContent>
-                        </Card>
-                        );
-                    })}
+                    {renderGoalNodes(goalTree)}
                 </div>
             ) : (
                 <Card className="p-12">
@@ -258,3 +647,37 @@ export function GoalsPage() {
         </div>
     );
 }
+
+function formatHours(minutes: number) {
+    const hours = minutes / 60;
+    return `${Number.isInteger(hours) ? hours : hours.toFixed(1)}h`;
+}
+
+function ManualProgressSlider({
+    value,
+    onCommit,
+}: {
+    value: number;
+    onCommit: (percent: number) => void;
+}) {
+    const [draft, setDraft] = useState(value);
+
+    const commit = () => {
+        if (draft !== value) onCommit(draft);
+    };
+
+    return (
+        <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={draft}
+            onChange={(event) => setDraft(Number(event.target.value))}
+            onPointerUp={commit}
+            onKeyUp={commit}
+            className="w-full accent-[var(--color-primary)]"
+            aria-label="Manual progress"
+        />
+    );
+}
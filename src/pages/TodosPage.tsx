@@ -1,18 +1,49 @@
-import { useMemo, useState, useEffect } from "react";
-import { useForm } from "react-hook-form";
+import { useCallback, useMemo, useState, useEffect } from "react";
+import { useForm, useWatch } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { format, isToday } from "date-fns";
-import { Plus, Trash2, CheckSquare, Link as LinkIcon, Filter, X } from "lucide-react";
+import { format, isToday, parseISO } from "date-fns";
+import { Link, useSearchParams } from "react-router-dom";
+import {
+  Plus,
+  Trash2,
+  CheckSquare,
+  Link as LinkIcon,
+  Filter,
+  X,
+  Pencil,
+  CalendarClock,
+  Repeat,
+  Weight,
+  ListChecks,
+  ChevronDown,
+  SlidersHorizontal,
+  ListFilter,
+  Tag,
+  Flag,
+  GripVertical,
+  ArrowDownUp,
+  LayoutList,
+  SquareKanban,
+  Archive,
+} from "lucide-react";
 
 import {
   useTodos,
+  useTodoCounts,
   useAddTodo,
   useAddTodosBulk,
   useToggleTodo,
+  useUpdateTodo,
   useDeleteTodo,
+  useReorderTodos,
 } from "@/hooks/useTodos";
 import { useGoals } from "@/hooks/useGoals";
+import { useSmartLists, useAddSmartList, useDeleteSmartList } from "@/hooks/useSmartLists";
+import { useSortableList } from "@/hooks/useSortableList";
+import { usePendingSyncIds } from "@/hooks/useOfflineQueue";
+import { usePreferences, useUpdatePreferences } from "@/hooks/usePreferences";
+import { useArchiveTodos } from "@/hooks/useArchive";
 
 import {
   Button,
@@ -23,6 +54,7 @@ import {
   TabsList,
   TabsTrigger,
   TabsContent,
+  Progress,
   Select,
   SelectContent,
   SelectItem,
@@ -31,28 +63,102 @@ import {
   Skeleton,
 } from "@/components/ui";
 
+import { RecurrencePicker } from "@/components/todos/RecurrencePicker";
+import { TodoChecklist } from "@/components/todos/TodoChecklist";
+import { TodoFilterBuilder } from "@/components/todos/TodoFilterBuilder";
+import { PriorityBadge } from "@/components/todos/PriorityBadge";
+import { TodoBoard } from "@/components/todos/TodoBoard";
+import { VirtualTodoList } from "@/components/todos/VirtualTodoList";
+import { PendingSyncBadge } from "@/components/sync/PendingSyncBadge";
+import { QuickAddPreview } from "@/components/todos/QuickAddPreview";
+
 import { cn } from "@/lib/utils";
-import type { Todo } from "@/types";
-import { buildGoalProgressMap } from "@/lib/goalProgress";
+import type {
+  Goal,
+  RecurrenceRule,
+  Todo,
+  TodoBoardGroup,
+  TodoFilter,
+  TodoInput,
+  TodoPriority,
+  TodoStatus,
+  TodoUpdates,
+} from "@/types";
+import { useGoalProgress } from "@/hooks/useGoalProgress";
+import { formatDueTime, getDueStatus, toDateKey } from "@/lib/dueDates";
+import { describeRecurrence } from "@/lib/recurrence";
+import { PRIORITIES, collectTags, compactFilter, matchesTodoFilter, parseTags } from "@/lib/todoFilters";
+import { parseQuickAdd, type ParsedQuickAdd } from "@/lib/quickAddParser";
+import { TODO_SORT_LABELS, getMoveUpdates, sortGoals, sortTodos, type TodoSortMode } from "@/lib/sortKeys";
 
 const todoSchema = z.object({
   title: z.string().min(1, "Title is required").max(200, "Title is too long"),
 });
 
 type TodoForm = z.infer<typeof todoSchema>;
-type FilterType = "all" | "today" | "done" | "pending";
+type FilterType = "all" | "today" | "due_today" | "upcoming" | "overdue" | "done" | "pending";
+
+const NO_PRIORITY = "none";
+const SORT_STORAGE_KEY = "goals-todo-todo-sort";
+
+const EMPTY_STATES: Record<FilterType, { title: string; description: string }> = {
+  all: { title: "No todos yet", description: "Add a new todo to get started!" },
+  today: { title: "No todos for today", description: "Create todos today to see them here." },
+  due_today: { title: "Nothing due today", description: "Set a due date on a todo to plan your day." },
+  upcoming: { title: "No upcoming todos", description: "Todos with a future due date show up here." },
+  overdue: { title: "Nothing overdue", description: "You're all caught up!" },
+  done: { title: "No completed todos", description: "Complete some todos to see them here." },
+  pending: { title: "No pending todos", description: "Add a new todo to get started!" },
+};
 
 export function TodosPage() {
   const [filter, setFilter] = useState<FilterType>("all");
   const [selectedGoalId, setSelectedGoalId] = useState<string>("all");
   const [newTodoGoalId, setNewTodoGoalId] = useState<string>("");
+  const [newTodoDueDate, setNewTodoDueDate] = useState<string>("");
+  const [newTodoRecurrence, setNewTodoRecurrence] = useState<RecurrenceRule | undefined>();
+  const [newTodoPriority, setNewTodoPriority] = useState<string>(NO_PRIORITY);
+  const [newTodoTags, setNewTodoTags] = useState("");
+  const [draftFilter, setDraftFilter] = useState<TodoFilter>({});
+  const [isFilterBuilderOpen, setIsFilterBuilderOpen] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
   const [addMode, setAddMode] = useState<"quick" | "bulk">("quick");
   const [bulkText, setBulkText] = useState("");
+  const [editingTodoId, setEditingTodoId] = useState<string | null>(null);
+  const [expandedTodoIds, setExpandedTodoIds] = useState<Set<string>>(new Set());
+  const [sortMode, setSortMode] = useState<TodoSortMode>(
+    () => (localStorage.getItem(SORT_STORAGE_KEY) as TodoSortMode) || "manual"
+  );
 
   const [recentlyCompletedIds, setRecentlyCompletedIds] = useState<Set<string>>(new Set());
 
-  const { data: todos, isLoading: todosLoading } = useTodos();
+  const {
+    data: todos,
+    isLoading: todosLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useTodos();
+  const { data: todoCounts } = useTodoCounts();
+  const pendingSyncIds = usePendingSyncIds();
   const { data: goals } = useGoals();
+  const { data: smartLists } = useSmartLists();
+  const addSmartList = useAddSmartList();
+  const deleteSmartList = useDeleteSmartList();
+  const { data: preferences } = usePreferences();
+  const updatePreferences = useUpdatePreferences();
+  const view = preferences?.todoView ?? "list";
+  const boardGroup = preferences?.todoBoardGroup ?? "status";
+
+  // A smart list opened from the sidebar (/todos?list=<id>) replaces the draft filter
+  const activeListId = searchParams.get("list");
+  const activeList = smartLists?.find((list) => list.id === activeListId);
+  const activeFilter = activeList?.filter ?? draftFilter;
+
+  const handleFilterChange = (nextFilter: TodoFilter) => {
+    setDraftFilter(nextFilter);
+    if (activeListId) setSearchParams({});
+  };
 
   // Reset recently completed when filter changes
   useEffect(() => {
@@ -62,7 +168,34 @@ export function TodosPage() {
   const addTodo = useAddTodo();
   const addTodosBulk = useAddTodosBulk();
   const toggleTodo = useToggleTodo();
+  const updateTodo = useUpdateTodo();
   const deleteTodo = useDeleteTodo();
+  const archiveTodos = useArchiveTodos();
+  const reorderTodos = useReorderTodos();
+
+  const handleSortModeChange = (mode: TodoSortMode) => {
+    setSortMode(mode);
+    localStorage.setItem(SORT_STORAGE_KEY, mode);
+  };
+
+  // Drops are positioned within the visible list; todos hidden by filters keep their keys
+  const { getItemProps, getHandleProps } = useSortableList((todoId, toIndex, ids) => {
+    if (!todos) return;
+    const updates = getMoveUpdates(todos, ids, todoId, toIndex);
+    if (updates.length > 0) reorderTodos.mutate(updates);
+  });
+
+  const toggleExpanded = (todoId: string) => {
+    setExpandedTodoIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(todoId)) {
+        next.delete(todoId);
+      } else {
+        next.add(todoId);
+      }
+      return next;
+    });
+  };
 
   const handleToggleTodo = (todo: Todo) => {
     // If we are in "Pending" view and marking as done, add to generic keep-alive list
@@ -72,47 +205,103 @@ export function TodosPage() {
     toggleTodo.mutate({ todoId: todo.id, isDone: !todo.isDone });
   };
 
+  // Completing or reopening goes through the toggle so recurrences and goal progress
+  // behave exactly as in the list; moving between open columns only changes the status
+  const handleMoveToStatus = (todo: Todo, status: TodoStatus) => {
+    if (status === "done") {
+      toggleTodo.mutate({ todoId: todo.id, isDone: true });
+    } else if (todo.isDone) {
+      toggleTodo.mutate({ todoId: todo.id, isDone: false, status });
+    } else {
+      updateTodo.mutate({ todoId: todo.id, updates: { status } });
+    }
+  };
+
+  const handleMoveToGoal = (todo: Todo, goalId: string | undefined) => {
+    updateTodo.mutate({ todoId: todo.id, updates: { goalId } });
+  };
+
   const {
     register,
     handleSubmit,
     reset,
+    control,
+    setError,
     formState: { errors },
   } = useForm<TodoForm>({
     resolver: zodResolver(todoSchema),
   });
 
+  const quickAddText = useWatch({ control, name: "title" }) ?? "";
+  const quickAddParsed = useMemo(
+    () => parseQuickAdd(quickAddText, goals ?? [], new Date()),
+    [quickAddText, goals]
+  );
+
+  // Every non-empty bulk line is parsed on its own; lines left without a title are skipped
+  const bulkItems = useMemo(
+    () =>
+      bulkText
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .map((line) => ({ line, parsed: parseQuickAdd(line, goals ?? [], new Date()) })),
+    [bulkText, goals]
+  );
+  const validBulkItems = bulkItems.filter((item) => item.parsed.title);
+
+  const getNewTodoPriority = () =>
+    newTodoPriority === NO_PRIORITY ? undefined : (Number(newTodoPriority) as TodoPriority);
+
+  const resetNewTodoOptions = () => {
+    setNewTodoGoalId("");
+    setNewTodoDueDate("");
+    setNewTodoRecurrence(undefined);
+    setNewTodoPriority(NO_PRIORITY);
+    setNewTodoTags("");
+  };
+
+  // Values typed into the text win over the option pickers below the input
+  const toTodoInput = (parsed: ParsedQuickAdd): TodoInput => ({
+    title: parsed.title,
+    goalId: parsed.goalId ?? (newTodoGoalId === "no-goal" || !newTodoGoalId ? undefined : newTodoGoalId),
+    dueDate: parsed.dueDate ?? (newTodoDueDate || undefined),
+    dueTime: parsed.dueTime,
+    recurrence: newTodoRecurrence,
+    priority: parsed.priority ?? getNewTodoPriority(),
+    tags: [...new Set([...parseTags(newTodoTags), ...parsed.tags])],
+  });
+
   const onSubmit = (data: TodoForm) => {
-    addTodo.mutate({
-      title: data.title,
-      goalId: newTodoGoalId === "no-goal" || !newTodoGoalId ? undefined : newTodoGoalId,
-    });
+    const parsed = parseQuickAdd(data.title, goals ?? [], new Date());
+    if (!parsed.title) {
+      setError("title", { message: "Title is required" });
+      return;
+    }
+
+    addTodo.mutate(toTodoInput(parsed));
     reset();
-    setNewTodoGoalId("");
+    resetNewTodoOptions();
   };
 
   const onBulkSubmit = () => {
-    const titles = bulkText
-      .split("\n")
-      .map((line) => line.trim())
-      .filter(Boolean);
-
-    if (titles.length === 0) return;
+    if (validBulkItems.length === 0) return;
 
-    addTodosBulk.mutate({
-      titles,
-      goalId: newTodoGoalId === "no-goal" || !newTodoGoalId ? undefined : newTodoGoalId,
-    });
+    addTodosBulk.mutate(validBulkItems.map((item) => toTodoInput(item.parsed)));
 
     setBulkText("");
-    setNewTodoGoalId("");
+    resetNewTodoOptions();
   };
 
-  // Filter todos by Goal + status (All/Today/Done/Pending)
+  const todayKey = toDateKey(new Date());
+
+  // Filter todos by Goal + status (All/Today/Due/Done/Pending)
   const filteredTodos = useMemo(() => {
     if (!todos) return [];
 
-    return todos.filter((todo) => {
+    const matching = todos.filter((todo) => {
       if (selectedGoalId !== "all" && todo.goalId !== selectedGoalId) return false;
+      if (!matchesTodoFilter(todo, activeFilter, todayKey)) return false;
 
       // Ensure recently completed items stay visible in "Pending" tab
       if (filter === "pending" && recentlyCompletedIds.has(todo.id)) {
@@ -122,6 +311,12 @@ export function TodosPage() {
       switch (filter) {
         case "today":
           return todo.createdAt && isToday(todo.createdAt.toDate());
+        case "due_today":
+          return getDueStatus(todo, todayKey) === "today";
+        case "upcoming":
+          return !todo.isDone && getDueStatus(todo, todayKey) === "upcoming";
+        case "overdue":
+          return getDueStatus(todo, todayKey) === "overdue";
         case "done":
           return todo.isDone;
         case "pending":
@@ -130,18 +325,45 @@ export function TodosPage() {
           return true;
       }
     });
-  }, [todos, filter, selectedGoalId, recentlyCompletedIds]);
+    return sortTodos(matching, sortMode);
+  }, [todos, filter, selectedGoalId, activeFilter, recentlyCompletedIds, todayKey, sortMode]);
+
+  const isManualSort = sortMode === "manual";
+  const visibleTodoIds = filteredTodos.map((todo) => todo.id);
+
+  const allTags = useMemo(() => collectTags(todos ?? []), [todos]);
+
+  const handleLoadMore = useCallback(() => {
+    void fetchNextPage();
+  }, [fetchNextPage]);
 
   // ✅ Fix merge conflict: these counts are used in the Tabs UI
-  const { pendingCount, doneCount, todayCount } = useMemo(() => {
-    if (!todos) return { pendingCount: 0, doneCount: 0, todayCount: 0 };
+  // All/Pending/Done are counted on the server; the date-based tabs count the loaded todos
+  const { pendingCount, doneCount, todayCount, dueTodayCount, upcomingCount, overdueCount } =
+    useMemo(() => {
+      if (!todos) {
+        return {
+          pendingCount: 0,
+          doneCount: 0,
+          todayCount: 0,
+          dueTodayCount: 0,
+          upcomingCount: 0,
+          overdueCount: 0,
+        };
+      }
 
-    return {
-      pendingCount: todos.filter((t) => !t.isDone).length,
-      doneCount: todos.filter((t) => t.isDone).length,
-      todayCount: todos.filter((t) => t.createdAt && isToday(t.createdAt.toDate())).length,
-    };
-  }, [todos]);
+      return {
+        pendingCount: todoCounts
+          ? todoCounts.total - todoCounts.done
+          : todos.filter((t) => !t.isDone).length,
+        doneCount: todoCounts ? todoCounts.done : todos.filter((t) => t.isDone).length,
+        todayCount: todos.filter((t) => t.createdAt && isToday(t.createdAt.toDate())).length,
+        dueTodayCount: todos.filter((t) => getDueStatus(t, todayKey) === "today").length,
+        upcomingCount: todos.filter((t) => !t.isDone && getDueStatus(t, todayKey) === "upcoming")
+          .length,
+        overdueCount: todos.filter((t) => getDueStatus(t, todayKey) === "overdue").length,
+      };
+    }, [todos, todoCounts, todayKey]);
 
   const goalTitleMap = useMemo(() => {
     if (!goals) return {};
@@ -151,25 +373,52 @@ export function TodosPage() {
     }, {});
   }, [goals]);
 
-  const goalProgressMap = useMemo(() => {
-    if (!goals || !todos) return {};
-    return buildGoalProgressMap(goals, todos);
-  }, [goals, todos]);
+  const { progressMap: goalProgressMap } = useGoalProgress();
 
   // ✅ Todo item WITHOUT the checkbox square at the start
-  const TodoItem = ({ todo }: { todo: Todo }) => {
+  // Called as a function rather than rendered as <TodoItem />: a component declared in here
+  // would be a new type on every render and remount the rows, losing in-progress edits
+  const renderTodoItem = (todo: Todo) => {
     const goalName = todo.goalId ? goalTitleMap[todo.goalId] : undefined;
+    const dueStatus = getDueStatus(todo, todayKey);
+    const checklist = todo.checklist ?? [];
+    const checkedCount = checklist.filter((item) => item.isDone).length;
+    const isExpanded = expandedTodoIds.has(todo.id);
 
     const isDeleting = deleteTodo.isPending && deleteTodo.variables === todo.id;
     const isToggling = toggleTodo.isPending && toggleTodo.variables?.todoId === todo.id;
 
+    if (editingTodoId === todo.id) {
+      return (
+        <TodoEditForm
+          todo={todo}
+          goals={goals ?? []}
+          onCancel={() => setEditingTodoId(null)}
+          onSave={(updates) => {
+            updateTodo.mutate({ todoId: todo.id, updates });
+            setEditingTodoId(null);
+          }}
+        />
+      );
+    }
+
     return (
       <div
+        {...(isManualSort ? getItemProps(todo.id, visibleTodoIds) : {})}
         className={cn(
           "group flex items-start gap-3 p-4 rounded-xl border border-border bg-card transition-all duration-200 hover:shadow-md",
+          "data-[drag-over=true]:border-primary data-[drag-over=true]:ring-2 data-[drag-over=true]:ring-primary/30 data-[dragging=true]:opacity-50",
           todo.isDone && "bg-muted/50"
         )}
       >
+        {isManualSort && (
+          <span
+            {...getHandleProps(todo.id, visibleTodoIds)}
+            className="mt-0.5 -ml-1 cursor-grab rounded text-muted-foreground/60 hover:text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring active:cursor-grabbing"
+          >
+            <GripVertical className="w-4 h-4" />
+          </span>
+        )}
         <div className="flex-1 min-w-0">
           <div className="flex items-start justify-between gap-3">
             <div className="min-w-0">
@@ -182,6 +431,10 @@ export function TodosPage() {
                 {todo.title}
               </p>
 
+              {todo.notes && (
+                <p className="text-sm text-muted-foreground mt-1 whitespace-pre-line">{todo.notes}</p>
+              )}
+
               <div className="flex flex-wrap items-center gap-2 mt-2">
                 {/* Status badge بدل المربع */}
                 <span
@@ -192,13 +445,94 @@ export function TodosPage() {
                       : "border-border bg-muted text-foreground"
                   )}
                 >
-                  {todo.isDone ? "Done" : "Pending"}
+                  {todo.isDone ? "Done" : todo.status === "in_progress" ? "In progress" : "Pending"}
                 </span>
 
                 {/* Goal badge */}
-                <span className="inline-flex items-center rounded-full border border-border bg-muted px-2 py-0.5 text-xs text-foreground">
-                  {goalName ?? "No goal"}
-                </span>
+                {todo.goalId && goalName ? (
+                  <Link
+                    to={`/goals/${todo.goalId}`}
+                    className="inline-flex items-center rounded-full border border-border bg-muted px-2 py-0.5 text-xs text-foreground hover:border-primary/40 hover:text-primary"
+                  >
+                    {goalName}
+                  </Link>
+                ) : (
+                  <span className="inline-flex items-center rounded-full border border-border bg-muted px-2 py-0.5 text-xs text-foreground">
+                    No goal
+                  </span>
+                )}
+
+                {/* Priority */}
+                {todo.priority && <PriorityBadge priority={todo.priority} />}
+
+                {pendingSyncIds.has(todo.id) && <PendingSyncBadge />}
+
+                {/* Tags */}
+                {todo.tags?.map((tag) => (
+                  <span
+                    key={tag}
+                    className="inline-flex items-center rounded-full border border-border bg-muted px-2 py-0.5 text-xs text-muted-foreground"
+                  >
+                    #{tag}
+                  </span>
+                ))}
+
+                {/* Due date */}
+                {todo.dueDate && (
+                  <span
+                    className={cn(
+                      "inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs",
+                      dueStatus === "overdue"
+                        ? "border-destructive/30 bg-destructive/10 text-destructive"
+                        : dueStatus === "today"
+                          ? "border-primary/30 bg-primary/10 text-primary"
+                          : "border-border bg-muted text-foreground"
+                    )}
+                  >
+                    <CalendarClock className="w-3 h-3" />
+                    {dueStatus === "overdue" ? "Overdue · " : "Due "}
+                    {format(parseISO(todo.dueDate), "MMM d")}
+                    {todo.dueTime && `, ${formatDueTime(todo.dueTime)}`}
+                  </span>
+                )}
+
+                {/* Effort points */}
+                {todo.weight !== undefined && todo.weight !== 1 && (
+                  <span className="inline-flex items-center gap-1 rounded-full border border-border bg-muted px-2 py-0.5 text-xs text-foreground">
+                    <Weight className="w-3 h-3" />
+                    {todo.weight} pts
+                  </span>
+                )}
+
+                {/* Recurrence */}
+                {todo.recurrence && (
+                  <span className="inline-flex items-center gap-1 rounded-full border border-border bg-muted px-2 py-0.5 text-xs text-foreground">
+                    <Repeat className="w-3 h-3" />
+                    {describeRecurrence(todo.recurrence)}
+                  </span>
+                )}
+
+                {/* Checklist progress */}
+                <button
+                  type="button"
+                  onClick={() => toggleExpanded(todo.id)}
+                  aria-expanded={isExpanded}
+                  className="inline-flex items-center gap-1.5 rounded-full border border-border px-2 py-0.5 text-xs text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+                >
+                  <ListChecks className="w-3 h-3" />
+                  {checklist.length > 0 ? (
+                    <>
+                      {checkedCount}/{checklist.length}
+                      <Progress
+                        value={Math.round((checkedCount / checklist.length) * 100)}
+                        className="h-1.5 w-12"
+                      />
+                    </>
+                  ) : (
+                    "Checklist"
+                  )}
+                  <ChevronDown className={cn("w-3 h-3 transition-transform", isExpanded && "rotate-180")} />
+                </button>
 
                 {/* Date */}
                 {todo.createdAt && (
@@ -221,6 +555,28 @@ export function TodosPage() {
                 {todo.isDone ? "Undo" : "Mark done"}
               </Button>
 
+              {/* Edit */}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setEditingTodoId(todo.id)}
+                aria-label="Edit todo"
+              >
+                <Pencil className="w-4 h-4" />
+              </Button>
+
+              {/* Archive */}
+              {todo.isDone && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => archiveTodos.mutate([todo.id])}
+                  aria-label="Archive todo"
+                >
+                  <Archive className="w-4 h-4" />
+                </Button>
+              )}
+
               {/* Delete */}
               <Button
                 variant="ghost"
@@ -236,6 +592,13 @@ export function TodosPage() {
               </Button>
             </div>
           </div>
+
+          {isExpanded && (
+            <TodoChecklist
+              items={checklist}
+              onChange={(items) => updateTodo.mutate({ todoId: todo.id, updates: { checklist: items } })}
+            />
+          )}
         </div>
       </div>
     );
@@ -262,9 +625,51 @@ export function TodosPage() {
   return (
     <div className="space-y-8">
       {/* Header */}
-      <div>
-        <h1 className="text-3xl font-bold text-foreground">Todos</h1>
-        <p className="text-muted-foreground mt-1">Manage your daily tasks and link them to goals</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">{activeList ? activeList.name : "Todos"}</h1>
+          <p className="text-muted-foreground mt-1">
+            {activeList ? "Smart list" : "Manage your daily tasks and link them to goals"}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {activeList && (
+            <Button
+              type="button"
+              variant="ghost"
+              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+              onClick={() => {
+                deleteSmartList.mutate(activeList.id);
+                setSearchParams({});
+              }}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete list
+            </Button>
+          )}
+          <div className="flex items-center rounded-lg border border-border p-0.5">
+            <Button
+              type="button"
+              variant={view === "list" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => updatePreferences.mutate({ todoView: "list" })}
+              aria-pressed={view === "list"}
+            >
+              <LayoutList className="w-4 h-4 mr-2" />
+              List
+            </Button>
+            <Button
+              type="button"
+              variant={view === "board" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => updatePreferences.mutate({ todoView: "board" })}
+              aria-pressed={view === "board"}
+            >
+              <SquareKanban className="w-4 h-4 mr-2" />
+              Board
+            </Button>
+          </div>
+        </div>
       </div>
 
       {/* Add Form */}
@@ -293,26 +698,41 @@ export function TodosPage() {
             {addMode === "quick" ? (
               <form onSubmit={handleSubmit(onSubmit)} className="space-y-3">
                 <div className="flex gap-3">
-                  <Input placeholder="What needs to be done?" {...register("title")} className="flex-1" />
+                  <Input
+                    placeholder="What needs to be done? Try: Call bank tomorrow 3pm #finance !high @Goal"
+                    {...register("title")}
+                    className="flex-1"
+                  />
                   <Button type="submit" disabled={addTodo.isPending}>
                     <Plus className="w-4 h-4 mr-2" />
                     Add
                   </Button>
                 </div>
                 {errors.title && <p className="text-sm text-destructive">{errors.title.message}</p>}
+                <QuickAddPreview text={quickAddText} parsed={quickAddParsed} goals={goals ?? []} />
               </form>
             ) : (
               <div className="space-y-3">
                 <textarea
                   className="w-full min-h-[120px] rounded-md border border-input bg-background px-3 py-2 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
-                  placeholder="Add one todo per line..."
+                  placeholder="Add one todo per line... dates, times, !priority, #tags and @goal work on every line"
                   value={bulkText}
                   onChange={(event) => setBulkText(event.target.value)}
                 />
+                {bulkItems.some((item) => item.parsed.tokens.length > 0) && (
+                  <div className="space-y-1 max-h-40 overflow-y-auto">
+                    {bulkItems.map((item, index) => (
+                      <QuickAddPreview
+                        key={index}
+                        text={item.line}
+                        parsed={item.parsed}
+                        goals={goals ?? []}
+                      />
+                    ))}
+                  </div>
+                )}
                 <div className="flex items-center justify-between text-sm text-muted-foreground">
-                  <span>
-                    {bulkText.split("\n").filter((line) => line.trim()).length} items ready
-                  </span>
+                  <span>{validBulkItems.length} items ready</span>
                   <Button type="button" onClick={onBulkSubmit} disabled={addTodosBulk.isPending}>
                     <Plus className="w-4 h-4 mr-2" />
                     Add all
@@ -343,6 +763,43 @@ export function TodosPage() {
                 <span className="text-xs text-muted-foreground">Progress updates from linked todos</span>
               )}
             </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <CalendarClock className="w-4 h-4 text-muted-foreground" />
+              <Input
+                type="date"
+                value={newTodoDueDate}
+                onChange={(event) => setNewTodoDueDate(event.target.value)}
+                className="w-44"
+                aria-label="Due date (optional)"
+              />
+              {newTodoDueDate && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => setNewTodoDueDate("")}
+                  aria-label="Clear due date"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+              <RecurrencePicker value={newTodoRecurrence} onChange={setNewTodoRecurrence} />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Flag className="w-4 h-4 text-muted-foreground" />
+              <PrioritySelect value={newTodoPriority} onChange={setNewTodoPriority} />
+              <Tag className="w-4 h-4 text-muted-foreground" />
+              <Input
+                value={newTodoTags}
+                onChange={(event) => setNewTodoTags(event.target.value)}
+                placeholder="Tags, comma separated"
+                className="w-64"
+                aria-label="Tags (optional)"
+              />
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -352,11 +809,20 @@ export function TodosPage() {
         <TabsList className="w-full justify-start">
           <TabsTrigger value="all" className="gap-2">
             <Filter className="w-4 h-4" />
-            All ({todos?.length || 0})
+            All ({todoCounts?.total ?? todos?.length ?? 0})
           </TabsTrigger>
           <TabsTrigger value="today" className="gap-2">
             Today ({todayCount})
           </TabsTrigger>
+          <TabsTrigger value="due_today" className="gap-2">
+            Due today ({dueTodayCount})
+          </TabsTrigger>
+          <TabsTrigger value="upcoming" className="gap-2">
+            Upcoming ({upcomingCount})
+          </TabsTrigger>
+          <TabsTrigger value="overdue" className="gap-2">
+            Overdue ({overdueCount})
+          </TabsTrigger>
           <TabsTrigger value="pending" className="gap-2">
             Pending ({pendingCount})
           </TabsTrigger>
@@ -394,15 +860,111 @@ export function TodosPage() {
             >
               <X className="h-4 w-4" />
             </Button>
+
+            <div className="ml-auto flex items-center gap-2">
+              <ArrowDownUp className="w-4 h-4 text-muted-foreground" />
+              <Select value={sortMode} onValueChange={(value) => handleSortModeChange(value as TodoSortMode)}>
+                <SelectTrigger className="h-8 w-40 text-sm" aria-label="Sort todos">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TODO_SORT_LABELS) as TodoSortMode[]).map((mode) => (
+                    <SelectItem key={mode} value={mode}>
+                      {TODO_SORT_LABELS[mode]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button
+              type="button"
+              variant={isFilterBuilderOpen ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => setIsFilterBuilderOpen((open) => !open)}
+            >
+              {activeList ? <ListFilter className="w-4 h-4 mr-2" /> : <SlidersHorizontal className="w-4 h-4 mr-2" />}
+              {activeList ? "Edit filter" : "Filters"}
+            </Button>
           </div>
 
-          {/* List */}
-          {filteredTodos.length > 0 ? (
-            <div className="space-y-3">
-              {filteredTodos.map((todo) => (
-                <TodoItem key={todo.id} todo={todo} />
-              ))}
+          {isFilterBuilderOpen && (
+            <div className="pb-4">
+              <TodoFilterBuilder
+                filter={activeFilter}
+                goals={goals ?? []}
+                tags={allTags}
+                onChange={handleFilterChange}
+                onSave={(name) =>
+                  addSmartList.mutate(
+                    { name, filter: compactFilter(activeFilter) },
+                    { onSuccess: (listId) => setSearchParams({ list: listId }) }
+                  )
+                }
+              />
+            </div>
+          )}
+
+          {view === "board" && (
+            <div className="flex items-center gap-2 pb-4">
+              <span className="text-sm font-medium text-foreground">Columns</span>
+              <Select
+                value={boardGroup}
+                onValueChange={(value) =>
+                  updatePreferences.mutate({ todoBoardGroup: value as TodoBoardGroup })
+                }
+              >
+                <SelectTrigger className="h-8 w-40 text-sm" aria-label="Group board by">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="status">By status</SelectItem>
+                  <SelectItem value="goal">By goal</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {filter === "done" && filteredTodos.length > 0 && (
+            <div className="flex flex-wrap items-center justify-between gap-2 pb-4">
+              <p className="text-sm text-muted-foreground">
+                Archived todos still count toward goal progress.{" "}
+                <Link to="/archive" className="text-primary hover:underline">
+                  View archive
+                </Link>
+              </p>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => archiveTodos.mutate(visibleTodoIds)}
+                disabled={archiveTodos.isPending}
+              >
+                <Archive className="w-4 h-4 mr-2" />
+                Archive all ({filteredTodos.length})
+              </Button>
             </div>
+          )}
+
+          {/* List */}
+          {view === "board" ? (
+            <TodoBoard
+              todos={filteredTodos}
+              goals={sortGoals(goals ?? [], "manual")}
+              groupBy={boardGroup}
+              todayKey={todayKey}
+              pendingSyncIds={pendingSyncIds}
+              onMoveToStatus={handleMoveToStatus}
+              onMoveToGoal={handleMoveToGoal}
+            />
+          ) : filteredTodos.length > 0 ? (
+            <VirtualTodoList
+              todos={filteredTodos}
+              renderTodo={renderTodoItem}
+              hasNextPage={hasNextPage}
+              isFetchingNextPage={isFetchingNextPage}
+              onLoadMore={handleLoadMore}
+            />
           ) : (
             <Card className="p-12">
               <div className="text-center">
@@ -411,27 +973,202 @@ export function TodosPage() {
                 </div>
 
                 <h3 className="text-lg font-semibold text-foreground mb-2">
-                  {filter === "all"
-                    ? "No todos yet"
-                    : filter === "today"
-                      ? "No todos for today"
-                      : filter === "done"
-                        ? "No completed todos"
-                        : "No pending todos"}
+                  {EMPTY_STATES[filter].title}
                 </h3>
 
-                <p className="text-muted-foreground">
-                  {filter === "all" || filter === "pending"
-                    ? "Add a new todo to get started!"
-                    : filter === "done"
-                      ? "Complete some todos to see them here."
-                      : "Create todos today to see them here."}
-                </p>
+                <p className="text-muted-foreground">{EMPTY_STATES[filter].description}</p>
               </div>
             </Card>
           )}
+
+          {/* The board and filtered-out lists cannot scroll to the next page */}
+          {hasNextPage && (view === "board" || filteredTodos.length === 0) && (
+            <div className="flex justify-center pt-4">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={handleLoadMore}
+                disabled={isFetchingNextPage}
+              >
+                {isFetchingNextPage ? "Loading..." : "Load more"}
+              </Button>
+            </div>
+          )}
         </TabsContent>
       </Tabs>
     </div>
   );
 }
+
+function TodoEditForm({
+  todo,
+  goals,
+  onSave,
+  onCancel,
+}: {
+  todo: Todo;
+  goals: Goal[];
+  onSave: (updates: TodoUpdates) => void;
+  onCancel: () => void;
+}) {
+  const [title, setTitle] = useState(todo.title);
+  const [notes, setNotes] = useState(todo.notes ?? "");
+  const [goalId, setGoalId] = useState(todo.goalId ?? "no-goal");
+  const [dueDate, setDueDate] = useState(todo.dueDate ?? "");
+  const [dueTime, setDueTime] = useState(todo.dueTime ?? "");
+  const [recurrence, setRecurrence] = useState(todo.recurrence);
+  const [weight, setWeight] = useState(String(todo.weight ?? 1));
+  const [priority, setPriority] = useState(todo.priority ? String(todo.priority) : NO_PRIORITY);
+  const [tagsText, setTagsText] = useState((todo.tags ?? []).join(", "));
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    const parsed = todoSchema.safeParse({ title: title.trim() });
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? "Invalid title");
+      return;
+    }
+
+    const nextGoalId = goalId === "no-goal" ? undefined : goalId;
+    const nextNotes = notes.trim() || undefined;
+    const nextDueDate = dueDate || undefined;
+    const updates: TodoUpdates = {};
+
+    if (parsed.data.title !== todo.title) updates.title = parsed.data.title;
+    if (nextGoalId !== todo.goalId) updates.goalId = nextGoalId;
+    if (nextNotes !== todo.notes) updates.notes = nextNotes;
+    if (nextDueDate !== todo.dueDate) updates.dueDate = nextDueDate;
+    const nextDueTime = (nextDueDate && dueTime) || undefined;
+    if (nextDueTime !== todo.dueTime) updates.dueTime = nextDueTime;
+    const nextWeight = Number(weight);
+    if (Number.isFinite(nextWeight) && nextWeight > 0 && nextWeight !== (todo.weight ?? 1)) {
+      updates.weight = nextWeight;
+    }
+    if (JSON.stringify(recurrence) !== JSON.stringify(todo.recurrence)) {
+      updates.recurrence = recurrence;
+    }
+    const nextPriority = priority === NO_PRIORITY ? undefined : (Number(priority) as TodoPriority);
+    if (nextPriority !== todo.priority) updates.priority = nextPriority;
+    const nextTags = parseTags(tagsText);
+    if (nextTags.join(",") !== (todo.tags ?? []).join(",")) {
+      updates.tags = nextTags.length > 0 ? nextTags : undefined;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      onCancel();
+      return;
+    }
+    onSave(updates);
+  };
+
+  return (
+    <div className="space-y-3 p-4 rounded-xl border border-primary/40 bg-card">
+      <Input
+        value={title}
+        onChange={(event) => {
+          setTitle(event.target.value);
+          setError(null);
+        }}
+        onKeyDown={(event) => {
+          if (event.key === "Enter") handleSave();
+          if (event.key === "Escape") onCancel();
+        }}
+        autoFocus
+      />
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <textarea
+        className="w-full min-h-[80px] rounded-md border border-input bg-background px-3 py-2 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+        placeholder="Notes (optional)"
+        value={notes}
+        onChange={(event) => setNotes(event.target.value)}
+      />
+
+      <RecurrencePicker value={recurrence} onChange={setRecurrence} />
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <LinkIcon className="w-4 h-4 text-muted-foreground" />
+          <Select value={goalId} onValueChange={setGoalId}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Link to a goal (optional)" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="no-goal">No goal</SelectItem>
+              {goals.map((goal) => (
+                <SelectItem key={goal.id} value={goal.id}>
+                  {goal.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <CalendarClock className="w-4 h-4 text-muted-foreground" />
+          <Input
+            type="date"
+            value={dueDate}
+            onChange={(event) => setDueDate(event.target.value)}
+            className="w-44"
+            aria-label="Due date"
+          />
+          <Input
+            type="time"
+            value={dueTime}
+            onChange={(event) => setDueTime(event.target.value)}
+            className="w-32"
+            aria-label="Due time"
+            disabled={!dueDate}
+          />
+          <Weight className="w-4 h-4 text-muted-foreground" />
+          <Input
+            type="number"
+            min={1}
+            max={100}
+            value={weight}
+            onChange={(event) => setWeight(event.target.value)}
+            className="w-20"
+            aria-label="Effort points"
+            title="Effort points (weight toward goal progress)"
+          />
+          <Flag className="w-4 h-4 text-muted-foreground" />
+          <PrioritySelect value={priority} onChange={setPriority} />
+          <Tag className="w-4 h-4 text-muted-foreground" />
+          <Input
+            value={tagsText}
+            onChange={(event) => setTagsText(event.target.value)}
+            placeholder="Tags, comma separated"
+            className="w-56"
+            aria-label="Tags"
+          />
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="button" size="sm" onClick={handleSave}>
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function PrioritySelect({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-36">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_PRIORITY}>No priority</SelectItem>
+        {PRIORITIES.map((priority) => (
+          <SelectItem key={priority} value={String(priority)}>
+            Priority {priority}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,138 @@
+import { format } from "date-fns";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { useTrash, useRestoreTrashItem, useDeleteTrashItem } from "@/hooks/useTrash";
+import { Button, Card, CardContent, CardHeader, CardTitle, Skeleton } from "@/components/ui";
+import { TRASH_LABELS, TRASH_RETENTION_DAYS, getDaysUntilPurge } from "@/lib/trash";
+import type { TrashCollection, TrashItems } from "@/types";
+import type { Timestamp } from "firebase/firestore";
+
+type TrashRow = { id: string; title: string; detail?: string; deletedAt: Timestamp };
+
+function toRows(trash: TrashItems): Record<TrashCollection, TrashRow[]> {
+    return {
+        goals: trash.goals.map((goal) => ({
+            id: goal.id,
+            title: goal.title,
+            deletedAt: goal.deletedAt!,
+        })),
+        todos: trash.todos.map((todo) => ({
+            id: todo.id,
+            title: todo.title,
+            detail: todo.isDone ? "Completed" : undefined,
+            deletedAt: todo.deletedAt!,
+        })),
+        activities: trash.activities.map((activity) => ({
+            id: activity.id,
+            title: activity.name,
+            deletedAt: activity.deletedAt!,
+        })),
+        dailyLogs: trash.dailyLogs.map((log) => ({
+            id: log.id,
+            title: log.activityName,
+            detail: `${log.durationMinutes} min on ${format(new Date(`${log.date}T00:00:00`), "MMM d, yyyy")}`,
+            deletedAt: log.deletedAt!,
+        })),
+    };
+}
+
+export function TrashPage() {
+    const { data: trash, isLoading } = useTrash();
+    const restoreItem = useRestoreTrashItem();
+    const deleteItem = useDeleteTrashItem();
+    const now = new Date();
+
+    if (isLoading) {
+        return (
+            <div className="space-y-6">
+                <div>
+                    <Skeleton className="h-10 w-48 mb-2" />
+                    <Skeleton className="h-5 w-64" />
+                </div>
+                {[1, 2].map((i) => (
+                    <Skeleton key={i} className="h-40" />
+                ))}
+            </div>
+        );
+    }
+
+    const rows = trash ? toRows(trash) : undefined;
+    const sections = (Object.keys(TRASH_LABELS) as TrashCollection[]).filter(
+        (collection) => rows && rows[collection].length > 0
+    );
+
+    return (
+        <div className="space-y-8">
+            <div>
+                <h1 className="text-3xl font-bold text-foreground">Trash</h1>
+                <p className="text-muted-foreground mt-1">
+                    Deleted items are removed permanently after {TRASH_RETENTION_DAYS} days
+                </p>
+            </div>
+
+            {sections.length > 0 ? (
+                sections.map((collection) => (
+                    <Card key={collection}>
+                        <CardHeader>
+                            <CardTitle className="text-lg">
+                                {TRASH_LABELS[collection]} ({rows![collection].length})
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-2">
+                            {rows![collection].map((row) => {
+                                const daysLeft = getDaysUntilPurge(row.deletedAt, now);
+                                return (
+                                    <div
+                                        key={row.id}
+                                        className="flex items-center justify-between gap-3 rounded-xl border border-border p-3"
+                                    >
+                                        <div className="min-w-0">
+                                            <p className="truncate text-foreground">{row.title}</p>
+                                            <p className="text-xs text-muted-foreground">
+                                                {row.detail && `${row.detail} · `}
+                                                Deleted {format(row.deletedAt.toDate(), "MMM d, h:mm a")} ·{" "}
+                                                {daysLeft === 0
+                                                    ? "removed today"
+                                                    : `removed in ${daysLeft} day${daysLeft === 1 ? "" : "s"}`}
+                                            </p>
+                                        </div>
+                                        <div className="flex shrink-0 items-center gap-1">
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={() => restoreItem.mutate({ collection, id: row.id })}
+                                            >
+                                                <RotateCcw className="w-4 h-4 mr-2" />
+                                                Restore
+                                            </Button>
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                                                onClick={() => deleteItem.mutate({ collection, id: row.id })}
+                                                aria-label="Delete permanently"
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </Button>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </CardContent>
+                    </Card>
+                ))
+            ) : (
+                <Card className="p-12">
+                    <div className="text-center">
+                        <div className="w-16 h-16 rounded-2xl bg-muted flex items-center justify-center mx-auto mb-4">
+                            <Trash2 className="w-8 h-8 text-muted-foreground" />
+                        </div>
+                        <h3 className="text-lg font-semibold text-foreground mb-2">Trash is empty</h3>
+                        <p className="text-muted-foreground">
+                            Deleted goals, todos, activities and daily logs show up here.
+                        </p>
+                    </div>
+                </Card>
+            )}
+        </div>
+    );
+}
@@ -1,5 +1,10 @@
 export * from "./LoginPage";
 export * from "./DashboardPage";
 export * from "./GoalsPage";
+export * from "./GoalDetailPage";
 export * from "./TodosPage";
 export * from "./DailyTrackerPage";
+export * from "./ArchivePage";
+export * from "./TrashPage";
+export * from "./ActivitiesPage";
+export * from "./FocusPage";
@@ -1,7 +1,7 @@
 import { createBrowserRouter, Navigate } from "react-router-dom";
 import { AppLayout } from "@/components/layout";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
-import { LoginPage, DashboardPage, GoalsPage, TodosPage, DailyTrackerPage } from "@/pages";
+import { LoginPage, DashboardPage, GoalsPage, GoalDetailPage, TodosPage, DailyTrackerPage, ActivitiesPage, ArchivePage, TrashPage, FocusPage } from "@/pages";
 
 export const router = createBrowserRouter([
     {
@@ -11,6 +11,11 @@ export const router = createBrowserRouter([
     {
         element: <ProtectedRoute />,
         children: [
+            {
+                // Full screen, outside the sidebar layout
+                path: "/focus",
+                element: <FocusPage />,
+            },
             {
                 element: <AppLayout />,
                 children: [
@@ -22,6 +27,10 @@ export const router = createBrowserRouter([
                         path: "/goals",
                         element: <GoalsPage />,
                     },
+                    {
+                        path: "/goals/:goalId",
+                        element: <GoalDetailPage />,
+                    },
                     {
                         path: "/todos",
                         element: <TodosPage />,
@@ -30,6 +39,18 @@ export const router = createBrowserRouter([
                         path: "/daily",
                         element: <DailyTrackerPage />,
                     },
+                    {
+                        path: "/daily/activities",
+                        element: <ActivitiesPage />,
+                    },
+                    {
+                        path: "/archive",
+                        element: <ArchivePage />,
+                    },
+                    {
+                        path: "/trash",
+                        element: <TrashPage />,
+                    },
                     {
                         path: "/",
                         element: <Navigate to="/dashboard" replace />,
@@ -1,27 +1,273 @@
 import type { Timestamp } from "firebase/firestore";
 
+export type RecurringProgressMode = "latest" | "all";
+
+// "todos": weighted share of linked todos, "manual": currentPercent set by hand,
+// "time": minutes tracked on an activity against targetMinutes, "activityTarget": the
+// tracked activity's progress toward its own time target in the current period
+export type GoalProgressMode = "todos" | "manual" | "time" | "activityTarget";
+
+// How a parent goal in "todos" mode rolls up its sub-goals. "todos": every todo of the
+// goal and its descendants counts directly, "weighted": the sub-goals' percentages are
+// averaged using each child's rollupWeight (the goal's own todos count as one more entry)
+export type GoalRollupMode = "todos" | "weighted";
+
+export interface Milestone {
+    id: string;
+    title: string;
+    dueDate: string;
+    todoIds: string[];
+}
+
 export interface Goal {
     id: string;
     title: string;
     currentPercent: number;
+    progressMode?: GoalProgressMode;
+    trackedActivityId?: string;
+    targetMinutes?: number;
+    recurringProgress?: RecurringProgressMode;
+    targetDate?: string;
+    milestones?: Milestone[];
+    parentGoalId?: string;
+    rollupMode?: GoalRollupMode;
+    rollupWeight?: number;
+    // Fractional position in the manual order; see lib/sortKeys
+    sortKey?: number;
+    // Set while the goal is in the trash
+    deletedAt?: Timestamp;
+    // When progress last reached 100%; cleared when it drops again
+    completedAt?: Timestamp;
+    // Totals of the active linked todos, kept up to date by lib/goalProgressSync so
+    // progress does not depend on which todos happen to be loaded
+    todoTotals?: GoalTodoTotals;
+    // Linked todos that were archived, still counted in the goal's progress
+    archivedTodos?: ArchivedTodoTotals;
+    // Only on documents in users/{uid}/archivedGoals
+    archivedAt?: Timestamp;
+    createdAt: Timestamp;
+}
+
+// Counts and effort points of a goal's own linked todos, following its recurringProgress
+// mode. completedWeight includes partial checklist progress.
+export interface GoalTodoTotals {
+    total: number;
+    done: number;
+    weight: number;
+    completedWeight: number;
+}
+
+// Running totals of a goal's archived todos. Superseded recurring instances are also
+// counted separately so goals in "latest" recurring mode can leave them out.
+export interface ArchivedTodoTotals {
+    count: number;
+    weight: number;
+    supersededCount: number;
+    supersededWeight: number;
+}
+
+export type GoalUpdates = Partial<
+    Pick<
+        Goal,
+        | "title"
+        | "currentPercent"
+        | "progressMode"
+        | "trackedActivityId"
+        | "targetMinutes"
+        | "recurringProgress"
+        | "targetDate"
+        | "milestones"
+        | "parentGoalId"
+        | "rollupMode"
+        | "rollupWeight"
+    >
+>;
+
+// What happens to a goal's linked todos when the goal is deleted
+export type GoalTodoAction =
+    | { type: "delete" }
+    | { type: "unlink" }
+    | { type: "move"; targetGoalId: string };
+
+export type GoalEventType =
+    | "todo_created"
+    | "todo_completed"
+    | "todo_reopened"
+    | "todo_deleted"
+    | "todo_linked"
+    | "todo_unlinked";
+
+// Timeline entry stored under users/{uid}/goals/{goalId}/events
+export interface GoalEvent {
+    id: string;
+    type: GoalEventType;
+    todoId: string;
+    todoTitle: string;
     createdAt: Timestamp;
 }
 
+export type GoalEventInput = Pick<GoalEvent, "type" | "todoId" | "todoTitle"> & { goalId: string };
+
+// Daily progress snapshot stored under users/{uid}/goals/{goalId}/progress/{date}
+export interface ProgressSnapshot {
+    goalId: string;
+    date: string; // yyyy-MM-dd, also the document id
+    total: number;
+    done: number;
+    percent: number;
+    updatedAt: Timestamp;
+}
+
+// Weekdays follow Date#getDay: 0 = Sunday ... 6 = Saturday
+export type RecurrenceRule =
+    | { type: "daily" }
+    | { type: "weekdays" }
+    | { type: "interval"; everyDays: number }
+    | { type: "weekly"; weekdays: number[] }
+    | { type: "monthly"; dayOfMonth: number };
+
+export interface ChecklistItem {
+    id: string;
+    title: string;
+    isDone: boolean;
+}
+
+// 1 is the most urgent
+export type TodoPriority = 1 | 2 | 3 | 4;
+
+// Board column of a todo. "done" always mirrors isDone; todos saved before statuses
+// existed have no status and count as backlog until completed.
+export type TodoStatus = "backlog" | "in_progress" | "done";
+
 export interface Todo {
     id: string;
     title: string;
     isDone: boolean;
+    status?: TodoStatus;
     goalId?: string;
+    notes?: string;
+    dueDate?: string;
+    // "HH:mm", only meaningful together with dueDate
+    dueTime?: string;
+    recurrence?: RecurrenceRule;
+    checklist?: ChecklistItem[];
+    weight?: number;
+    priority?: TodoPriority;
+    tags?: string[];
+    // Fractional position in the manual order; see lib/sortKeys
+    sortKey?: number;
+    seriesId?: string;
+    nextOccurrenceId?: string;
+    completedAt?: Timestamp;
+    deletedAt?: Timestamp;
+    // Only on documents in users/{uid}/archivedTodos
+    archivedAt?: Timestamp;
     createdAt: Timestamp;
 }
 
+export type TodoInput = Pick<
+    Todo,
+    "title" | "goalId" | "dueDate" | "dueTime" | "recurrence" | "weight" | "priority" | "tags"
+>;
+
+export type TodoUpdates = Partial<
+    Pick<
+        Todo,
+        | "title"
+        | "goalId"
+        | "notes"
+        | "dueDate"
+        | "dueTime"
+        | "recurrence"
+        | "checklist"
+        | "weight"
+        | "priority"
+        | "tags"
+        | "status"
+    >
+>;
+
+export type TodoDueFilter = "overdue" | "today" | "upcoming" | "no_date";
+
+// Criteria of the todo filter builder; every set criterion must match. "no-goal" in
+// goalIds matches todos without a goal, and all listed tags must be present.
+export interface TodoFilter {
+    status?: "pending" | "done";
+    goalIds?: string[];
+    tags?: string[];
+    priorities?: TodoPriority[];
+    due?: TodoDueFilter;
+}
+
+// Named filter saved under users/{uid}/smartLists
+export interface SmartList {
+    id: string;
+    name: string;
+    filter: TodoFilter;
+    createdAt: Timestamp;
+}
+
+export type TodoView = "list" | "board";
+export type TodoBoardGroup = "status" | "goal";
+
+// Per-user UI preferences stored at users/{uid}/settings/preferences
+export interface UserPreferences {
+    todoView?: TodoView;
+    todoBoardGroup?: TodoBoardGroup;
+    // Completed todos and goals are archived this many days after completion; unset is off
+    autoArchiveDays?: number;
+    // Unset until changed in settings; see DEFAULT_POMODORO_SETTINGS
+    pomodoro?: PomodoroSettings;
+}
+
+// Interval lengths for focus mode, in minutes
+export interface PomodoroSettings {
+    workMinutes: number;
+    shortBreakMinutes: number;
+    longBreakMinutes: number;
+    // Every this many work intervals, the break is a long one
+    longBreakEvery: number;
+}
+
 export interface Activity {
     id: string;
     name: string;
+    // Hex color used in the tracker charts; see lib/activities
     color?: string;
+    target?: ActivityTarget;
+    // Set while the activity is archived. Unlike todos and goals, archived activities stay in
+    // their collection: they only leave the pickers, and their logs still count.
+    archivedAt?: Timestamp;
+    deletedAt?: Timestamp;
     createdAt: Timestamp;
 }
 
+export type ActivityUpdates = Partial<Pick<Activity, "name" | "color" | "target">>;
+
+export type TargetPeriod = "day" | "week" | "month";
+
+// Time to spend on an activity in every calendar day, week or month; see lib/activityTargets
+export interface ActivityTarget {
+    period: TargetPeriod;
+    minutes: number;
+}
+
+// One stretch of time the timer ran, from a start or resume to the following pause
+export interface TimerRun {
+    start: Timestamp;
+    end: Timestamp;
+}
+
+// The Daily Tracker stopwatch, stored at users/{uid}/settings/timer while it is running or
+// paused so it survives reloads. Stopping it turns the runs into daily logs.
+export interface ActivityTimer {
+    activityId: string;
+    activityName: string;
+    runs: TimerRun[];
+    // Start of the current run; unset while paused
+    runningSince?: Timestamp;
+}
+
 export interface DailyLog {
     id: string;
     activityId: string;
@@ -29,9 +275,25 @@ export interface DailyLog {
     date: string;
     durationMinutes: number;
     notes?: string;
+    // Logged by focus mode for one finished work interval
+    isPomodoro?: boolean;
+    deletedAt?: Timestamp;
     createdAt: Timestamp;
 }
 
+// Collections whose documents are soft-deleted into the trash
+export type TrashCollection = "goals" | "todos" | "activities" | "dailyLogs";
+
+export interface TrashItems {
+    goals: Goal[];
+    todos: Todo[];
+    activities: Activity[];
+    dailyLogs: DailyLog[];
+}
+
+// Completed items moved out of the default queries into archivedTodos / archivedGoals
+export type ArchiveCollection = "todos" | "goals";
+
 export interface User {
     uid: string;
     email: string | null;